@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import {
+  captionsToTranscript,
+  detectCaptionFormat,
+  parseCaptions,
+} from "./parser";
+
+const SRT = [
+  "1",
+  "00:00:01,000 --> 00:00:04,000",
+  "<i>Hello</i> there",
+  "",
+  "2",
+  "00:01:05,500 --> 00:01:07,000",
+  "{\\an8}Chop the",
+  "onions",
+  "",
+  "3",
+  "00:01:08,000 --> 00:01:09,000",
+  "<b></b>",
+].join("\r\n");
+
+const VTT = [
+  "﻿WEBVTT",
+  "",
+  "NOTE recorded in the kitchen",
+  "",
+  "intro",
+  "00:00.000 --> 00:02.500 align:start",
+  "<c.yellow>Hi</c>",
+  "",
+  "01:00:00.000 --> 01:00:01.000",
+  "Bye",
+].join("\n");
+
+describe("detectCaptionFormat", () => {
+  test("prefers the file extension", () => {
+    expect(detectCaptionFormat("captions.SRT", VTT)).toBe("srt");
+    expect(detectCaptionFormat("captions.vtt", "")).toBe("vtt");
+  });
+
+  test("falls back to the content", () => {
+    expect(detectCaptionFormat("captions.txt", VTT)).toBe("vtt");
+    expect(
+      detectCaptionFormat("captions", "00:00:01,000 --> 00:00:02,000\nHi"),
+    ).toBe("srt");
+    expect(detectCaptionFormat("notes.txt", "just some text")).toBeNull();
+  });
+});
+
+describe("parseCaptions", () => {
+  test("parses SubRip cues and strips their markup", () => {
+    expect(parseCaptions(SRT, "srt")).toEqual({
+      success: true,
+      data: [
+        { start: 1000, end: 4000, text: "Hello there" },
+        { start: 65500, end: 67000, text: "Chop the onions" },
+      ],
+    });
+  });
+
+  test("parses WebVTT cues, skipping metadata blocks", () => {
+    expect(parseCaptions(VTT, "vtt")).toEqual({
+      success: true,
+      data: [
+        { start: 0, end: 2500, text: "Hi" },
+        { start: 3_600_000, end: 3_601_000, text: "Bye" },
+      ],
+    });
+  });
+
+  test("requires the WebVTT header", () => {
+    expect(parseCaptions("00:00.000 --> 00:01.000\nHi", "vtt")).toEqual({
+      success: false,
+      errors: [{ line: 1, message: "Missing 'WEBVTT' header" }],
+    });
+  });
+
+  test("reports malformed cues with their line", () => {
+    const content = [
+      "1",
+      "00:00:05,000 --> 00:00:04,000",
+      "Backwards",
+      "",
+      "2",
+      "00:00:06 --> 00:00:07,000",
+      "No millis",
+      "",
+      "just text",
+    ].join("\n");
+
+    expect(parseCaptions(content, "srt")).toEqual({
+      success: false,
+      errors: [
+        { line: 2, message: "Cue ends before it starts" },
+        { line: 6, message: "Invalid cue timestamp" },
+        {
+          line: 9,
+          message:
+            "Expected a cue timing line, e.g. '00:00:01,000 --> 00:00:04,000'",
+        },
+      ],
+    });
+  });
+
+  test("rejects files without cues", () => {
+    expect(parseCaptions("WEBVTT\n", "vtt")).toEqual({
+      success: false,
+      errors: [{ line: 1, message: "The file does not contain any cues" }],
+    });
+  });
+});
+
+describe("captionsToTranscript", () => {
+  test("prefixes every cue with its start", () => {
+    expect(
+      captionsToTranscript([
+        { start: 65_000, end: 66_000, text: "Chop" },
+        { start: 3_723_000, end: 3_724_000, text: "Serve" },
+      ]),
+    ).toBe("[01:05] Chop\n[01:02:03] Serve");
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Parser for SubRip (.srt) and WebVTT (.vtt) caption files. Cue text is
+ * stripped of markup (`<i>`, `<c.yellow>`, `{\an8}`), cues without text are
+ * dropped. Errors carry the line number they were found at so a malformed
+ * upload can be fixed without guessing.
+ */
+
+export type CaptionFormat = "srt" | "vtt";
+
+export type CaptionCue = {
+  /** Start of the cue in milliseconds */
+  start: number;
+  /** End of the cue in milliseconds */
+  end: number;
+  text: string;
+};
+
+export type CaptionParseError = {
+  line: number;
+  message: string;
+};
+
+export type CaptionParseResult =
+  | { success: true; data: CaptionCue[] }
+  | { success: false; errors: CaptionParseError[] };
+
+/** Parsing stops once this many errors are found, the file is likely not a caption file */
+const MAX_ERRORS = 10;
+const TIMING_PATTERN = /^(\S+)\s+-->\s+(\S+)/;
+/** (hh:)mm:ss followed by `.` (WebVTT) or `,` (SubRip) and milliseconds */
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?([0-5]\d):([0-5]\d)[.,](\d{3})$/;
+const VTT_METADATA_BLOCKS = ["NOTE", "STYLE", "REGION"];
+
+function parseTimestamp(value: string): number | null {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [, hours = "0", minutes = "0", seconds = "0", millis = "0"] = match;
+  return (
+    Number(hours) * 3_600_000 +
+    Number(minutes) * 60_000 +
+    Number(seconds) * 1000 +
+    Number(millis)
+  );
+}
+
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join(" ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Splits the file into blocks separated by blank lines, keeping line numbers */
+function splitBlocks(content: string): { line: number; lines: string[] }[] {
+  const blocks: { line: number; lines: string[] }[] = [];
+  let current: { line: number; lines: string[] } | null = null;
+
+  content.split("\n").forEach((rawLine, index) => {
+    const line = rawLine.trimEnd();
+    if (!line.trim()) {
+      current = null;
+      return;
+    }
+
+    if (!current) {
+      current = { line: index + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(line);
+  });
+
+  return blocks;
+}
+
+export function detectCaptionFormat(
+  fileName: string,
+  content: string,
+): CaptionFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "srt" || extension === "vtt") return extension;
+  if (content.replace(/^\uFEFF/, "").startsWith("WEBVTT")) return "vtt";
+  if (TIMING_PATTERN.test(content.split("\n", 3).join("\n"))) return "srt";
+  return null;
+}
+
+export function parseCaptions(
+  content: string,
+  format: CaptionFormat,
+): CaptionParseResult {
+  const errors: CaptionParseError[] = [];
+  const cues: CaptionCue[] = [];
+  const blocks = splitBlocks(
+    content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n"),
+  );
+
+  if (format === "vtt") {
+    const header = blocks.shift();
+    if (!header?.lines[0]?.startsWith("WEBVTT")) {
+      return {
+        success: false,
+        errors: [{ line: 1, message: "Missing 'WEBVTT' header" }],
+      };
+    }
+  }
+
+  for (const block of blocks) {
+    if (errors.length >= MAX_ERRORS) break;
+
+    const [first = ""] = block.lines;
+    if (
+      format === "vtt" &&
+      VTT_METADATA_BLOCKS.some((name) => first.startsWith(name))
+    ) {
+      continue;
+    }
+
+    /** The timing line may be preceded by a cue identifier (a counter in SubRip) */
+    const timingIndex = block.lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1 || timingIndex > 1) {
+      errors.push({
+        line: block.line,
+        message:
+          "Expected a cue timing line, e.g. '00:00:01,000 --> 00:00:04,000'",
+      });
+      continue;
+    }
+
+    const timingLine = block.line + timingIndex;
+    const timing = TIMING_PATTERN.exec(block.lines[timingIndex]!);
+    const start = timing ? parseTimestamp(timing[1]!) : null;
+    const end = timing ? parseTimestamp(timing[2]!) : null;
+    if (start === null || end === null) {
+      errors.push({ line: timingLine, message: "Invalid cue timestamp" });
+      continue;
+    }
+    if (end < start) {
+      errors.push({
+        line: timingLine,
+        message: "Cue ends before it starts",
+      });
+      continue;
+    }
+
+    const text = cleanCueText(block.lines.slice(timingIndex + 1));
+    if (text) cues.push({ start, end, text });
+  }
+
+  if (errors.length) return { success: false, errors };
+  if (!cues.length) {
+    return {
+      success: false,
+      errors: [{ line: 1, message: "The file does not contain any cues" }],
+    };
+  }
+
+  return { success: true, data: cues };
+}
+
+function formatTimestamp(millis: number): string {
+  const totalSeconds = Math.floor(millis / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const parts = hours > 0 ? [hours, minutes, seconds] : [minutes, seconds];
+  return parts.map((part) => String(part).padStart(2, "0")).join(":");
+}
+
+/** Renders cues as a transcript with one `[mm:ss] text` line per cue */
+export function captionsToTranscript(cues: CaptionCue[]): string {
+  return cues
+    .map((cue) => `[${formatTimestamp(cue.start)}] ${cue.text}`)
+    .join("\n");
+}
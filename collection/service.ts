@@ -0,0 +1,452 @@
+/**
+ * Personal recipe collections ("weeknight", "party snacks") and favourites,
+ * which are a collection of their own created on the first favourite. Every
+ * operation is scoped to the owning user; a collection is only readable by
+ * others through its share token, which can be revoked at any time.
+ */
+
+import { and, asc, desc, eq, isNull, max, ne, sql } from "drizzle-orm";
+import type { Database, DbTransaction } from "../db";
+import {
+  collection_recipe_schema,
+  collection_schema,
+  recipe_schema,
+} from "../db/schema";
+import { recipeColumns } from "../recipe/service";
+import { ensureDefined } from "../utils";
+import {
+  CollectionKinds,
+  CollectionNameTaken,
+  type Collection,
+  type CollectionRecipe,
+  type CollectionWithRecipes,
+  type SharedCollection,
+} from "./type";
+
+const FAVOURITES_NAME = "Favourites";
+const SHARE_TOKEN_BYTES = 24;
+
+const collectionColumns = {
+  id: collection_schema.id,
+  name: collection_schema.name,
+  kind: collection_schema.kind,
+  position: collection_schema.position,
+  share_token: collection_schema.share_token,
+  recipe_count: sql<number>`(
+    select count(*)::integer
+    from ${collection_recipe_schema}
+    inner join ${recipe_schema} on ${recipe_schema.id} = ${collection_recipe_schema.recipe_id}
+    where ${collection_recipe_schema.collection_id} = ${collection_schema.id}
+      and ${recipe_schema.deleted_at} is null
+  )`,
+  created_at: collection_schema.created_at,
+  updated_at: collection_schema.updated_at,
+};
+
+function generateShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SHARE_TOKEN_BYTES));
+  return Buffer.from(bytes).toString("base64url");
+}
+
+function isOwnCollection(collectionId: number, userId: number) {
+  return and(
+    eq(collection_schema.id, collectionId),
+    eq(collection_schema.user_id, userId),
+  );
+}
+
+/** Favourites first, then in the order set by the user */
+export async function listCollections(
+  userId: number,
+  db: Database | DbTransaction,
+): Promise<Collection[]> {
+  return await db
+    .select(collectionColumns)
+    .from(collection_schema)
+    .where(eq(collection_schema.user_id, userId))
+    .orderBy(
+      desc(eq(collection_schema.kind, CollectionKinds.favourites)),
+      asc(collection_schema.position),
+      asc(collection_schema.id),
+    );
+}
+
+export async function getCollectionById(
+  collectionId: number,
+  userId: number,
+  db: Database | DbTransaction,
+): Promise<Collection | null> {
+  const [collection] = await db
+    .select(collectionColumns)
+    .from(collection_schema)
+    .where(isOwnCollection(collectionId, userId));
+
+  return collection ?? null;
+}
+
+async function getCollectionRecipes(
+  collectionId: number,
+  db: Database | DbTransaction,
+): Promise<CollectionRecipe[]> {
+  return await db
+    .select({
+      added_at: collection_recipe_schema.added_at,
+      recipe: recipeColumns,
+    })
+    .from(collection_recipe_schema)
+    .innerJoin(
+      recipe_schema,
+      eq(recipe_schema.id, collection_recipe_schema.recipe_id),
+    )
+    .where(
+      and(
+        eq(collection_recipe_schema.collection_id, collectionId),
+        isNull(recipe_schema.deleted_at),
+      ),
+    )
+    .orderBy(desc(collection_recipe_schema.added_at), desc(recipe_schema.id));
+}
+
+export async function getCollectionWithRecipes(
+  collectionId: number,
+  userId: number,
+  db: Database,
+): Promise<CollectionWithRecipes | null> {
+  const collection = await getCollectionById(collectionId, userId, db);
+  if (!collection) return null;
+
+  return {
+    ...collection,
+    recipes: await getCollectionRecipes(collectionId, db),
+  };
+}
+
+async function findNameTaken(
+  userId: number,
+  name: string,
+  db: Database | DbTransaction,
+  collectionId?: number,
+): Promise<CollectionNameTaken | null> {
+  const [taken] = await db
+    .select({ id: collection_schema.id })
+    .from(collection_schema)
+    .where(
+      and(
+        eq(collection_schema.user_id, userId),
+        eq(collection_schema.kind, CollectionKinds.custom),
+        eq(collection_schema.name, name),
+        collectionId === undefined
+          ? undefined
+          : ne(collection_schema.id, collectionId),
+      ),
+    );
+
+  return taken ? new CollectionNameTaken(taken.id) : null;
+}
+
+/** New collections are placed last */
+export async function createCollection(
+  userId: number,
+  params: { name: string },
+  db: Database,
+): Promise<Collection | CollectionNameTaken> {
+  return await db.transaction(async (txn) => {
+    const taken = await findNameTaken(userId, params.name, txn);
+    if (taken) return taken;
+
+    const [last] = await txn
+      .select({ position: max(collection_schema.position) })
+      .from(collection_schema)
+      .where(eq(collection_schema.user_id, userId));
+    const [created] = await txn
+      .insert(collection_schema)
+      .values({
+        user_id: userId,
+        name: params.name,
+        position: (last?.position ?? -1) + 1,
+      })
+      .returning({ id: collection_schema.id });
+    ensureDefined(created, "Failed to persist collection");
+
+    const collection = await getCollectionById(created.id, userId, txn);
+    ensureDefined(collection, "Failed to read the collection");
+    return collection;
+  });
+}
+
+/** Null when the user has no such collection, favourites cannot be renamed */
+export async function renameCollection(
+  collectionId: number,
+  userId: number,
+  params: { name: string },
+  db: Database,
+): Promise<Collection | null | CollectionNameTaken> {
+  return await db.transaction(async (txn) => {
+    const taken = await findNameTaken(userId, params.name, txn, collectionId);
+    if (taken) return taken;
+
+    const [renamed] = await txn
+      .update(collection_schema)
+      .set({ name: params.name, updated_at: sql`now()` })
+      .where(
+        and(
+          isOwnCollection(collectionId, userId),
+          eq(collection_schema.kind, CollectionKinds.custom),
+        ),
+      )
+      .returning({ id: collection_schema.id });
+    if (!renamed) return null;
+
+    return await getCollectionById(collectionId, userId, txn);
+  });
+}
+
+/**
+ * Deletes a collection along with its entries, the recipes stay. False when the
+ * user has no such collection, favourites cannot be deleted.
+ */
+export async function deleteCollection(
+  collectionId: number,
+  userId: number,
+  db: Database,
+): Promise<boolean> {
+  const deleted = await db
+    .delete(collection_schema)
+    .where(
+      and(
+        isOwnCollection(collectionId, userId),
+        eq(collection_schema.kind, CollectionKinds.custom),
+      ),
+    )
+    .returning({ id: collection_schema.id });
+
+  return deleted.length > 0;
+}
+
+/**
+ * Moves the given collections to the front in the given order, the others
+ * keep their order after them. Null when one of them is not a collection of
+ * the user.
+ */
+export async function reorderCollections(
+  userId: number,
+  collectionIds: number[],
+  db: Database,
+): Promise<Collection[] | null> {
+  return await db.transaction(async (txn) => {
+    const current = await txn
+      .select({ id: collection_schema.id })
+      .from(collection_schema)
+      .where(eq(collection_schema.user_id, userId))
+      .orderBy(asc(collection_schema.position), asc(collection_schema.id))
+      .for("update");
+    const ownIds = new Set(current.map(({ id }) => id));
+    const orderedIds = Array.from(new Set(collectionIds));
+    if (orderedIds.some((collectionId) => !ownIds.has(collectionId))) {
+      return null;
+    }
+
+    const order = [
+      ...orderedIds,
+      ...current
+        .map(({ id }) => id)
+        .filter((collectionId) => !orderedIds.includes(collectionId)),
+    ];
+    for (const [position, collectionId] of order.entries()) {
+      await txn
+        .update(collection_schema)
+        .set({ position })
+        .where(eq(collection_schema.id, collectionId));
+    }
+
+    return await listCollections(userId, txn);
+  });
+}
+
+async function recipeExists(
+  recipeId: number,
+  db: Database | DbTransaction,
+): Promise<boolean> {
+  const [recipe] = await db
+    .select({ id: recipe_schema.id })
+    .from(recipe_schema)
+    .where(
+      and(eq(recipe_schema.id, recipeId), isNull(recipe_schema.deleted_at)),
+    );
+
+  return !!recipe;
+}
+
+/**
+ * Adding a recipe which is already in the collection changes nothing. Null
+ * when the user has no such collection or the recipe does not exist.
+ */
+export async function addRecipeToCollection(
+  collectionId: number,
+  userId: number,
+  recipeId: number,
+  db: Database,
+): Promise<Collection | null> {
+  return await db.transaction(async (txn) => {
+    const collection = await getCollectionById(collectionId, userId, txn);
+    if (!collection || !(await recipeExists(recipeId, txn))) return null;
+
+    const added = await txn
+      .insert(collection_recipe_schema)
+      .values({ collection_id: collectionId, recipe_id: recipeId })
+      .onConflictDoNothing()
+      .returning({ id: collection_recipe_schema.id });
+    if (!added.length) return collection;
+
+    await txn
+      .update(collection_schema)
+      .set({ updated_at: sql`now()` })
+      .where(eq(collection_schema.id, collectionId));
+    return await getCollectionById(collectionId, userId, txn);
+  });
+}
+
+/** False when the user has no such collection or the recipe is not in it */
+export async function removeRecipeFromCollection(
+  collectionId: number,
+  userId: number,
+  recipeId: number,
+  db: Database,
+): Promise<boolean> {
+  const collection = await getCollectionById(collectionId, userId, db);
+  if (!collection) return false;
+
+  const removed = await db
+    .delete(collection_recipe_schema)
+    .where(
+      and(
+        eq(collection_recipe_schema.collection_id, collectionId),
+        eq(collection_recipe_schema.recipe_id, recipeId),
+      ),
+    )
+    .returning({ id: collection_recipe_schema.id });
+  if (!removed.length) return false;
+
+  await db
+    .update(collection_schema)
+    .set({ updated_at: sql`now()` })
+    .where(eq(collection_schema.id, collectionId));
+  return true;
+}
+
+/** The favourites collection of the user, created when it does not exist yet */
+async function getFavouritesId(userId: number, db: Database): Promise<number> {
+  await db
+    .insert(collection_schema)
+    .values({
+      user_id: userId,
+      name: FAVOURITES_NAME,
+      kind: CollectionKinds.favourites,
+    })
+    .onConflictDoNothing();
+
+  const [favourites] = await db
+    .select({ id: collection_schema.id })
+    .from(collection_schema)
+    .where(
+      and(
+        eq(collection_schema.user_id, userId),
+        eq(collection_schema.kind, CollectionKinds.favourites),
+      ),
+    );
+  ensureDefined(favourites, "Failed to persist favourites collection");
+
+  return favourites.id;
+}
+
+export async function getFavourites(
+  userId: number,
+  db: Database,
+): Promise<CollectionWithRecipes> {
+  const favourites = await getCollectionWithRecipes(
+    await getFavouritesId(userId, db),
+    userId,
+    db,
+  );
+  ensureDefined(favourites, "Failed to read favourites collection");
+
+  return favourites;
+}
+
+/** Null when the recipe does not exist */
+export async function addFavourite(
+  userId: number,
+  recipeId: number,
+  db: Database,
+): Promise<Collection | null> {
+  return await addRecipeToCollection(
+    await getFavouritesId(userId, db),
+    userId,
+    recipeId,
+    db,
+  );
+}
+
+/** False when the recipe is not a favourite */
+export async function removeFavourite(
+  userId: number,
+  recipeId: number,
+  db: Database,
+): Promise<boolean> {
+  return await removeRecipeFromCollection(
+    await getFavouritesId(userId, db),
+    userId,
+    recipeId,
+    db,
+  );
+}
+
+/**
+ * Creates the share token of a collection, a shared collection keeps its token.
+ * Null when the user has no such collection.
+ */
+export async function shareCollection(
+  collectionId: number,
+  userId: number,
+  db: Database,
+): Promise<Collection | null> {
+  await db
+    .update(collection_schema)
+    .set({
+      share_token: sql`coalesce(${collection_schema.share_token}, ${generateShareToken()})`,
+    })
+    .where(isOwnCollection(collectionId, userId));
+
+  return await getCollectionById(collectionId, userId, db);
+}
+
+/** Revokes the share link, null when the user has no such collection */
+export async function unshareCollection(
+  collectionId: number,
+  userId: number,
+  db: Database,
+): Promise<Collection | null> {
+  await db
+    .update(collection_schema)
+    .set({ share_token: null })
+    .where(isOwnCollection(collectionId, userId));
+
+  return await getCollectionById(collectionId, userId, db);
+}
+
+/** Null when no collection is shared with the token */
+export async function getSharedCollection(
+  shareToken: string,
+  db: Database,
+): Promise<SharedCollection | null> {
+  const [collection] = await db
+    .select({ id: collection_schema.id, name: collection_schema.name })
+    .from(collection_schema)
+    .where(eq(collection_schema.share_token, shareToken));
+  if (!collection) return null;
+
+  return {
+    name: collection.name,
+    recipes: await getCollectionRecipes(collection.id, db),
+  };
+}
@@ -0,0 +1,56 @@
+import type { Recipe } from "../recipe/type";
+
+export const CollectionKinds = {
+  custom: "custom",
+  /** One per user, created on the first favourite; cannot be renamed or deleted */
+  favourites: "favourites",
+} as const;
+
+export type CollectionKind =
+  (typeof CollectionKinds)[keyof typeof CollectionKinds];
+
+export type Collection = {
+  id: number;
+  name: string;
+  kind: CollectionKind;
+  position: number;
+  /** Token of the read-only link, null while the collection is not shared */
+  share_token: string | null;
+  recipe_count: number;
+  created_at: Date;
+  updated_at: Date;
+};
+
+export type CollectionRecipe = {
+  added_at: Date;
+  recipe: Recipe;
+};
+
+export type CollectionWithRecipes = Collection & {
+  /** Most recently added first, deleted recipes left out */
+  recipes: CollectionRecipe[];
+};
+
+/** A collection as seen through its share link, without details of the owner */
+export type SharedCollection = {
+  name: string;
+  recipes: CollectionRecipe[];
+};
+
+export class CollectionNameTaken extends Error {
+  public readonly type = "collectionNameTaken";
+  public readonly uri =
+    "https://tastebase.dev/http-errors/collection-name-taken";
+  public readonly collectionId: number;
+  constructor(
+    collectionId: number,
+    params?: { message?: string; options?: ErrorOptions },
+  ) {
+    super(
+      params?.message ?? "Another collection of the user has the same name",
+      params?.options,
+    );
+    this.collectionId = collectionId;
+    this.name = "CollectionNameTaken";
+  }
+}
@@ -0,0 +1,2 @@
+ALTER TABLE "recipes" ADD COLUMN "language" text;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "original" jsonb;
\ No newline at end of file
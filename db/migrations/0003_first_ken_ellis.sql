@@ -0,0 +1,15 @@
+ALTER TABLE "recipes" ADD COLUMN "steps" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+-- Recipes stored before steps were structured get one step per line of their markdown instructions
+UPDATE "recipes" SET "steps" = coalesce((
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'text', regexp_replace(btrim("line"), '^\d+[.)]\s*', ''),
+      'durationMinutes', NULL,
+      'temperature', NULL,
+      'ingredients', '[]'::jsonb
+    ) ORDER BY "position"
+  )
+  FROM regexp_split_to_table("recipes"."instructions", E'\n') WITH ORDINALITY AS "lines"("line", "position")
+  WHERE btrim("line") <> ''
+), '[]'::jsonb)
+WHERE "steps" = '[]'::jsonb;
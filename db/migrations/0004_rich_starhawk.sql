@@ -0,0 +1,8 @@
+ALTER TABLE "recipes" ADD COLUMN "servings" integer;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "yield" text;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "prep_minutes" integer;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "cook_minutes" integer;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "cuisine" text;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "course" text;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "difficulty" text;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "equipment" text[] DEFAULT ARRAY[]::text[] NOT NULL;
\ No newline at end of file
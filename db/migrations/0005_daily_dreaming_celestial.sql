@@ -0,0 +1 @@
+ALTER TABLE "recipes" ADD COLUMN "nutrition" jsonb;
\ No newline at end of file
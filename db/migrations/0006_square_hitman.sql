@@ -0,0 +1,37 @@
+CREATE TABLE "recipe_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"recipe_id" integer NOT NULL,
+	"revision" integer NOT NULL,
+	"action" text NOT NULL,
+	"author" text,
+	"data" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "recipe_revisions_recipe_id_revision_unique" UNIQUE("recipe_id","revision")
+);
+--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "recipe_revisions" ADD CONSTRAINT "recipe_revisions_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Recipes stored before revisions existed start their history with the recipe as it is now
+INSERT INTO "recipe_revisions" ("recipe_id", "revision", "action", "author", "data", "created_at")
+SELECT
+  "id",
+  1,
+  'created',
+  NULL,
+  jsonb_build_object(
+    'name', "name",
+    'instructions', "instructions",
+    'steps', "steps",
+    'ingredients', "ingredients",
+    'tags', to_jsonb("tags"),
+    'servings', "servings",
+    'yield', "yield",
+    'prep_minutes', "prep_minutes",
+    'cook_minutes', "cook_minutes",
+    'cuisine', "cuisine",
+    'course', "course",
+    'difficulty', "difficulty",
+    'equipment', to_jsonb("equipment")
+  ),
+  "created_at"
+FROM "recipes";
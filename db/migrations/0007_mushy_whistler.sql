@@ -0,0 +1,197 @@
+CREATE TABLE "ingredient_aliases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ingredient_id" integer NOT NULL,
+	"alias" text NOT NULL,
+	"kind" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ingredient_aliases_alias_unique" UNIQUE("alias")
+);
+--> statement-breakpoint
+CREATE TABLE "ingredients" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"category" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ingredients_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "ingredient_ids" integer[] DEFAULT ARRAY[]::integer[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingredient_aliases" ADD CONSTRAINT "ingredient_aliases_ingredient_id_ingredients_id_fk" FOREIGN KEY ("ingredient_id") REFERENCES "public"."ingredients"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+-- Starter catalogue, maintained through the admin endpoints from here on
+INSERT INTO "ingredients" ("name", "category") VALUES
+  ('scallion', 'produce'),
+  ('cilantro', 'produce'),
+  ('bell pepper', 'produce'),
+  ('eggplant', 'produce'),
+  ('zucchini', 'produce'),
+  ('chickpea', 'legume'),
+  ('arugula', 'produce'),
+  ('onion', 'produce'),
+  ('garlic', 'produce'),
+  ('tomato', 'produce'),
+  ('potato', 'produce'),
+  ('sweet potato', 'produce'),
+  ('carrot', 'produce'),
+  ('celery', 'produce'),
+  ('mushroom', 'produce'),
+  ('spinach', 'produce'),
+  ('lettuce', 'produce'),
+  ('cucumber', 'produce'),
+  ('ginger', 'produce'),
+  ('chili pepper', 'produce'),
+  ('lemon', 'produce'),
+  ('lime', 'produce'),
+  ('avocado', 'produce'),
+  ('apple', 'produce'),
+  ('banana', 'produce'),
+  ('basil', 'produce'),
+  ('parsley', 'produce'),
+  ('mint', 'produce'),
+  ('bay leaf', 'spice'),
+  ('butter', 'dairy'),
+  ('milk', 'dairy'),
+  ('heavy cream', 'dairy'),
+  ('yogurt', 'dairy'),
+  ('cheddar', 'dairy'),
+  ('parmesan', 'dairy'),
+  ('mozzarella', 'dairy'),
+  ('egg', 'dairy'),
+  ('chicken breast', 'meat'),
+  ('chicken thigh', 'meat'),
+  ('chicken', 'meat'),
+  ('ground beef', 'meat'),
+  ('beef', 'meat'),
+  ('pork', 'meat'),
+  ('bacon', 'meat'),
+  ('shrimp', 'seafood'),
+  ('salmon', 'seafood'),
+  ('tuna', 'seafood'),
+  ('rice', 'grain'),
+  ('pasta', 'grain'),
+  ('spaghetti', 'grain'),
+  ('bread', 'grain'),
+  ('rolled oats', 'grain'),
+  ('all-purpose flour', 'baking'),
+  ('sugar', 'baking'),
+  ('brown sugar', 'baking'),
+  ('powdered sugar', 'baking'),
+  ('baking powder', 'baking'),
+  ('baking soda', 'baking'),
+  ('cornstarch', 'baking'),
+  ('vanilla extract', 'baking'),
+  ('honey', 'condiment'),
+  ('salt', 'spice'),
+  ('black pepper', 'spice'),
+  ('cumin', 'spice'),
+  ('turmeric', 'spice'),
+  ('paprika', 'spice'),
+  ('cinnamon', 'spice'),
+  ('chili powder', 'spice'),
+  ('garam masala', 'spice'),
+  ('oregano', 'spice'),
+  ('soy sauce', 'condiment'),
+  ('vinegar', 'condiment'),
+  ('ketchup', 'condiment'),
+  ('mayonnaise', 'condiment'),
+  ('mustard', 'condiment'),
+  ('olive oil', 'oil'),
+  ('vegetable oil', 'oil'),
+  ('sesame oil', 'oil'),
+  ('peanut', 'nut'),
+  ('peanut butter', 'nut'),
+  ('almond', 'nut'),
+  ('walnut', 'nut'),
+  ('cashew', 'nut'),
+  ('lentil', 'legume'),
+  ('black bean', 'legume'),
+  ('kidney bean', 'legume'),
+  ('tofu', 'legume'),
+  ('water', 'beverage'),
+  ('chicken stock', 'other'),
+  ('vegetable stock', 'other');
+--> statement-breakpoint
+INSERT INTO "ingredient_aliases" ("ingredient_id", "alias", "kind")
+SELECT "ingredients"."id", "aliases"."alias", "aliases"."kind"
+FROM (VALUES
+  ('scallion', 'green onion', 'synonym'),
+  ('scallion', 'spring onion', 'synonym'),
+  ('cilantro', 'coriander leaf', 'synonym'),
+  ('cilantro', 'fresh coriander', 'synonym'),
+  ('bell pepper', 'capsicum', 'synonym'),
+  ('bell pepper', 'sweet pepper', 'synonym'),
+  ('eggplant', 'aubergine', 'synonym'),
+  ('eggplant', 'brinjal', 'synonym'),
+  ('zucchini', 'courgette', 'synonym'),
+  ('chickpea', 'garbanzo bean', 'synonym'),
+  ('chickpea', 'garbanzo', 'synonym'),
+  ('chickpea', 'chana', 'synonym'),
+  ('arugula', 'rocket', 'synonym'),
+  ('sweet potato', 'yam', 'synonym'),
+  ('chili pepper', 'chilli', 'synonym'),
+  ('chili pepper', 'chile', 'synonym'),
+  ('chili pepper', 'chili', 'synonym'),
+  ('milk', 'whole milk', 'synonym'),
+  ('heavy cream', 'double cream', 'synonym'),
+  ('heavy cream', 'whipping cream', 'synonym'),
+  ('heavy cream', 'heavy whipping cream', 'synonym'),
+  ('yogurt', 'yoghurt', 'synonym'),
+  ('yogurt', 'curd', 'synonym'),
+  ('cheddar', 'cheddar cheese', 'synonym'),
+  ('parmesan', 'parmigiano reggiano', 'synonym'),
+  ('parmesan', 'parmesan cheese', 'synonym'),
+  ('mozzarella', 'mozzarella cheese', 'synonym'),
+  ('ground beef', 'minced beef', 'synonym'),
+  ('ground beef', 'beef mince', 'synonym'),
+  ('shrimp', 'prawn', 'synonym'),
+  ('rolled oats', 'oats', 'synonym'),
+  ('rolled oats', 'oatmeal', 'synonym'),
+  ('all-purpose flour', 'plain flour', 'synonym'),
+  ('all-purpose flour', 'flour', 'synonym'),
+  ('all-purpose flour', 'maida', 'synonym'),
+  ('sugar', 'granulated sugar', 'synonym'),
+  ('sugar', 'white sugar', 'synonym'),
+  ('sugar', 'caster sugar', 'synonym'),
+  ('powdered sugar', 'icing sugar', 'synonym'),
+  ('powdered sugar', 'confectioners sugar', 'synonym'),
+  ('baking soda', 'bicarbonate of soda', 'synonym'),
+  ('baking soda', 'bicarb', 'synonym'),
+  ('cornstarch', 'cornflour', 'synonym'),
+  ('cornstarch', 'corn starch', 'synonym'),
+  ('vanilla extract', 'vanilla essence', 'synonym'),
+  ('vanilla extract', 'vanilla', 'synonym'),
+  ('salt', 'kosher salt', 'synonym'),
+  ('salt', 'sea salt', 'synonym'),
+  ('salt', 'table salt', 'synonym'),
+  ('black pepper', 'pepper', 'synonym'),
+  ('black pepper', 'ground black pepper', 'synonym'),
+  ('cumin', 'jeera', 'synonym'),
+  ('cumin', 'ground cumin', 'synonym'),
+  ('turmeric', 'haldi', 'synonym'),
+  ('turmeric', 'ground turmeric', 'synonym'),
+  ('paprika', 'smoked paprika', 'synonym'),
+  ('cinnamon', 'ground cinnamon', 'synonym'),
+  ('chili powder', 'red chili powder', 'synonym'),
+  ('chili powder', 'chilli powder', 'synonym'),
+  ('oregano', 'dried oregano', 'synonym'),
+  ('soy sauce', 'shoyu', 'synonym'),
+  ('ketchup', 'tomato ketchup', 'synonym'),
+  ('mayonnaise', 'mayo', 'synonym'),
+  ('olive oil', 'extra virgin olive oil', 'synonym'),
+  ('olive oil', 'evoo', 'synonym'),
+  ('vegetable oil', 'neutral oil', 'synonym'),
+  ('vegetable oil', 'canola oil', 'synonym'),
+  ('vegetable oil', 'sunflower oil', 'synonym'),
+  ('vegetable oil', 'cooking oil', 'synonym'),
+  ('peanut', 'groundnut', 'synonym'),
+  ('lentil', 'dal', 'synonym'),
+  ('lentil', 'dhal', 'synonym'),
+  ('kidney bean', 'rajma', 'synonym'),
+  ('tofu', 'bean curd', 'synonym'),
+  ('chicken stock', 'chicken broth', 'synonym'),
+  ('vegetable stock', 'vegetable broth', 'synonym'),
+  ('chili pepper', 'chillies', 'plural'),
+  ('chili pepper', 'chilies', 'plural'),
+  ('bay leaf', 'bay leaves', 'plural')
+) AS "aliases"("name", "alias", "kind")
+JOIN "ingredients" ON "ingredients"."name" = "aliases"."name";
@@ -0,0 +1,16 @@
+CREATE TABLE "recipe_duplicates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"recipe_id" integer NOT NULL,
+	"duplicate_of_id" integer NOT NULL,
+	"similarity" real NOT NULL,
+	"ingredient_overlap" real NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"resolved_at" timestamp,
+	CONSTRAINT "recipe_duplicates_recipe_id_duplicate_of_id_unique" UNIQUE("recipe_id","duplicate_of_id")
+);
+--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "canonical_recipe_id" integer;--> statement-breakpoint
+ALTER TABLE "recipe_duplicates" ADD CONSTRAINT "recipe_duplicates_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recipe_duplicates" ADD CONSTRAINT "recipe_duplicates_duplicate_of_id_recipes_id_fk" FOREIGN KEY ("duplicate_of_id") REFERENCES "public"."recipes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recipes" ADD CONSTRAINT "recipes_canonical_recipe_id_recipes_id_fk" FOREIGN KEY ("canonical_recipe_id") REFERENCES "public"."recipes"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "collection_recipes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"collection_id" integer NOT NULL,
+	"recipe_id" integer NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "collection_recipes_collection_id_recipe_id_unique" UNIQUE("collection_id","recipe_id")
+);
+--> statement-breakpoint
+CREATE TABLE "collections" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"kind" text DEFAULT 'custom' NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"share_token" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "collections_share_token_unique" UNIQUE("share_token")
+);
+--> statement-breakpoint
+ALTER TABLE "collection_recipes" ADD CONSTRAINT "collection_recipes_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collection_recipes" ADD CONSTRAINT "collection_recipes_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collections" ADD CONSTRAINT "collections_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "collections_user_id_name_unique" ON "collections" USING btree ("user_id","name") WHERE "collections"."kind" = 'custom';--> statement-breakpoint
+CREATE UNIQUE INDEX "collections_user_id_favourites_unique" ON "collections" USING btree ("user_id") WHERE "collections"."kind" = 'favourites';
\ No newline at end of file
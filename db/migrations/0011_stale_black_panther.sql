@@ -0,0 +1,30 @@
+CREATE TABLE "meal_plan_checked_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"meal_plan_id" integer NOT NULL,
+	"item_key" text NOT NULL,
+	"checked_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "meal_plan_checked_items_meal_plan_id_item_key_unique" UNIQUE("meal_plan_id","item_key")
+);
+--> statement-breakpoint
+CREATE TABLE "meal_plan_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"meal_plan_id" integer NOT NULL,
+	"recipe_id" integer NOT NULL,
+	"date" date NOT NULL,
+	"servings" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "meal_plans" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"start_date" date NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "meal_plan_checked_items" ADD CONSTRAINT "meal_plan_checked_items_meal_plan_id_meal_plans_id_fk" FOREIGN KEY ("meal_plan_id") REFERENCES "public"."meal_plans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meal_plan_entries" ADD CONSTRAINT "meal_plan_entries_meal_plan_id_meal_plans_id_fk" FOREIGN KEY ("meal_plan_id") REFERENCES "public"."meal_plans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meal_plan_entries" ADD CONSTRAINT "meal_plan_entries_recipe_id_recipes_id_fk" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meal_plans" ADD CONSTRAINT "meal_plans_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -7,9 +7,32 @@ import {
   vector,
   integer,
   timestamp,
+  date,
   unique,
+  uniqueIndex,
+  real,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import type { Ingredient } from "../recipe/type";
+import type {
+  ContentItemData,
+  Ingredient,
+  OriginalRecipe,
+  RecipeCourse,
+  RecipeDifficulty,
+  RecipeDuplicateStatus,
+  RecipeRevisionAction,
+  RecipeRevisionData,
+  RecipeStep,
+} from "../recipe/type";
+import type { RecipeNutrition } from "../nutrition/type";
+import type {
+  IngredientAliasKind,
+  IngredientCategory,
+} from "../ingredient/type";
+import type { JobStatus } from "../job/type";
+import type { ApiKeyScope } from "../user/type";
+import type { CollectionKind } from "../collection/type";
+import { EMBEDDING_DIMENSIONS } from "../llm/type";
 
 export const recipe_source_schema = pgTable(
   "recipe_sources",
@@ -33,25 +56,138 @@ export const recipe_schema = pgTable("recipes", {
     .references(() => recipe_source_schema.id)
     .notNull(),
   name: text("name").notNull(),
+  /** Markdown rendering of `steps` */
   instructions: text("instructions").notNull(),
+  steps: jsonb("steps")
+    .$type<RecipeStep[]>()
+    .notNull()
+    .default(sql`'[]'::jsonb`),
   ingredients: jsonb("ingredients").$type<Ingredient[]>().notNull(),
   tags: text("tags")
     .array()
     .notNull()
     .default(sql`ARRAY[]::text[]`),
+  /** Language code of the source, the recipe columns are always in English */
+  language: text("language"),
+  servings: integer("servings"),
+  yield: text("yield"),
+  prep_minutes: integer("prep_minutes"),
+  cook_minutes: integer("cook_minutes"),
+  cuisine: text("cuisine"),
+  course: text("course").$type<RecipeCourse>(),
+  difficulty: text("difficulty").$type<RecipeDifficulty>(),
+  equipment: text("equipment")
+    .array()
+    .notNull()
+    .default(sql`ARRAY[]::text[]`),
+  original: jsonb("original").$type<OriginalRecipe>(),
+  /** Estimated from the ingredients, see nutrition/estimate.ts */
+  nutrition: jsonb("nutrition").$type<RecipeNutrition>(),
   created_at: timestamp("created_at")
     .notNull()
     .default(sql`now()`),
+  /** Catalogue ingredients the recipe ingredients are linked to */
+  ingredient_ids: integer("ingredient_ids")
+    .array()
+    .notNull()
+    .default(sql`ARRAY[]::integer[]`),
+  /** Soft delete, deleted recipes are kept along with their revisions */
+  deleted_at: timestamp("deleted_at"),
+  /**
+   * Recipe this one was merged into as a duplicate, its source is listed with
+   * the canonical recipe from then on
+   */
+  canonical_recipe_id: integer("canonical_recipe_id").references(
+    (): AnyPgColumn => recipe_schema.id,
+  ),
+  /** User whose API key submitted the source, null for older recipes */
+  submitted_by_user_id: integer("submitted_by_user_id").references(
+    () => user_schema.id,
+  ),
 });
 
+/** Likely duplicates flagged when recipes are saved, for review */
+export const recipe_duplicate_schema = pgTable(
+  "recipe_duplicates",
+  {
+    id: serial("id").primaryKey(),
+    /** The recipe which was saved later */
+    recipe_id: integer("recipe_id")
+      .references(() => recipe_schema.id)
+      .notNull(),
+    duplicate_of_id: integer("duplicate_of_id")
+      .references(() => recipe_schema.id)
+      .notNull(),
+    similarity: real("similarity").notNull(),
+    ingredient_overlap: real("ingredient_overlap").notNull(),
+    status: text("status")
+      .$type<RecipeDuplicateStatus>()
+      .notNull()
+      .default("pending"),
+    created_at: timestamp("created_at")
+      .notNull()
+      .default(sql`now()`),
+    resolved_at: timestamp("resolved_at"),
+  },
+  (table) => ({
+    uniquePair: unique().on(table.recipe_id, table.duplicate_of_id),
+  }),
+);
+
+/** Canonical ingredients recipe ingredients are normalized to */
+export const ingredient_schema = pgTable("ingredients", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  category: text("category").$type<IngredientCategory>(),
+  created_at: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+/** Synonyms and plural forms of the catalogue ingredients */
+export const ingredient_alias_schema = pgTable("ingredient_aliases", {
+  id: serial("id").primaryKey(),
+  ingredient_id: integer("ingredient_id")
+    .references(() => ingredient_schema.id, { onDelete: "cascade" })
+    .notNull(),
+  alias: text("alias").notNull().unique(),
+  kind: text("kind").$type<IngredientAliasKind>().notNull(),
+  created_at: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+/** Immutable history of a recipe, one row per creation, edit and deletion */
+export const recipe_revision_schema = pgTable(
+  "recipe_revisions",
+  {
+    id: serial("id").primaryKey(),
+    recipe_id: integer("recipe_id")
+      .references(() => recipe_schema.id)
+      .notNull(),
+    revision: integer("revision").notNull(),
+    action: text("action").$type<RecipeRevisionAction>().notNull(),
+    /** Name of the author when the revision was made, kept for display */
+    author: text("author"),
+    author_user_id: integer("author_user_id").references(() => user_schema.id),
+    data: jsonb("data").$type<RecipeRevisionData>().notNull(),
+    created_at: timestamp("created_at")
+      .notNull()
+      .default(sql`now()`),
+  },
+  (table) => ({
+    uniqueRecipeRevision: unique().on(table.recipe_id, table.revision),
+  }),
+);
+
 export const embedding_schema = pgTable("embeddings", {
   id: serial("id").primaryKey(),
   recipe_id: integer("recipe_id")
     .references(() => recipe_schema.id)
     .notNull(),
   type: text("type").notNull(),
-  /** OpenAI text-embedding-3-small produces 1536-d vectors */
-  data: vector({ dimensions: 1536 }),
+  /** OpenAI text-embedding-3-small produces 1536-d vectors, see EMBEDDING_DIMENSIONS */
+  data: vector({ dimensions: EMBEDDING_DIMENSIONS }),
 });
 
 export const content_item_schema = pgTable("content_items", {
@@ -60,8 +196,167 @@ export const content_item_schema = pgTable("content_items", {
     .references(() => recipe_source_schema.id)
     .notNull(),
   pipeline_step: text("step").notNull(),
+  data: jsonb("data").$type<ContentItemData>().notNull(),
+  created_at: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+export const job_schema = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  recipe_source_id: integer("recipe_source_id")
+    .references(() => recipe_source_schema.id)
+    .notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  recipe_id: integer("recipe_id").references(() => recipe_schema.id),
+  /** Submitter, the recipe saved by the job is recorded as theirs */
+  user_id: integer("user_id").references(() => user_schema.id),
+  request_id: text("request_id"),
+  locked_at: timestamp("locked_at"),
+  created_at: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+  updated_at: timestamp("updated_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+export const job_event_schema = pgTable("job_events", {
+  id: serial("id").primaryKey(),
+  job_id: integer("job_id")
+    .references(() => job_schema.id)
+    .notNull(),
+  type: text("type").notNull(),
   data: jsonb("data").notNull(),
   created_at: timestamp("created_at")
     .notNull()
     .default(sql`now()`),
 });
+
+export const user_schema = pgTable("users", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  email: text("email").notNull().unique(),
+  created_at: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+/** Only the SHA-256 hash of a key is stored, the key is shown once */
+export const api_key_schema = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id")
+    .references(() => user_schema.id)
+    .notNull(),
+  name: text("name").notNull(),
+  key_hash: text("key_hash").notNull().unique(),
+  /** Start of the key, to tell keys apart without storing them */
+  prefix: text("prefix").notNull(),
+  scopes: text("scopes").array().$type<ApiKeyScope[]>().notNull(),
+  created_at: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+  last_used_at: timestamp("last_used_at"),
+  revoked_at: timestamp("revoked_at"),
+});
+
+/** Named recipe collections of a user, favourites being one of them */
+export const collection_schema = pgTable(
+  "collections",
+  {
+    id: serial("id").primaryKey(),
+    user_id: integer("user_id")
+      .references(() => user_schema.id)
+      .notNull(),
+    name: text("name").notNull(),
+    kind: text("kind").$type<CollectionKind>().notNull().default("custom"),
+    /** Order of the collections of a user, ascending */
+    position: integer("position").notNull().default(0),
+    /** Token of the read-only link, null while the collection is not shared */
+    share_token: text("share_token").unique(),
+    created_at: timestamp("created_at")
+      .notNull()
+      .default(sql`now()`),
+    updated_at: timestamp("updated_at")
+      .notNull()
+      .default(sql`now()`),
+  },
+  (table) => ({
+    uniqueUserName: uniqueIndex("collections_user_id_name_unique")
+      .on(table.user_id, table.name)
+      .where(sql`${table.kind} = 'custom'`),
+    uniqueUserFavourites: uniqueIndex("collections_user_id_favourites_unique")
+      .on(table.user_id)
+      .where(sql`${table.kind} = 'favourites'`),
+  }),
+);
+
+export const collection_recipe_schema = pgTable(
+  "collection_recipes",
+  {
+    id: serial("id").primaryKey(),
+    collection_id: integer("collection_id")
+      .references(() => collection_schema.id, { onDelete: "cascade" })
+      .notNull(),
+    recipe_id: integer("recipe_id")
+      .references(() => recipe_schema.id)
+      .notNull(),
+    added_at: timestamp("added_at")
+      .notNull()
+      .default(sql`now()`),
+  },
+  (table) => ({
+    uniqueCollectionRecipe: unique().on(table.collection_id, table.recipe_id),
+  }),
+);
+
+export const meal_plan_schema = pgTable("meal_plans", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id")
+    .references(() => user_schema.id)
+    .notNull(),
+  name: text("name").notNull(),
+  /** First day of the week the plan covers */
+  start_date: date("start_date", { mode: "string" }).notNull(),
+  created_at: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+  updated_at: timestamp("updated_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+export const meal_plan_entry_schema = pgTable("meal_plan_entries", {
+  id: serial("id").primaryKey(),
+  meal_plan_id: integer("meal_plan_id")
+    .references(() => meal_plan_schema.id, { onDelete: "cascade" })
+    .notNull(),
+  recipe_id: integer("recipe_id")
+    .references(() => recipe_schema.id)
+    .notNull(),
+  date: date("date", { mode: "string" }).notNull(),
+  /** Servings to cook, null to cook the recipe as written */
+  servings: integer("servings"),
+  created_at: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+/** Shopping list items ticked off, by item key, see planner/shopping.ts */
+export const meal_plan_checked_item_schema = pgTable(
+  "meal_plan_checked_items",
+  {
+    id: serial("id").primaryKey(),
+    meal_plan_id: integer("meal_plan_id")
+      .references(() => meal_plan_schema.id, { onDelete: "cascade" })
+      .notNull(),
+    item_key: text("item_key").notNull(),
+    checked_at: timestamp("checked_at")
+      .notNull()
+      .default(sql`now()`),
+  },
+  (table) => ({
+    uniqueMealPlanItem: unique().on(table.meal_plan_id, table.item_key),
+  }),
+);
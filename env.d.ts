@@ -1,7 +1,15 @@
 declare module "bun" {
   interface Env {
     DATABASE_URL: string;
-    OPENROUTER_API_KEY: string;
+    OPENAI_API_KEY?: string;
+    OPENROUTER_API_KEY?: string;
+    /** openai (default), openrouter, local or fake, see llm/provider.ts */
+    LLM_PROVIDER?: string;
+    LLM_MODEL?: string;
+    LLM_EMBEDDING_MODEL?: string;
+    /** Base URL of the OpenAI-compatible API of the local provider */
+    LLM_BASE_URL?: string;
+    LLM_API_KEY?: string;
     LOG_PRETTY: string;
   }
 }
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { convertAmount, formatAmount, formatQuantity } from "./convert";
+
+describe("convertAmount", () => {
+  test("converts weights within their kind", () => {
+    expect(
+      convertAmount("beef", { min: 2, max: 2, unit: "lb" }, "metric"),
+    ).toMatchObject({ min: 907.184, max: 907.184, unit: "g" });
+    expect(
+      convertAmount("potatoes", { min: 1.5, max: 2, unit: "kg" }, "us"),
+    ).toMatchObject({ unit: "lb" });
+    expect(
+      convertAmount("cheese", { min: 100, max: 100, unit: "g" }, "us").unit,
+    ).toBe("oz");
+  });
+
+  test("picks the unit by the size of the amount", () => {
+    expect(
+      convertAmount("milk", { min: 1500, max: 1500, unit: "ml" }, "us").unit,
+    ).toBe("cup");
+    expect(
+      convertAmount("vanilla", { min: 5, max: 5, unit: "ml" }, "us").unit,
+    ).toBe("tsp");
+    expect(
+      convertAmount("milk", { min: 6, max: 6, unit: "cup" }, "metric").unit,
+    ).toBe("l");
+  });
+
+  test("weighs the ingredients metric recipes weigh", () => {
+    const flour = convertAmount(
+      "flour",
+      { min: 1, max: 1, unit: "cup" },
+      "metric",
+    );
+
+    expect(flour.unit).toBe("g");
+    expect(flour.min).toBeCloseTo(125.4, 1);
+    expect(flour.conversionError).toBeNull();
+  });
+
+  test("reports the weighing skipped without a density", () => {
+    const parsley = convertAmount(
+      "chopped parsley",
+      { min: 1, max: 1, unit: "cup" },
+      "metric",
+    );
+
+    expect(parsley.unit).toBe("ml");
+    expect(parsley.min).toBeCloseTo(236.6, 1);
+    expect(parsley.conversionError).toContain("chopped parsley");
+  });
+
+  test("leaves metric volumes without a density alone", () => {
+    expect(
+      convertAmount(
+        "coconut milk",
+        { min: 200, max: 200, unit: "ml" },
+        "metric",
+      ),
+    ).toEqual({ min: 200, max: 200, unit: "ml", conversionError: null });
+    expect(
+      convertAmount("stock", { min: 200, max: 200, unit: "ml" }, "metric")
+        .conversionError,
+    ).toBeNull();
+  });
+
+  test("keeps spoons and counts in metric", () => {
+    expect(
+      convertAmount("butter", { min: 1, max: 1, unit: "tbsp" }, "metric"),
+    ).toEqual({ min: 1, max: 1, unit: "tbsp", conversionError: null });
+    expect(
+      convertAmount("garlic", { min: 2, max: 2, unit: "clove" }, "us"),
+    ).toEqual({ min: 2, max: 2, unit: "clove", conversionError: null });
+    expect(
+      convertAmount("eggs", { min: 3, max: 3, unit: null }, "metric"),
+    ).toEqual({ min: 3, max: 3, unit: null, conversionError: null });
+  });
+});
+
+describe("formatAmount", () => {
+  test("uses fractions for US and count units", () => {
+    expect(formatAmount(0.333, "cup")).toBe("1/3");
+    expect(formatAmount(1.5, null)).toBe("1 1/2");
+    expect(formatAmount(2.98, "clove")).toBe("3");
+  });
+
+  test("rounds metric amounts to sensible decimals", () => {
+    expect(formatAmount(237.4, "ml")).toBe("235");
+    expect(formatAmount(12.6, "g")).toBe("13");
+    expect(formatAmount(1.26, "kg")).toBe("1.3");
+    expect(formatAmount(0.256, "l")).toBe("0.26");
+  });
+});
+
+describe("formatQuantity", () => {
+  test("formats ranges and pluralizes worded units", () => {
+    expect(formatQuantity(1.5, 1.5, "cup")).toBe("1 1/2 cups");
+    expect(formatQuantity(1, 2, "tbsp")).toBe("1-2 tbsp");
+    expect(formatQuantity(1, 1, "clove")).toBe("1 clove");
+    expect(formatQuantity(3, 3, null)).toBe("3");
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Unit conversion and rounding of scaled ingredient amounts. Metric amounts are
+ * rounded to what a scale or jug can measure, US amounts to the fractions found
+ * on measuring cups and spoons (0.333 cup becomes 1/3 cup).
+ */
+
+import { getDensity } from "./density";
+import { getUnitKind, UnitKinds, type Unit } from "./unit";
+
+export const UnitSystems = {
+  metric: "metric",
+  us: "us",
+} as const;
+
+export type UnitSystem = (typeof UnitSystems)[keyof typeof UnitSystems];
+
+export const ML_PER_UNIT: Partial<Record<Unit, number>> = {
+  ml: 1,
+  l: 1000,
+  tsp: 4.929,
+  tbsp: 14.787,
+  cup: 236.588,
+  "fl oz": 29.574,
+  pint: 473.176,
+  quart: 946.353,
+  gallon: 3785.41,
+};
+
+export const G_PER_UNIT: Partial<Record<Unit, number>> = {
+  mg: 0.001,
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+/** Spoons are the same in both systems and stay spoons when small enough */
+const SPOONS: Unit[] = ["tsp", "tbsp"];
+/** Volumes already metric, which were never meant to be weighed */
+const METRIC_VOLUMES: Unit[] = ["ml", "l"];
+
+export type ConvertedAmount = {
+  min: number;
+  max: number;
+  unit: Unit | null;
+  /** Why the amount could not be converted as requested, null if it was */
+  conversionError: string | null;
+};
+
+function pickMetricVolume(ml: number): Unit {
+  return ml >= 1000 ? "l" : "ml";
+}
+
+function pickMetricWeight(g: number): Unit {
+  return g >= 1000 ? "kg" : "g";
+}
+
+function pickUsVolume(ml: number): Unit {
+  if (ml < ML_PER_UNIT.tbsp!) return "tsp";
+  if (ml < ML_PER_UNIT.cup! / 4) return "tbsp";
+  return "cup";
+}
+
+function pickUsWeight(g: number): Unit {
+  return g >= G_PER_UNIT.lb! ? "lb" : "oz";
+}
+
+/**
+ * Converts an amount of an ingredient to the given unit system. Volumes and
+ * weights are converted within their kind, except for ingredients metric
+ * recipes weigh (flour, sugar, ...) which are converted from volumes to grams
+ * using their density. Without a known density US volumes are converted to
+ * metric volumes and the skipped weighing is reported rather than guessed.
+ */
+export function convertAmount(
+  ingredientName: string,
+  amount: { min: number; max: number; unit: Unit | null },
+  system: UnitSystem,
+): ConvertedAmount {
+  const { min, max, unit } = amount;
+  const unchanged = { min, max, unit, conversionError: null };
+  if (!unit) return unchanged;
+
+  const kind = getUnitKind(unit);
+  if (kind === UnitKinds.count) return unchanged;
+
+  if (kind === UnitKinds.weight) {
+    const factor = G_PER_UNIT[unit]!;
+    const target =
+      system === UnitSystems.metric
+        ? pickMetricWeight(max * factor)
+        : pickUsWeight(max * factor);
+    const ratio = factor / G_PER_UNIT[target]!;
+    return {
+      min: min * ratio,
+      max: max * ratio,
+      unit: target,
+      conversionError: null,
+    };
+  }
+
+  const factor = ML_PER_UNIT[unit]!;
+  const ml = max * factor;
+  if (system === UnitSystems.us) {
+    const target = pickUsVolume(ml);
+    const ratio = factor / ML_PER_UNIT[target]!;
+    return {
+      min: min * ratio,
+      max: max * ratio,
+      unit: target,
+      conversionError: null,
+    };
+  }
+
+  if (SPOONS.includes(unit)) return unchanged;
+
+  const density = getDensity(ingredientName);
+  if (density?.weighed) {
+    const grams = factor * density.gramsPerMl;
+    const target = pickMetricWeight(max * grams);
+    const ratio = grams / G_PER_UNIT[target]!;
+    return {
+      min: min * ratio,
+      max: max * ratio,
+      unit: target,
+      conversionError: null,
+    };
+  }
+
+  const target = pickMetricVolume(ml);
+  const ratio = factor / ML_PER_UNIT[target]!;
+  return {
+    min: min * ratio,
+    max: max * ratio,
+    unit: target,
+    conversionError:
+      density || METRIC_VOLUMES.includes(unit)
+        ? null
+        : `No density known for '${ingredientName}', kept as a volume instead of converting to a weight`,
+  };
+}
+
+/** Denominators of the fractions found on measuring cups and spoons */
+const FRACTION_DENOMINATORS = [2, 3, 4, 8];
+const FRACTION_UNITS: (Unit | null)[] = [
+  null,
+  "tsp",
+  "tbsp",
+  "cup",
+  "fl oz",
+  "pint",
+  "quart",
+  "gallon",
+];
+
+function formatFraction(value: number): string {
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+
+  let best = { numerator: 0, denominator: 1, error: remainder };
+  for (const denominator of FRACTION_DENOMINATORS) {
+    const numerator = Math.round(remainder * denominator);
+    const error = Math.abs(remainder - numerator / denominator);
+    if (error < best.error - 1e-9) best = { numerator, denominator, error };
+  }
+
+  if (best.numerator === best.denominator) return String(whole + 1);
+  if (best.numerator === 0) return String(whole || formatDecimal(value));
+  const fraction = `${best.numerator}/${best.denominator}`;
+  return whole ? `${whole} ${fraction}` : fraction;
+}
+
+function formatDecimal(value: number): string {
+  if (value < 1) return String(Math.round(value * 100) / 100);
+  if (value >= 100) return String(Math.round(value / 5) * 5);
+  if (value >= 10) return String(Math.round(value));
+  return String(Math.round(value * 10) / 10);
+}
+
+/**
+ * Rounds an amount for display, as a fraction for US and count units and as a
+ * decimal for metric ones, e.g. 0.333 cup → "1/3", 237.4 ml → "235".
+ */
+export function formatAmount(value: number, unit: Unit | null): string {
+  return FRACTION_UNITS.includes(unit) ||
+    (unit && getUnitKind(unit) === "count")
+    ? formatFraction(value)
+    : formatDecimal(value);
+}
+
+/** Units written as words are pluralized, abbreviations are not */
+const PLURALS: Partial<Record<Unit, string>> = {
+  cup: "cups",
+  pint: "pints",
+  quart: "quarts",
+  gallon: "gallons",
+  pinch: "pinches",
+  dash: "dashes",
+  clove: "cloves",
+  can: "cans",
+  slice: "slices",
+  stick: "sticks",
+  bunch: "bunches",
+  handful: "handfuls",
+  sprig: "sprigs",
+  piece: "pieces",
+};
+
+/** Formats an amount range with its unit, e.g. "1-2 tbsp" or "1 1/2 cups" */
+export function formatQuantity(
+  min: number,
+  max: number,
+  unit: Unit | null,
+): string {
+  const amount =
+    formatAmount(min, unit) === formatAmount(max, unit)
+      ? formatAmount(max, unit)
+      : `${formatAmount(min, unit)}-${formatAmount(max, unit)}`;
+  if (!unit) return amount;
+
+  return `${amount} ${max > 1 ? (PLURALS[unit] ?? unit) : unit}`;
+}
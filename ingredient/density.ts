@@ -0,0 +1,69 @@
+/**
+ * Densities (grams per millilitre) of ingredients commonly measured by volume,
+ * used to convert between volume and weight. `weighed` ingredients are the
+ * ones metric recipes list by weight (flour, sugar, ...), liquids stay volumes.
+ *
+ * Values are averages for the ingredient as usually measured (spooned and
+ * levelled for flours), good enough for cooking but not for baking science.
+ */
+
+import { matchIngredientName } from "./name";
+
+type Density = { gramsPerMl: number; weighed: boolean };
+
+const DENSITIES: Record<string, Density> = {
+  flour: { gramsPerMl: 0.53, weighed: true },
+  "all-purpose flour": { gramsPerMl: 0.53, weighed: true },
+  "bread flour": { gramsPerMl: 0.55, weighed: true },
+  "whole wheat flour": { gramsPerMl: 0.51, weighed: true },
+  "almond flour": { gramsPerMl: 0.41, weighed: true },
+  cornstarch: { gramsPerMl: 0.54, weighed: true },
+  sugar: { gramsPerMl: 0.85, weighed: true },
+  "brown sugar": { gramsPerMl: 0.93, weighed: true },
+  "powdered sugar": { gramsPerMl: 0.51, weighed: true },
+  "icing sugar": { gramsPerMl: 0.51, weighed: true },
+  salt: { gramsPerMl: 1.22, weighed: true },
+  "kosher salt": { gramsPerMl: 0.64, weighed: true },
+  "baking powder": { gramsPerMl: 0.81, weighed: true },
+  "baking soda": { gramsPerMl: 0.93, weighed: true },
+  "cocoa powder": { gramsPerMl: 0.42, weighed: true },
+  "rolled oats": { gramsPerMl: 0.38, weighed: true },
+  oats: { gramsPerMl: 0.38, weighed: true },
+  rice: { gramsPerMl: 0.85, weighed: true },
+  "basmati rice": { gramsPerMl: 0.8, weighed: true },
+  lentils: { gramsPerMl: 0.81, weighed: true },
+  breadcrumbs: { gramsPerMl: 0.45, weighed: true },
+  butter: { gramsPerMl: 0.96, weighed: true },
+  "peanut butter": { gramsPerMl: 1.09, weighed: true },
+  "cream cheese": { gramsPerMl: 0.98, weighed: true },
+  "chocolate chips": { gramsPerMl: 0.72, weighed: true },
+  "grated parmesan": { gramsPerMl: 0.42, weighed: true },
+  parmesan: { gramsPerMl: 0.42, weighed: true },
+  "shredded cheese": { gramsPerMl: 0.47, weighed: true },
+  walnuts: { gramsPerMl: 0.5, weighed: true },
+  almonds: { gramsPerMl: 0.6, weighed: true },
+  honey: { gramsPerMl: 1.42, weighed: false },
+  "maple syrup": { gramsPerMl: 1.32, weighed: false },
+  water: { gramsPerMl: 1, weighed: false },
+  milk: { gramsPerMl: 1.03, weighed: false },
+  "coconut milk": { gramsPerMl: 0.96, weighed: false },
+  cream: { gramsPerMl: 1.01, weighed: false },
+  "heavy cream": { gramsPerMl: 1.01, weighed: false },
+  "sour cream": { gramsPerMl: 0.97, weighed: false },
+  yogurt: { gramsPerMl: 1.03, weighed: false },
+  oil: { gramsPerMl: 0.92, weighed: false },
+  "olive oil": { gramsPerMl: 0.91, weighed: false },
+  "vegetable oil": { gramsPerMl: 0.92, weighed: false },
+  "soy sauce": { gramsPerMl: 1.15, weighed: false },
+  vinegar: { gramsPerMl: 1.01, weighed: false },
+  stock: { gramsPerMl: 1, weighed: false },
+  broth: { gramsPerMl: 1, weighed: false },
+};
+
+const NAMES = Object.keys(DENSITIES);
+
+/** Looks up the density of an ingredient, see matchIngredientName */
+export function getDensity(ingredientName: string): Density | null {
+  const match = matchIngredientName(ingredientName, NAMES);
+  return match ? DENSITIES[match]! : null;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { getDensity } from "./density";
+import { matchIngredientName, normalizeIngredientName } from "./name";
+import { resolveIngredientId } from "./service";
+
+describe("normalizeIngredientName", () => {
+  test("singularizes plurals", () => {
+    expect(normalizeIngredientName("Tomatoes")).toBe("tomato");
+    expect(normalizeIngredientName("Berries")).toBe("berry");
+    expect(normalizeIngredientName("Eggs")).toBe("egg");
+    expect(normalizeIngredientName("green  onions ")).toBe("green onion");
+  });
+
+  test("keeps names which only look plural", () => {
+    expect(normalizeIngredientName("couscous")).toBe("couscous");
+    expect(normalizeIngredientName("hummus")).toBe("hummus");
+    expect(normalizeIngredientName("asparagus")).toBe("asparagus");
+  });
+});
+
+describe("matchIngredientName", () => {
+  const known = ["butter", "sugar", "brown sugar", "egg", "walnuts", "milk"];
+
+  test("matches known names on whole words", () => {
+    expect(matchIngredientName("Unsalted butter, softened", known)).toBe(
+      "butter",
+    );
+    expect(matchIngredientName("buttermilk", known)).toBeNull();
+    expect(matchIngredientName("eggplant", known)).toBeNull();
+  });
+
+  test("ignores a plural ending on the ingredient name", () => {
+    expect(matchIngredientName("large eggs", known)).toBe("egg");
+    expect(matchIngredientName("chopped walnuts", known)).toBe("walnuts");
+  });
+
+  test("prefers the longest match", () => {
+    expect(matchIngredientName("packed brown sugar", known)).toBe(
+      "brown sugar",
+    );
+    expect(matchIngredientName("caster sugar", known)).toBe("sugar");
+  });
+
+  test("tells compound names apart by their own entry", () => {
+    expect(getDensity("peanut butter")?.gramsPerMl).toBe(1.09);
+    expect(getDensity("butter")?.gramsPerMl).toBe(0.96);
+    expect(getDensity("light coconut milk")?.weighed).toBe(false);
+    expect(getDensity("cream cheese")?.weighed).toBe(true);
+  });
+});
+
+describe("resolveIngredientId", () => {
+  const lookup = new Map([
+    ["scallion", 1],
+    ["green onion", 1],
+    ["butter", 2],
+    ["peanut butter", 3],
+    ["tomato", 4],
+  ]);
+
+  test("resolves aliases to their catalogue entry", () => {
+    expect(resolveIngredientId("Scallions", lookup)).toBe(1);
+    expect(resolveIngredientId("sliced green onions", lookup)).toBe(1);
+  });
+
+  test("resolves the longest known tail", () => {
+    expect(resolveIngredientId("crunchy peanut butter", lookup)).toBe(3);
+    expect(resolveIngredientId("salted butter", lookup)).toBe(2);
+    expect(resolveIngredientId("cherry tomatoes", lookup)).toBe(4);
+    expect(resolveIngredientId("butter beans", lookup)).toBeNull();
+  });
+});
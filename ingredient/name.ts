@@ -0,0 +1,43 @@
+/** Escapes the characters which have a meaning in a regular expression */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Normalizes an ingredient name as entered by users (e.g. a pantry) to the
+ * singular lower case form recipe ingredient names are matched against:
+ * "Tomatoes" → "tomato", "Berries" → "berry", "Eggs" → "egg".
+ */
+export function normalizeIngredientName(name: string): string {
+  const normalized = name.trim().toLowerCase().replace(/\s+/g, " ");
+  if (/oes$/.test(normalized)) return normalized.slice(0, -2);
+  if (/[^aeiou]ies$/.test(normalized)) return `${normalized.slice(0, -3)}y`;
+  if (/[^sui]s$/.test(normalized)) return normalized.slice(0, -1);
+  return normalized;
+}
+
+/**
+ * Finds the most specific of the known names an ingredient name contains as
+ * whole words, e.g. "unsalted butter" matches "butter", "buttermilk" does not
+ * and "brown sugar" wins over "sugar". Known names match regardless of a
+ * plural ending on the ingredient name. Compounds naming another ingredient
+ * ("peanut butter") need their own known name to win over their last word.
+ */
+export function matchIngredientName(
+  ingredientName: string,
+  knownNames: string[],
+): string | null {
+  const name = ingredientName.toLowerCase();
+  let best: string | null = null;
+
+  for (const known of knownNames) {
+    if (best && best.length >= known.length) continue;
+    const pattern = new RegExp(
+      String.raw`(?:^|[^\p{L}])${escapeRegExp(known)}(?:s|es)?(?:$|[^\p{L}])`,
+      "u",
+    );
+    if (pattern.test(name)) best = known;
+  }
+
+  return best;
+}
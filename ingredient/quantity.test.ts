@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { parseQuantity } from "./quantity";
+
+describe("parseQuantity", () => {
+  test.each([
+    ["200g", { min: 200, max: 200, unit: "g" }],
+    ["1 1/2 cups", { min: 1.5, max: 1.5, unit: "cup" }],
+    ["½ tsp", { min: 0.5, max: 0.5, unit: "tsp" }],
+    ["2-3 tbsp", { min: 2, max: 3, unit: "tbsp" }],
+    ["1,5 l", { min: 1.5, max: 1.5, unit: "l" }],
+    ["1 L", { min: 1, max: 1, unit: "l" }],
+    ["two cloves", { min: 2, max: 2, unit: "clove" }],
+    ["3", { min: 3, max: 3, unit: null }],
+  ] as const)("reads the amount of %s", (text, amount) => {
+    expect(parseQuantity(text)).toMatchObject(amount);
+  });
+
+  test("keeps the text as written", () => {
+    expect(parseQuantity("  2 tbsp ").quantity).toBe("2 tbsp");
+  });
+
+  test("separates qualifiers and preparations", () => {
+    expect(parseQuantity("heaped 2 T")).toMatchObject({
+      min: 2,
+      unit: "tbsp",
+      qualifier: "heaped",
+      preparation: null,
+    });
+    expect(parseQuantity("1 cup, finely chopped")).toMatchObject({
+      min: 1,
+      unit: "cup",
+      qualifier: null,
+      preparation: "finely chopped",
+    });
+    expect(parseQuantity("1 L milk")).toMatchObject({
+      min: 1,
+      unit: "l",
+      qualifier: "milk",
+    });
+    expect(parseQuantity("3 (400g) cans")).toMatchObject({
+      min: 3,
+      unit: "can",
+      qualifier: "400g",
+    });
+  });
+
+  test("counts an article as one only before a unit", () => {
+    expect(parseQuantity("a pinch")).toMatchObject({
+      min: 1,
+      max: 1,
+      unit: "pinch",
+    });
+    expect(parseQuantity("a few")).toMatchObject({
+      min: null,
+      max: null,
+      unit: null,
+      qualifier: "a few",
+    });
+  });
+
+  test("has no amount without a leading number", () => {
+    expect(parseQuantity("to taste")).toEqual({
+      quantity: "to taste",
+      min: null,
+      max: null,
+      unit: null,
+      qualifier: "to taste",
+      preparation: null,
+    });
+    expect(parseQuantity(null).quantity).toBeNull();
+    expect(parseQuantity("   ").quantity).toBeNull();
+  });
+});
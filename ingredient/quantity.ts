@@ -0,0 +1,195 @@
+/**
+ * Parses the free-text quantities recipes come with ("1-2 tbsp", "200 g",
+ * "a pinch", "1 cup, finely chopped") into numbers and a canonical unit which
+ * can be scaled and converted. The text is kept as is for display.
+ */
+
+import { matchUnit, type Unit } from "./unit";
+
+export type IngredientQuantity = {
+  /** Quantity as written in the recipe, null when none was given */
+  quantity: string | null;
+  /** Lower bound of the amount, equal to `max` unless a range was given */
+  min: number | null;
+  max: number | null;
+  unit: Unit | null;
+  /** Words around the amount which qualify it, e.g. "heaped" or "to taste" */
+  qualifier: string | null;
+  /** How the ingredient is prepared, e.g. "finely chopped" */
+  preparation: string | null;
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "¼": 1 / 4,
+  "½": 1 / 2,
+  "¾": 3 / 4,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "⅛": 1 / 8,
+  "⅜": 3 / 8,
+  "⅝": 5 / 8,
+  "⅞": 7 / 8,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  half: 1 / 2,
+  quarter: 1 / 4,
+  dozen: 12,
+};
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join("");
+/** "1", "1.5", "1,5", "1/2", "1 1/2", "1½", "½" or a number word */
+const AMOUNT = String.raw`(?:\d+\s?[${FRACTION_CHARS}]|[${FRACTION_CHARS}]|\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?|(?:${Object.keys(NUMBER_WORDS).join("|")})(?![\p{L}]))`;
+const AMOUNT_PATTERN = new RegExp(
+  String.raw`^(${AMOUNT})(?:\s*(?:-|–|—|to|or)\s*(${AMOUNT}))?\s*`,
+  "iu",
+);
+
+/** Leading words which qualify the amount rather than being part of it */
+const LEADING_QUALIFIERS =
+  /^((?:about|approx\.?|approximately|around|roughly|almost|nearly|at least|up to|heaped|heaping|level|scant|generous|rounded)\s+)+/i;
+
+const PREPARATIONS = [
+  "chopped",
+  "minced",
+  "diced",
+  "sliced",
+  "grated",
+  "shredded",
+  "crushed",
+  "ground",
+  "peeled",
+  "cubed",
+  "julienned",
+  "mashed",
+  "melted",
+  "softened",
+  "beaten",
+  "whisked",
+  "sifted",
+  "toasted",
+  "roasted",
+  "boiled",
+  "cooked",
+  "drained",
+  "rinsed",
+  "soaked",
+  "halved",
+  "quartered",
+  "deseeded",
+  "seeded",
+  "pitted",
+  "zested",
+  "juiced",
+  "torn",
+  "trimmed",
+  "room temperature",
+];
+const PREPARATION_PATTERN = new RegExp(
+  String.raw`(?:^|\s)((?:(?:finely|roughly|coarsely|thinly|thickly|freshly|lightly|well)\s+)?(?:${PREPARATIONS.join("|")})\b.*)$`,
+  "i",
+);
+
+function parseAmount(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  if (text in NUMBER_WORDS) return NUMBER_WORDS[text]!;
+
+  const fraction = /^(\d+)?\s?([¼½¾⅓⅔⅛⅜⅝⅞])$/u.exec(text);
+  if (fraction) {
+    return Number(fraction[1] ?? 0) + UNICODE_FRACTIONS[fraction[2]!]!;
+  }
+
+  const mixed = /^(?:(\d+)\s+)?(\d+)\/(\d+)$/.exec(text);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    if (denominator === 0) return null;
+    return Number(mixed[1] ?? 0) + Number(mixed[2]) / denominator;
+  }
+
+  const number = Number(text.replace(",", "."));
+  return Number.isFinite(number) ? number : null;
+}
+
+function joinText(...parts: (string | null | undefined)[]): string | null {
+  const text = parts
+    .map((part) => part?.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join(" ");
+  return text.length ? text : null;
+}
+
+/**
+ * Parses a quantity into its amount, unit, qualifier and preparation. Parts
+ * which are not understood end up in the qualifier so nothing written in the
+ * recipe is lost, a quantity without a leading amount has no numbers at all.
+ */
+export function parseQuantity(text: string | null): IngredientQuantity {
+  const quantity = text?.trim() || null;
+  const parsed: IngredientQuantity = {
+    quantity,
+    min: null,
+    max: null,
+    unit: null,
+    qualifier: null,
+    preparation: null,
+  };
+  if (!quantity) return parsed;
+
+  /** "1 cup, finely chopped" and "1 cup (finely chopped)" */
+  const [head = "", ...rest] = quantity.split(/,(?!\d)/);
+  let remaining = head.replace(/\(([^)]*)\)/g, (_, note: string) => {
+    rest.unshift(note);
+    return " ";
+  });
+  const notes = rest.map((part) => part.trim()).filter(Boolean);
+
+  const leading = LEADING_QUALIFIERS.exec(remaining.trim());
+  remaining = remaining.trim().slice(leading?.[0].length ?? 0);
+
+  const amount = AMOUNT_PATTERN.exec(remaining);
+  const min = amount ? parseAmount(amount[1]!) : null;
+  const max = amount?.[2] ? parseAmount(amount[2]) : min;
+  /** "a" and "an" only count as one when followed by a unit, e.g. "a pinch" */
+  const isArticle = !!amount && /^an?$/i.test(amount[1]!.trim());
+  const unitText = amount ? remaining.slice(amount[0].length) : remaining;
+  const unit = amount && min !== null ? matchUnit(unitText) : null;
+
+  if (amount && min !== null && max !== null && (!isArticle || unit)) {
+    parsed.min = Math.min(min, max);
+    parsed.max = Math.max(min, max);
+    parsed.unit = unit?.unit ?? null;
+    remaining = unitText.slice(unit?.length ?? 0);
+  }
+
+  remaining = remaining.replace(/^\s*of\s+/i, "");
+  const preparation = PREPARATION_PATTERN.exec(remaining);
+  if (preparation) {
+    remaining = remaining.slice(0, preparation.index);
+  }
+
+  const preparations = notes.filter((note) => PREPARATION_PATTERN.test(note));
+  parsed.preparation = joinText(
+    [preparation?.[1], ...preparations].filter(Boolean).join(", "),
+  );
+  parsed.qualifier = joinText(
+    leading?.[0],
+    remaining,
+    notes.filter((note) => !preparations.includes(note)).join(", "),
+  );
+
+  return parsed;
+}
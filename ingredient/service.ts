@@ -0,0 +1,323 @@
+/**
+ * Ingredient catalogue: canonical ingredients with their category, synonyms
+ * and irregular plurals. Recipe ingredients keep the name they were written
+ * with and are linked to a catalogue entry when they are saved, so "scallion",
+ * "green onion" and "spring onions" are searched and matched as one.
+ */
+
+import { asc, eq, ilike, inArray, or, and } from "drizzle-orm";
+import type { Database, DbTransaction } from "../db";
+import { ingredient_alias_schema, ingredient_schema } from "../db/schema";
+import type { Ingredient } from "../recipe/type";
+import { ensureDefined } from "../utils";
+import { normalizeIngredientName } from "./name";
+import {
+  IngredientAliasKinds,
+  IngredientNameTaken,
+  type CatalogueIngredient,
+  type IngredientAliasKind,
+  type IngredientCategory,
+  type IngredientLookup,
+} from "./type";
+
+function toCatalogueName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export async function getIngredientLookup(
+  db: Database | DbTransaction,
+): Promise<IngredientLookup> {
+  const [ingredients, aliases] = await Promise.all([
+    db
+      .select({ id: ingredient_schema.id, name: ingredient_schema.name })
+      .from(ingredient_schema),
+    db
+      .select({
+        id: ingredient_alias_schema.ingredient_id,
+        name: ingredient_alias_schema.alias,
+      })
+      .from(ingredient_alias_schema),
+  ]);
+
+  return new Map(
+    [...ingredients, ...aliases].map(({ id, name }) => [name, id] as const),
+  );
+}
+
+/**
+ * Catalogue id of an ingredient name: the name itself, its singular or, for
+ * names with a descriptor in front ("unsalted butter", "large eggs"), the
+ * longest known name it ends with. Null when the catalogue does not know it.
+ */
+export function resolveIngredientId(
+  name: string,
+  lookup: IngredientLookup,
+): number | null {
+  const words = toCatalogueName(name).split(" ");
+
+  for (let start = 0; start < words.length; start++) {
+    const tail = words.slice(start).join(" ");
+    const id = lookup.get(tail) ?? lookup.get(normalizeIngredientName(tail));
+    if (id !== undefined) return id;
+  }
+
+  return null;
+}
+
+/** Links recipe ingredients to the catalogue, see resolveIngredientId */
+export function linkIngredients(
+  ingredients: Ingredient[],
+  lookup: IngredientLookup,
+): { ingredients: Ingredient[]; ingredientIds: number[] } {
+  const linked = ingredients.map((ingredient) => ({
+    ...ingredient,
+    ingredientId: resolveIngredientId(ingredient.name, lookup),
+  }));
+  const ingredientIds = Array.from(
+    new Set(
+      linked.flatMap((ingredient) =>
+        ingredient.ingredientId === null ? [] : [ingredient.ingredientId],
+      ),
+    ),
+  );
+
+  return { ingredients: linked, ingredientIds };
+}
+
+async function withAliases(
+  ingredients: {
+    id: number;
+    name: string;
+    category: IngredientCategory | null;
+  }[],
+  db: Database | DbTransaction,
+): Promise<CatalogueIngredient[]> {
+  const aliases = ingredients.length
+    ? await db
+        .select()
+        .from(ingredient_alias_schema)
+        .where(
+          inArray(
+            ingredient_alias_schema.ingredient_id,
+            ingredients.map((ingredient) => ingredient.id),
+          ),
+        )
+        .orderBy(asc(ingredient_alias_schema.alias))
+    : [];
+
+  return ingredients.map((ingredient) => {
+    const own = aliases.filter(
+      (alias) => alias.ingredient_id === ingredient.id,
+    );
+    return {
+      ...ingredient,
+      synonyms: own
+        .filter((alias) => alias.kind === IngredientAliasKinds.synonym)
+        .map((alias) => alias.alias),
+      plurals: own
+        .filter((alias) => alias.kind === IngredientAliasKinds.plural)
+        .map((alias) => alias.alias),
+    };
+  });
+}
+
+const catalogueColumns = {
+  id: ingredient_schema.id,
+  name: ingredient_schema.name,
+  category: ingredient_schema.category,
+};
+
+/** Catalogue ingredients whose name or an alias contains the query */
+export async function listCatalogueIngredients(
+  filters: { query?: string; category?: IngredientCategory },
+  db: Database,
+): Promise<CatalogueIngredient[]> {
+  const conditions = [];
+  if (filters.query) {
+    const pattern = `%${toCatalogueName(filters.query)}%`;
+    const aliased = db
+      .select({ id: ingredient_alias_schema.ingredient_id })
+      .from(ingredient_alias_schema)
+      .where(ilike(ingredient_alias_schema.alias, pattern));
+    conditions.push(
+      or(
+        ilike(ingredient_schema.name, pattern),
+        inArray(ingredient_schema.id, aliased),
+      ),
+    );
+  }
+  if (filters.category) {
+    conditions.push(eq(ingredient_schema.category, filters.category));
+  }
+
+  const ingredients = await db
+    .select(catalogueColumns)
+    .from(ingredient_schema)
+    .where(and(...conditions))
+    .orderBy(asc(ingredient_schema.name));
+
+  return await withAliases(ingredients, db);
+}
+
+export async function getCatalogueIngredient(
+  ingredientId: number,
+  db: Database | DbTransaction,
+): Promise<CatalogueIngredient | null> {
+  const [ingredient] = await withAliases(
+    await db
+      .select(catalogueColumns)
+      .from(ingredient_schema)
+      .where(eq(ingredient_schema.id, ingredientId)),
+    db,
+  );
+
+  return ingredient ?? null;
+}
+
+/**
+ * Names, synonyms and plurals are unique across the whole catalogue, otherwise
+ * a recipe ingredient could link to more than one entry.
+ */
+function findTakenName(
+  names: string[],
+  lookup: IngredientLookup,
+  ingredientId?: number,
+): IngredientNameTaken | null {
+  for (const name of names) {
+    const owner = lookup.get(name);
+    if (owner !== undefined && owner !== ingredientId) {
+      return new IngredientNameTaken(name, owner);
+    }
+  }
+
+  return null;
+}
+
+export async function createCatalogueIngredient(
+  params: {
+    name: string;
+    category: IngredientCategory | null;
+    synonyms: string[];
+    plurals: string[];
+  },
+  db: Database,
+): Promise<CatalogueIngredient | IngredientNameTaken> {
+  const name = toCatalogueName(params.name);
+  const aliases = [
+    ...params.synonyms.map((alias) => ({
+      alias: toCatalogueName(alias),
+      kind: IngredientAliasKinds.synonym,
+    })),
+    ...params.plurals.map((alias) => ({
+      alias: toCatalogueName(alias),
+      kind: IngredientAliasKinds.plural,
+    })),
+  ].filter(({ alias }) => alias !== name);
+
+  return await db.transaction(async (txn) => {
+    const taken = findTakenName(
+      [name, ...aliases.map(({ alias }) => alias)],
+      await getIngredientLookup(txn),
+    );
+    if (taken) return taken;
+
+    const [ingredient] = await txn
+      .insert(ingredient_schema)
+      .values({ name, category: params.category })
+      .returning({ id: ingredient_schema.id });
+    ensureDefined(ingredient, "Failed to persist catalogue ingredient");
+
+    if (aliases.length) {
+      await txn
+        .insert(ingredient_alias_schema)
+        .values(
+          aliases.map((alias) => ({ ...alias, ingredient_id: ingredient.id })),
+        )
+        .onConflictDoNothing();
+    }
+
+    const created = await getCatalogueIngredient(ingredient.id, txn);
+    ensureDefined(created, "Failed to read the catalogue ingredient");
+    return created;
+  });
+}
+
+export async function updateCatalogueIngredient(
+  ingredientId: number,
+  params: { name?: string; category?: IngredientCategory | null },
+  db: Database,
+): Promise<CatalogueIngredient | null | IngredientNameTaken> {
+  return await db.transaction(async (txn) => {
+    const current = await getCatalogueIngredient(ingredientId, txn);
+    if (!current) return null;
+
+    const name = params.name ? toCatalogueName(params.name) : current.name;
+    const taken = findTakenName(
+      [name],
+      await getIngredientLookup(txn),
+      ingredientId,
+    );
+    if (taken) return taken;
+
+    await txn
+      .update(ingredient_schema)
+      .set({
+        name,
+        category:
+          params.category === undefined ? current.category : params.category,
+      })
+      .where(eq(ingredient_schema.id, ingredientId));
+
+    return await getCatalogueIngredient(ingredientId, txn);
+  });
+}
+
+/** Adding an alias the ingredient already has changes nothing */
+export async function addIngredientAlias(
+  ingredientId: number,
+  params: { alias: string; kind: IngredientAliasKind },
+  db: Database,
+): Promise<CatalogueIngredient | null | IngredientNameTaken> {
+  const alias = toCatalogueName(params.alias);
+
+  return await db.transaction(async (txn) => {
+    const current = await getCatalogueIngredient(ingredientId, txn);
+    if (!current) return null;
+
+    const taken = findTakenName(
+      [alias],
+      await getIngredientLookup(txn),
+      ingredientId,
+    );
+    if (taken) return taken;
+
+    if (alias !== current.name) {
+      await txn
+        .insert(ingredient_alias_schema)
+        .values({ ingredient_id: ingredientId, alias, kind: params.kind })
+        .onConflictDoNothing();
+    }
+
+    return await getCatalogueIngredient(ingredientId, txn);
+  });
+}
+
+/** Null when the ingredient does not exist or does not have the alias */
+export async function removeIngredientAlias(
+  ingredientId: number,
+  alias: string,
+  db: Database,
+): Promise<CatalogueIngredient | null> {
+  const removed = await db
+    .delete(ingredient_alias_schema)
+    .where(
+      and(
+        eq(ingredient_alias_schema.ingredient_id, ingredientId),
+        eq(ingredient_alias_schema.alias, toCatalogueName(alias)),
+      ),
+    )
+    .returning({ id: ingredient_alias_schema.id });
+  if (!removed.length) return null;
+
+  return await getCatalogueIngredient(ingredientId, db);
+}
@@ -0,0 +1,61 @@
+export const IngredientCategories = {
+  produce: "produce",
+  dairy: "dairy",
+  meat: "meat",
+  seafood: "seafood",
+  grain: "grain",
+  baking: "baking",
+  spice: "spice",
+  condiment: "condiment",
+  oil: "oil",
+  nut: "nut",
+  legume: "legume",
+  beverage: "beverage",
+  other: "other",
+} as const;
+
+export type IngredientCategory =
+  (typeof IngredientCategories)[keyof typeof IngredientCategories];
+
+export const IngredientAliasKinds = {
+  synonym: "synonym",
+  plural: "plural",
+} as const;
+
+export type IngredientAliasKind =
+  (typeof IngredientAliasKinds)[keyof typeof IngredientAliasKinds];
+
+/** Entry of the ingredient catalogue, recipe ingredients link to it by id */
+export type CatalogueIngredient = {
+  id: number;
+  /** Canonical name, singular and lower case */
+  name: string;
+  category: IngredientCategory | null;
+  /** Other names of the ingredient, e.g. "green onion" for "scallion" */
+  synonyms: string[];
+  /** Plural forms which do not follow from the name, e.g. "leaves" */
+  plurals: string[];
+};
+
+/** Canonical names, synonyms and plurals of the catalogue, each to its id */
+export type IngredientLookup = Map<string, number>;
+
+export class IngredientNameTaken extends Error {
+  public readonly type = "ingredientNameTaken";
+  public readonly uri =
+    "https://tastebase.dev/http-errors/ingredient-name-taken";
+  public readonly ingredientId: number;
+  constructor(
+    name: string,
+    ingredientId: number,
+    params?: { message?: string; options?: ErrorOptions },
+  ) {
+    super(
+      params?.message ??
+        `'${name}' is already a name, synonym or plural of another catalogue ingredient`,
+      params?.options,
+    );
+    this.ingredientId = ingredientId;
+    this.name = "IngredientNameTaken";
+  }
+}
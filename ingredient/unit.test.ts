@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { getUnitKind, matchUnit } from "./unit";
+
+describe("matchUnit", () => {
+  test.each([
+    ["cups of flour", "cup", 4],
+    ["Tablespoons", "tbsp", 11],
+    ["tbsp. sugar", "tbsp", 5],
+    ["fl oz milk", "fl oz", 5],
+    ["g butter", "g", 1],
+    ["kilos", "kg", 5],
+    ["cloves garlic", "clove", 6],
+  ] as const)("matches %s", (text, unit, length) => {
+    expect(matchUnit(text)).toEqual({ unit, length });
+  });
+
+  test("matches single letters by their case", () => {
+    expect(matchUnit("T sugar")?.unit).toBe("tbsp");
+    expect(matchUnit("t salt")?.unit).toBe("tsp");
+  });
+
+  test("matches litres written in either case", () => {
+    expect(matchUnit("l water")).toEqual({ unit: "l", length: 1 });
+    expect(matchUnit("L milk")).toEqual({ unit: "l", length: 1 });
+    expect(matchUnit("Litres")).toEqual({ unit: "l", length: 6 });
+  });
+
+  test("only matches whole words", () => {
+    expect(matchUnit("lime")).toBeNull();
+    expect(matchUnit("garlic")).toBeNull();
+    expect(matchUnit("cupcakes")).toBeNull();
+  });
+});
+
+describe("getUnitKind", () => {
+  test("tells volumes, weights and counts apart", () => {
+    expect(getUnitKind("cup")).toBe("volume");
+    expect(getUnitKind("oz")).toBe("weight");
+    expect(getUnitKind("can")).toBe("count");
+  });
+});
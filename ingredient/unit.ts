@@ -0,0 +1,84 @@
+/**
+ * Canonical units of ingredient quantities. Every unit lists the spellings it
+ * is recognised by (as regex sources, matched case-insensitively) and what it
+ * measures, count units ("clove", "can") only make sense for their ingredient.
+ */
+export const UnitKinds = {
+  volume: "volume",
+  weight: "weight",
+  count: "count",
+} as const;
+
+export type UnitKind = (typeof UnitKinds)[keyof typeof UnitKinds];
+
+export const Units = {
+  ml: { kind: UnitKinds.volume, aliases: ["ml", "millilit(?:er|re)s?"] },
+  l: { kind: UnitKinds.volume, aliases: ["l", "L", "lit(?:er|re)s?"] },
+  tsp: {
+    kind: UnitKinds.volume,
+    aliases: ["tsps?", "teaspoons?", "t"],
+  },
+  tbsp: {
+    kind: UnitKinds.volume,
+    aliases: ["tbsps?", "tbl?s", "tablespoons?", "T"],
+  },
+  cup: { kind: UnitKinds.volume, aliases: ["cups?", "c"] },
+  "fl oz": {
+    kind: UnitKinds.volume,
+    aliases: ["fl\\.?\\s?oz", "fluid ounces?"],
+  },
+  pint: { kind: UnitKinds.volume, aliases: ["pints?", "pts?"] },
+  quart: { kind: UnitKinds.volume, aliases: ["quarts?", "qts?"] },
+  gallon: { kind: UnitKinds.volume, aliases: ["gallons?", "gal"] },
+  mg: { kind: UnitKinds.weight, aliases: ["mg", "milligrams?"] },
+  g: { kind: UnitKinds.weight, aliases: ["g", "gr", "grams?", "gms?"] },
+  kg: { kind: UnitKinds.weight, aliases: ["kg", "kilograms?", "kilos?"] },
+  oz: { kind: UnitKinds.weight, aliases: ["oz", "ounces?"] },
+  lb: { kind: UnitKinds.weight, aliases: ["lbs?", "pounds?"] },
+  pinch: { kind: UnitKinds.count, aliases: ["pinch(?:es)?"] },
+  dash: { kind: UnitKinds.count, aliases: ["dash(?:es)?"] },
+  clove: { kind: UnitKinds.count, aliases: ["cloves?"] },
+  can: { kind: UnitKinds.count, aliases: ["cans?", "tins?"] },
+  slice: { kind: UnitKinds.count, aliases: ["slices?"] },
+  stick: { kind: UnitKinds.count, aliases: ["sticks?"] },
+  bunch: { kind: UnitKinds.count, aliases: ["bunch(?:es)?"] },
+  handful: { kind: UnitKinds.count, aliases: ["handfuls?"] },
+  sprig: { kind: UnitKinds.count, aliases: ["sprigs?"] },
+  piece: { kind: UnitKinds.count, aliases: ["pieces?", "pcs?"] },
+} as const satisfies Record<string, { kind: UnitKind; aliases: string[] }>;
+
+export type Unit = keyof typeof Units;
+
+/**
+ * Single letter aliases are case sensitive in recipes ("T" is a tablespoon,
+ * "t" a teaspoon), every other alias is matched regardless of case.
+ */
+const UNIT_MATCHERS = (Object.keys(Units) as Unit[]).flatMap((unit) =>
+  Units[unit].aliases.map((alias) => ({
+    unit,
+    pattern: new RegExp(
+      String.raw`^(?:${alias})\.?(?![\p{L}])`,
+      alias.length === 1 ? "u" : "iu",
+    ),
+  })),
+);
+
+/**
+ * Matches a unit at the start of the text, returning the canonical unit and
+ * the length of the matched spelling.
+ */
+export function matchUnit(text: string): { unit: Unit; length: number } | null {
+  let best: { unit: Unit; length: number } | null = null;
+  for (const { unit, pattern } of UNIT_MATCHERS) {
+    const match = pattern.exec(text);
+    if (match && (!best || match[0].length > best.length)) {
+      best = { unit, length: match[0].length };
+    }
+  }
+
+  return best;
+}
+
+export function getUnitKind(unit: Unit): UnitKind {
+  return Units[unit].kind;
+}
@@ -0,0 +1,200 @@
+/**
+ * Postgres backed job queue for recipe ingestion. A job tracks one pipeline run
+ * for a recipe source, the events emitted by the pipeline are stored in
+ * job_events so clients can (re)attach to a job at any point and replay the
+ * history. Jobs are claimed with `FOR UPDATE SKIP LOCKED`, which allows more
+ * than one worker to poll the table without picking up the same job.
+ */
+
+import { and, asc, eq, gt, inArray, lt, or, sql } from "drizzle-orm";
+import type { Database, DbTransaction } from "../db";
+import { job_event_schema, job_schema } from "../db/schema";
+import { ensureDefined } from "../utils";
+import { JobStatuses, type Job, type JobEvent } from "./type";
+
+/**
+ * A running job whose lock is older than this is considered abandoned (the
+ * process running it crashed or restarted) and is picked up again.
+ */
+const JOB_LOCK_TIMEOUT = "5 minutes";
+
+const jobColumns = {
+  id: job_schema.id,
+  recipe_source_id: job_schema.recipe_source_id,
+  status: job_schema.status,
+  attempts: job_schema.attempts,
+  recipe_id: job_schema.recipe_id,
+  user_id: job_schema.user_id,
+  created_at: job_schema.created_at,
+  updated_at: job_schema.updated_at,
+};
+
+export async function createJob(params: {
+  recipeSourceId: number;
+  userId: number;
+  requestId?: string;
+  db: Database | DbTransaction;
+}): Promise<Job> {
+  const [job] = await params.db
+    .insert(job_schema)
+    .values({
+      recipe_source_id: params.recipeSourceId,
+      user_id: params.userId,
+      request_id: params.requestId,
+    })
+    .returning(jobColumns);
+  ensureDefined(job, "Failed to persist job");
+
+  return job;
+}
+
+export async function getJobById(
+  jobId: number,
+  db: Database,
+): Promise<Job | null> {
+  const [job] = await db
+    .select(jobColumns)
+    .from(job_schema)
+    .where(eq(job_schema.id, jobId));
+
+  if (!job) return null;
+  return job;
+}
+
+/** Returns the pending or running job for a recipe source, if any. */
+export async function getActiveJobForSource(
+  recipeSourceId: number,
+  db: Database,
+): Promise<Job | null> {
+  const [job] = await db
+    .select(jobColumns)
+    .from(job_schema)
+    .where(
+      and(
+        eq(job_schema.recipe_source_id, recipeSourceId),
+        inArray(job_schema.status, [JobStatuses.pending, JobStatuses.running]),
+      ),
+    );
+
+  if (!job) return null;
+  return job;
+}
+
+/** Returns the events of a job in the order they were emitted. */
+export async function getJobEvents(
+  jobId: number,
+  db: Database,
+  afterEventId: number = 0,
+): Promise<JobEvent[]> {
+  return await db
+    .select()
+    .from(job_event_schema)
+    .where(
+      and(
+        eq(job_event_schema.job_id, jobId),
+        gt(job_event_schema.id, afterEventId),
+      ),
+    )
+    .orderBy(asc(job_event_schema.id));
+}
+
+export async function appendJobEvent(params: {
+  jobId: number;
+  type: string;
+  data: unknown;
+  db: Database;
+}): Promise<void> {
+  await params.db.insert(job_event_schema).values({
+    job_id: params.jobId,
+    type: params.type,
+    data: params.data,
+  });
+}
+
+/**
+ * Atomically marks the oldest pending (or abandoned running) job as running
+ * and returns it. Returns null when there is nothing to work on.
+ */
+export async function claimNextJob(db: Database): Promise<Job | null> {
+  const claimable = db
+    .select({ id: job_schema.id })
+    .from(job_schema)
+    .where(
+      or(
+        eq(job_schema.status, JobStatuses.pending),
+        and(
+          eq(job_schema.status, JobStatuses.running),
+          lt(
+            job_schema.locked_at,
+            sql`now() - interval '${sql.raw(JOB_LOCK_TIMEOUT)}'`,
+          ),
+        ),
+      ),
+    )
+    .orderBy(asc(job_schema.id))
+    .limit(1)
+    .for("update", { skipLocked: true });
+
+  const [job] = await db
+    .update(job_schema)
+    .set({
+      status: JobStatuses.running,
+      attempts: sql`${job_schema.attempts} + 1`,
+      locked_at: sql`now()`,
+      updated_at: sql`now()`,
+    })
+    .where(inArray(job_schema.id, claimable))
+    .returning(jobColumns);
+
+  if (!job) return null;
+  return job;
+}
+
+/**
+ * Keeps the lock of a running job fresh, so a job running for longer than the
+ * lock timeout is not picked up again by another worker.
+ */
+export async function refreshJobLock(params: {
+  jobId: number;
+  db: Database;
+}): Promise<void> {
+  await params.db
+    .update(job_schema)
+    .set({ locked_at: sql`now()` })
+    .where(
+      and(
+        eq(job_schema.id, params.jobId),
+        eq(job_schema.status, JobStatuses.running),
+      ),
+    );
+}
+
+export async function completeJob(params: {
+  jobId: number;
+  recipeId: number;
+  db: Database;
+}): Promise<void> {
+  await params.db
+    .update(job_schema)
+    .set({
+      status: JobStatuses.completed,
+      recipe_id: params.recipeId,
+      locked_at: null,
+      updated_at: sql`now()`,
+    })
+    .where(eq(job_schema.id, params.jobId));
+}
+
+export async function failJob(params: {
+  jobId: number;
+  db: Database;
+}): Promise<void> {
+  await params.db
+    .update(job_schema)
+    .set({
+      status: JobStatuses.failed,
+      locked_at: null,
+      updated_at: sql`now()`,
+    })
+    .where(eq(job_schema.id, params.jobId));
+}
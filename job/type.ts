@@ -0,0 +1,53 @@
+export const JobStatuses = {
+  pending: "pending",
+  running: "running",
+  completed: "completed",
+  failed: "failed",
+} as const;
+
+export type JobStatus = (typeof JobStatuses)[keyof typeof JobStatuses];
+
+export type Job = {
+  id: number;
+  recipe_source_id: number;
+  status: JobStatus;
+  attempts: number;
+  recipe_id: number | null;
+  /** Submitter of the source, null for jobs from before users existed */
+  user_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+export type JobEvent = {
+  id: number;
+  job_id: number;
+  type: string;
+  data: unknown;
+  created_at: Date;
+};
+
+export function isJobFinished(status: JobStatus): boolean {
+  return status === JobStatuses.completed || status === JobStatuses.failed;
+}
+
+export class JobAbandoned extends Error {
+  public readonly type = "jobAbandoned";
+  public readonly uri = "https://tastebase.dev/http-errors/job-abandoned";
+  constructor(params?: { message?: string; options?: ErrorOptions }) {
+    super(
+      params?.message ?? "The job could not be completed and was abandoned",
+      params?.options,
+    );
+    this.name = "JobAbandoned";
+  }
+}
+
+export class JobFailed extends Error {
+  public readonly type = "jobFailed";
+  public readonly uri = "https://tastebase.dev/http-errors/job-failed";
+  constructor(params?: { message?: string; options?: ErrorOptions }) {
+    super(params?.message ?? "The job failed unexpectedly", params?.options);
+    this.name = "JobFailed";
+  }
+}
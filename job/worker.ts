@@ -0,0 +1,174 @@
+import type { Database } from "../db";
+import type { AppLogger } from "../logger";
+import { LlmRejectedError } from "../llm/type";
+import * as RecipeJobService from "../recipe/job";
+import * as RecipeService from "../recipe/service";
+import {
+  RecipePipelineErrors,
+  RecipePipelineEventTypes,
+  type RecipePipelineErrorEvent,
+  type RecipePipelineEventType,
+} from "../recipe/type";
+import { ProblemDetails } from "../utils";
+import * as JobService from "./service";
+import { JobAbandoned, JobFailed, type Job } from "./type";
+
+/**
+ * A job is given up on once it has been claimed this many times, which only
+ * happens when the process running it keeps dying midway.
+ */
+const MAX_JOB_ATTEMPTS = 3;
+const JOB_POLL_INTERVAL_MS = 1000;
+/** Well within the lock timeout of the job service */
+const JOB_HEARTBEAT_INTERVAL_MS = 60_000;
+
+/**
+ * Polls the jobs table and runs one job at a time until stopped. Every event
+ * emitted by the recipe pipeline is stored against the job before the next
+ * step runs, so the history survives process restarts.
+ */
+export function startJobWorker(db: Database, logger: AppLogger) {
+  const scopedLogger = logger.child({ scope: "job-worker" });
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  async function poll() {
+    try {
+      let job = await JobService.claimNextJob(db);
+      while (job && !stopped) {
+        await runJob(job, db, scopedLogger);
+        job = await JobService.claimNextJob(db);
+      }
+    } catch (error) {
+      scopedLogger.error({ error }, "Job worker failed to process jobs");
+    }
+
+    if (!stopped) {
+      timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+    }
+  }
+
+  scopedLogger.info("Job worker started");
+  void poll();
+
+  return {
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+      scopedLogger.info("Job worker stopped");
+    },
+  };
+}
+
+/**
+ * Runs a claimed job while refreshing its lock. Whatever the pipeline throws
+ * fails the job with a generic error event, rather than leaving it running
+ * until its lock expires.
+ */
+async function runJob(job: Job, db: Database, logger: AppLogger) {
+  const scopedLogger = logger.child({ jobId: job.id, attempt: job.attempts });
+  scopedLogger.info("Running job");
+
+  const heartbeat = setInterval(() => {
+    JobService.refreshJobLock({ jobId: job.id, db }).catch((error) => {
+      scopedLogger.warn({ error }, "Failed to refresh the job lock");
+    });
+  }, JOB_HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await processJob(job, db, scopedLogger);
+  } catch (error) {
+    scopedLogger.error({ error }, "Job failed");
+    const event = new JobFailed({
+      options: { cause: Error.isError(error) ? error : `${error}` },
+    });
+    await JobService.appendJobEvent({
+      jobId: job.id,
+      type: event.type,
+      data: toProblemDetails(event, job),
+      db,
+    });
+    await JobService.failJob({ jobId: job.id, db });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function processJob(job: Job, db: Database, scopedLogger: AppLogger) {
+  const recipeSource = await RecipeService.getRecipeSourceById(
+    job.recipe_source_id,
+    db,
+  );
+  if (!recipeSource || job.attempts > MAX_JOB_ATTEMPTS) {
+    scopedLogger.error(
+      { recipeSourceFound: !!recipeSource },
+      "Giving up on job",
+    );
+    const event = new JobAbandoned();
+    await JobService.appendJobEvent({
+      jobId: job.id,
+      type: event.type,
+      data: toProblemDetails(event, job),
+      db,
+    });
+    await JobService.failJob({ jobId: job.id, db });
+    return;
+  }
+
+  for await (const event of RecipeJobService.resumeRecipePipeline(
+    recipeSource,
+    job.user_id,
+    db,
+    scopedLogger,
+  )) {
+    await JobService.appendJobEvent({
+      jobId: job.id,
+      type: event.type,
+      data: serializeEvent(event, job),
+      db,
+    });
+
+    if (event.type in RecipePipelineErrors) {
+      await JobService.failJob({ jobId: job.id, db });
+      return;
+    }
+
+    if (event.type === RecipePipelineEventTypes.recipeSaved) {
+      await JobService.completeJob({ jobId: job.id, recipeId: event.data, db });
+      scopedLogger.info({ recipeId: event.data }, "Job completed");
+    }
+  }
+}
+
+function serializeEvent(event: RecipePipelineEventType, job: Job) {
+  switch (event.type) {
+    case "transcriptGenerationFailed":
+    case "recipeGenerationFailed":
+    case "recipeSavingFailed":
+      return toProblemDetails(event, job);
+    default:
+      return event;
+  }
+}
+
+/**
+ * Pipeline errors are stored the way they are served to the client, internal
+ * details (the cause) stay in the logs.
+ */
+function toProblemDetails(
+  event: RecipePipelineErrorEvent | JobAbandoned | JobFailed,
+  job: Job,
+) {
+  const rejected = event.cause instanceof LlmRejectedError;
+  return new ProblemDetails({
+    type: event.uri,
+    title: rejected
+      ? "Cannot infer a recipe from the provided source"
+      : "Recipe generation failed",
+    status: rejected ? 422 : 500,
+    detail: rejected
+      ? (event.cause as LlmRejectedError).message
+      : "An unexpected internal error occurred. This is on us—not you. Please share the jobId so we can investigate.",
+    extensions: { jobId: job.id },
+  });
+}
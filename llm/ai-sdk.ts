@@ -0,0 +1,52 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { embed, generateObject } from "ai";
+import type { LlmProvider } from "./type";
+
+export type AiSdkProviderOptions = {
+  name: string;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible API, defaults to the OpenAI API */
+  baseURL?: string;
+  model: string;
+  embeddingModel: string;
+};
+
+/**
+ * Provider for OpenAI and any API compatible with it (OpenRouter, Ollama,
+ * vLLM, LM Studio, ...). Compatible APIs rarely implement the Responses API,
+ * so the Chat Completions API is used for anything but OpenAI itself.
+ */
+export function createAiSdkProvider(
+  options: AiSdkProviderOptions,
+): LlmProvider {
+  const client = createOpenAI({
+    name: options.name,
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+  });
+  const model = options.baseURL
+    ? client.chat(options.model)
+    : client(options.model);
+  const embeddingModel = client.embedding(options.embeddingModel);
+
+  return {
+    name: options.name,
+    async generateObject({ schema, prompt, input }) {
+      const { object } = await generateObject({
+        model,
+        schema,
+        prompt: `${prompt}
+    <input>
+    """${input}"""
+    </input>
+    `,
+      });
+
+      return object;
+    },
+    async embed(value) {
+      const { embedding } = await embed({ model: embeddingModel, value });
+      return embedding;
+    },
+  };
+}
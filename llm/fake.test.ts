@@ -0,0 +1,93 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import * as z from "zod";
+import { createFakeLlmProvider, hashEmbedding } from "./fake";
+import { setLlmProvider } from "./provider";
+import { RecipeRawSchema } from "./schema";
+import { generateQueryEmbedding, parseRecipe } from "./service";
+import { EMBEDDING_DIMENSIONS, LlmRejectedError } from "./type";
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index]!, 0);
+}
+
+describe("hashEmbedding", () => {
+  test("embeds the same text into the same vector", () => {
+    const vector = hashEmbedding("Crispy garlic noodles");
+
+    expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(hashEmbedding("Crispy garlic noodles")).toEqual(vector);
+    expect(Math.hypot(...vector)).toBeCloseTo(1, 6);
+  });
+
+  test("ignores case and punctuation", () => {
+    expect(hashEmbedding("Garlic, NOODLES!")).toEqual(
+      hashEmbedding("garlic noodles"),
+    );
+  });
+
+  test("places texts sharing words closer together", () => {
+    const query = hashEmbedding("garlic noodles");
+
+    expect(dot(query, hashEmbedding("crispy garlic noodles"))).toBeGreaterThan(
+      dot(query, hashEmbedding("chocolate cake")),
+    );
+  });
+
+  test("embeds text without words into a zero vector", () => {
+    expect(hashEmbedding("!?").every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe("createFakeLlmProvider", () => {
+  beforeAll(() => setLlmProvider(createFakeLlmProvider()));
+
+  test("returns objects valid against the requested schema", async () => {
+    const raw = await createFakeLlmProvider().generateObject({
+      schema: RecipeRawSchema,
+      prompt: "",
+      input: "Tomato soup\nSimmer the tomatoes.",
+    });
+
+    expect(RecipeRawSchema.safeParse(raw).success).toBe(true);
+  });
+
+  test("produces recipes the service accepts", async () => {
+    const recipe = await parseRecipe("Tomato soup\nSimmer the tomatoes.");
+
+    expect(recipe).toMatchObject({ name: "tomato soup", language: "en" });
+    expect(recipe.steps[0]?.text).toBe("Tomato soup Simmer the tomatoes.");
+    expect(recipe.ingredients[1]).toMatchObject({
+      name: "olive oil",
+      min: 1,
+      unit: "tbsp",
+    });
+  });
+
+  test("rejects input without text like the model does", async () => {
+    await expect(parseRecipe("  ")).rejects.toBeInstanceOf(LlmRejectedError);
+  });
+
+  test("embeds queries with the configured dimensions", async () => {
+    expect(await generateQueryEmbedding("soup")).toHaveLength(
+      EMBEDDING_DIMENSIONS,
+    );
+  });
+
+  test("prefers overrides and fails for schemas it has no object for", async () => {
+    const unknownSchema = z.object({ answer: z.number() });
+    const provider = createFakeLlmProvider(
+      new Map([[RecipeRawSchema, () => ({ name: "nope" })]]),
+    );
+
+    await expect(
+      provider.generateObject({
+        schema: RecipeRawSchema,
+        prompt: "",
+        input: "soup",
+      }),
+    ).rejects.toBeInstanceOf(z.ZodError);
+    await expect(
+      provider.generateObject({ schema: unknownSchema, prompt: "", input: "" }),
+    ).rejects.toThrow("no canned object");
+  });
+});
@@ -0,0 +1,115 @@
+import type * as z from "zod";
+import {
+  RecipeRawSchema,
+  RecipeTranslationSchema,
+  type RawRecipeLlm,
+} from "./schema";
+import { EMBEDDING_DIMENSIONS, type LlmProvider } from "./type";
+
+type CannedObject = (input: string) => unknown;
+
+/**
+ * Canned recipe named after the first line of the input, so distinct inputs
+ * produce distinct recipes. Inputs without any text are rejected the way the
+ * model rejects non recipes.
+ */
+function cannedRecipe(input: string): RawRecipeLlm {
+  const [firstLine = ""] = input.trim().split("\n");
+  const name = firstLine
+    .replace(/^\[[\d:]+\]\s*/, "")
+    .slice(0, 60)
+    .trim();
+  if (!name) {
+    return {
+      name: null,
+      steps: [],
+      ingredients: [],
+      tags: [],
+      language: null,
+      servings: null,
+      yield: null,
+      prepMinutes: null,
+      cookMinutes: null,
+      cuisine: null,
+      course: null,
+      difficulty: null,
+      equipment: [],
+      error: { reason: "insufficient-context: empty input" },
+    };
+  }
+
+  return {
+    name,
+    steps: [
+      {
+        text: input.trim().replace(/\s+/g, " ").slice(0, 500),
+        durationMinutes: null,
+        temperature: null,
+        ingredients: ["salt", "olive oil"],
+      },
+    ],
+    ingredients: [
+      { name: "salt", quantity: "to taste" },
+      { name: "olive oil", quantity: "1 tbsp" },
+    ],
+    tags: ["fake"],
+    language: "en",
+    servings: 2,
+    yield: null,
+    prepMinutes: 5,
+    cookMinutes: 10,
+    cuisine: null,
+    course: "main",
+    difficulty: "easy",
+    equipment: [],
+    error: null,
+  };
+}
+
+const DEFAULT_OBJECTS = new Map<z.ZodType, CannedObject>([
+  [RecipeRawSchema, cannedRecipe],
+  /** Translating is the identity, the input is the recipe as JSON */
+  [RecipeTranslationSchema, (input) => JSON.parse(input)],
+]);
+
+/**
+ * Bag of words hashed into a fixed number of dimensions and normalized, texts
+ * sharing words end up close to each other so search still ranks sensibly.
+ */
+export function hashEmbedding(value: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const token of value.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const hash = new Bun.CryptoHasher("sha256").update(token).digest();
+    const index = hash.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+    vector[index]! += (hash[4]! & 1) === 0 ? 1 : -1;
+  }
+
+  const norm = Math.hypot(...vector);
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+/**
+ * Deterministic provider which never leaves the process, for running the
+ * server and its pipeline without network access or API keys. Objects are
+ * canned per schema, overrides take precedence over the defaults.
+ */
+export function createFakeLlmProvider(
+  overrides: Map<z.ZodType, CannedObject> = new Map(),
+): LlmProvider {
+  const objects = new Map([...DEFAULT_OBJECTS, ...overrides]);
+
+  return {
+    name: "fake",
+    async generateObject({ schema, input }) {
+      const canned = objects.get(schema);
+      if (!canned) {
+        throw new Error("The fake provider has no canned object for schema");
+      }
+
+      return schema.parse(canned(input));
+    },
+    async embed(value) {
+      return hashEmbedding(value);
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { createLlmProvider } from "./provider";
+
+function env(values: Record<string, string>): typeof Bun.env {
+  return { DATABASE_URL: "", LOG_PRETTY: "", ...values };
+}
+
+describe("createLlmProvider", () => {
+  test("creates the provider named by LLM_PROVIDER", () => {
+    expect(createLlmProvider(env({ LLM_PROVIDER: "fake" })).name).toBe("fake");
+    expect(
+      createLlmProvider(
+        env({ LLM_PROVIDER: "openrouter", OPENROUTER_API_KEY: "key" }),
+      ).name,
+    ).toBe("openrouter");
+  });
+
+  test("defaults to OpenAI, which needs an API key", () => {
+    expect(createLlmProvider(env({ OPENAI_API_KEY: "key" })).name).toBe(
+      "openai",
+    );
+    expect(() => createLlmProvider(env({}))).toThrow(
+      "OPENAI_API_KEY is required for the 'openai' LLM provider",
+    );
+  });
+
+  test("rejects providers missing their settings", () => {
+    expect(() =>
+      createLlmProvider(env({ LLM_PROVIDER: "openrouter" })),
+    ).toThrow("OPENROUTER_API_KEY");
+    expect(() =>
+      createLlmProvider(
+        env({
+          LLM_PROVIDER: "local",
+          LLM_BASE_URL: "http://localhost:11434/v1",
+        }),
+      ),
+    ).toThrow("LLM_MODEL");
+  });
+
+  test("rejects unknown providers", () => {
+    expect(() => createLlmProvider(env({ LLM_PROVIDER: "gemini" }))).toThrow(
+      "Unknown LLM provider 'gemini'",
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { createAiSdkProvider } from "./ai-sdk";
+import { createFakeLlmProvider } from "./fake";
+import type { LlmProvider } from "./type";
+
+export const LlmProviderNames = {
+  openai: "openai",
+  openrouter: "openrouter",
+  local: "local",
+  fake: "fake",
+} as const;
+
+const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+
+function requireEnv(env: typeof Bun.env, name: string, key: string): string {
+  const value = env[key];
+  if (!value) {
+    throw new Error(`${key} is required for the '${name}' LLM provider`);
+  }
+
+  return value;
+}
+
+/**
+ * Creates the provider selected by LLM_PROVIDER (defaults to OpenAI). Models
+ * can be overridden with LLM_MODEL and LLM_EMBEDDING_MODEL, the embedding
+ * model must produce vectors of EMBEDDING_DIMENSIONS.
+ */
+export function createLlmProvider(env: typeof Bun.env = Bun.env): LlmProvider {
+  const name = env.LLM_PROVIDER ?? LlmProviderNames.openai;
+
+  switch (name) {
+    case LlmProviderNames.openai:
+      return createAiSdkProvider({
+        name,
+        apiKey: requireEnv(env, name, "OPENAI_API_KEY"),
+        model: env.LLM_MODEL ?? "gpt-4o",
+        embeddingModel: env.LLM_EMBEDDING_MODEL ?? "text-embedding-3-small",
+      });
+    case LlmProviderNames.openrouter:
+      return createAiSdkProvider({
+        name,
+        apiKey: requireEnv(env, name, "OPENROUTER_API_KEY"),
+        baseURL: OPENROUTER_BASE_URL,
+        model: env.LLM_MODEL ?? "openai/gpt-4o",
+        embeddingModel:
+          env.LLM_EMBEDDING_MODEL ?? "openai/text-embedding-3-small",
+      });
+    case LlmProviderNames.local:
+      return createAiSdkProvider({
+        name,
+        apiKey: env.LLM_API_KEY ?? "local",
+        baseURL: requireEnv(env, name, "LLM_BASE_URL"),
+        model: requireEnv(env, name, "LLM_MODEL"),
+        embeddingModel: requireEnv(env, name, "LLM_EMBEDDING_MODEL"),
+      });
+    case LlmProviderNames.fake:
+      return createFakeLlmProvider();
+    default:
+      throw new Error(
+        `Unknown LLM provider '${name}', expected one of: ${Object.values(LlmProviderNames).join(", ")}`,
+      );
+  }
+}
+
+let provider: LlmProvider | undefined;
+
+/** Provider configured through the environment, created on first use */
+export function getLlmProvider(): LlmProvider {
+  provider ??= createLlmProvider();
+  return provider;
+}
+
+/** Replaces the configured provider, e.g. with a fake one in scripts */
+export function setLlmProvider(value: LlmProvider): void {
+  provider = value;
+}
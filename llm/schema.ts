@@ -1,9 +1,42 @@
 import * as z from "zod";
+import { parseQuantity, type IngredientQuantity } from "../ingredient/quantity";
+import { renderStepsMarkdown } from "../recipe/steps";
+import {
+  RecipeCourses,
+  RecipeDifficulties,
+  TemperatureUnits,
+} from "../recipe/type";
+
+const RecipeStepRawSchema = z.object({
+  text: z.string(),
+  durationMinutes: z.number().nullable(),
+  temperature: z
+    .object({
+      value: z.number(),
+      unit: z.enum([TemperatureUnits.celsius, TemperatureUnits.fahrenheit]),
+    })
+    .nullable(),
+  ingredients: z.array(z.string()),
+});
+
+const RecipeCourseSchema = z.enum(Object.values(RecipeCourses));
+const RecipeDifficultySchema = z.enum(Object.values(RecipeDifficulties));
+
+/** Counts and durations which are not positive are treated as unknown */
+const positiveNumber = z
+  .number()
+  .nullable()
+  .transform((value) => (value && value > 0 ? value : null));
+
+const lowerCaseText = z
+  .string()
+  .transform((value) => value.trim().toLowerCase() || null)
+  .nullable();
 
 export const RecipeRawSchema = z
   .object({
     name: z.string().nullable(),
-    instructions: z.string().nullable(),
+    steps: z.array(RecipeStepRawSchema),
     ingredients: z.array(
       z.object({
         name: z.string(),
@@ -11,6 +44,15 @@ export const RecipeRawSchema = z
       }),
     ),
     tags: z.array(z.string()),
+    language: z.string().nullable(),
+    servings: z.number().nullable(),
+    yield: z.string().nullable(),
+    prepMinutes: z.number().nullable(),
+    cookMinutes: z.number().nullable(),
+    cuisine: z.string().nullable(),
+    course: RecipeCourseSchema.nullable(),
+    difficulty: RecipeDifficultySchema.nullable(),
+    equipment: z.array(z.string()),
     error: z
       .object({
         reason: z.string(),
@@ -23,19 +65,68 @@ export const RecipeRawSchema = z
 export const RecipeParsedSchema = z
   .object({
     name: z.string().transform((value) => value.trim().toLowerCase()),
-    instructions: z.string(),
+    steps: z
+      .array(
+        RecipeStepRawSchema.extend({
+          text: z.string().trim().min(1),
+          durationMinutes: z
+            .number()
+            .nullable()
+            .transform((value) => (value && value > 0 ? value : null)),
+          ingredients: z.array(
+            z.string().transform((value) => value.trim().toLowerCase()),
+          ),
+        }),
+      )
+      .min(1),
     ingredients: z.array(
-      z.object({
-        name: z.string().transform((value) => value.trim().toLowerCase()),
-        quantity: z.string().nullable(),
-      }),
+      z
+        .object({
+          name: z.string().transform((value) => value.trim().toLowerCase()),
+          quantity: z.string().nullable(),
+        })
+        /** The quantity text is parsed into amounts which can be computed with */
+        .transform(({ name, quantity }) => ({
+          name,
+          ...parseQuantity(quantity),
+        })),
     ),
     tags: z.array(z.string().transform((value) => value.trim().toLowerCase())),
+    /** ISO 639-1 code of the language the recipe is written in */
+    language: z
+      .string()
+      .transform((value) => value.trim().toLowerCase())
+      .nullable()
+      .default(null),
+    /**
+     * Metadata defaults to unknown, recipes mapped without the LLM (JSON-LD)
+     * or translated by it do not necessarily carry all of it.
+     */
+    servings: positiveNumber
+      .transform((value) => (value ? Math.round(value) : null))
+      .default(null),
+    yield: z
+      .string()
+      .transform((value) => value.trim() || null)
+      .nullable()
+      .default(null),
+    prepMinutes: positiveNumber
+      .transform((value) => (value ? Math.round(value) : null))
+      .default(null),
+    cookMinutes: positiveNumber
+      .transform((value) => (value ? Math.round(value) : null))
+      .default(null),
+    cuisine: lowerCaseText.default(null),
+    course: RecipeCourseSchema.nullable().default(null),
+    difficulty: RecipeDifficultySchema.nullable().default(null),
+    equipment: z
+      .array(z.string().transform((value) => value.trim().toLowerCase()))
+      .default([]),
   })
   .strict()
   .transform((data) => {
     const seenIngredientNames = new Set<string>();
-    const ingredients: { name: string; quantity: string | null }[] = [];
+    const ingredients: ({ name: string } & IngredientQuantity)[] = [];
 
     for (const ingredient of data.ingredients) {
       if (seenIngredientNames.has(ingredient.name)) continue;
@@ -44,10 +135,42 @@ export const RecipeParsedSchema = z
       ingredients.push(ingredient);
     }
 
-    data.ingredients = ingredients;
-    data.tags = Array.from(new Set(data.tags));
-    return data;
+    /** Steps may only reference ingredients of the recipe */
+    const steps = data.steps.map((step) => ({
+      ...step,
+      ingredients: Array.from(new Set(step.ingredients)).filter((name) =>
+        seenIngredientNames.has(name),
+      ),
+    }));
+
+    return {
+      ...data,
+      steps,
+      instructions: renderStepsMarkdown(steps),
+      ingredients,
+      tags: Array.from(new Set(data.tags)),
+      equipment: Array.from(new Set(data.equipment)).filter(Boolean),
+    };
   });
 
+/** Recipe fields translated by the LLM, see translateRecipe */
+export const RecipeTranslationSchema = z
+  .object({
+    name: z.string(),
+    steps: z.array(RecipeStepRawSchema),
+    ingredients: z.array(
+      z.object({
+        name: z.string(),
+        quantity: z.string().nullable(),
+      }),
+    ),
+    tags: z.array(z.string()),
+    yield: z.string().nullable(),
+    cuisine: z.string().nullable(),
+    equipment: z.array(z.string()),
+  })
+  .strict();
+
 export type ParsedRecipeLlm = z.infer<typeof RecipeParsedSchema>;
 export type RawRecipeLlm = z.infer<typeof RecipeRawSchema>;
+export type RecipeTranslation = z.infer<typeof RecipeTranslationSchema>;
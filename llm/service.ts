@@ -1,13 +1,18 @@
-import { embed, generateObject, type EmbedResult } from "ai";
-import { RECIPE_ANALYSER_PROMPT_CURSOR_V1 } from "./prompt";
-import { openai } from "@ai-sdk/openai";
+import {
+  RECIPE_ANALYSER_PROMPT_CURSOR_V1,
+  RECIPE_TRANSLATOR_PROMPT_V1,
+} from "./prompt";
+import { getLlmProvider } from "./provider";
 import {
   RecipeParsedSchema,
   RecipeRawSchema,
+  RecipeTranslationSchema,
   type ParsedRecipeLlm,
   type RawRecipeLlm,
+  type RecipeTranslation,
 } from "./schema";
 import {
+  EMBEDDING_DIMENSIONS,
   LlmEmbeddingError,
   LlmInvocationError,
   LlmParseError,
@@ -19,15 +24,11 @@ export async function parseRecipe(
 ): Promise<ParsedRecipeLlm> {
   let result: RawRecipeLlm;
   try {
-    ({ object: result } = await generateObject({
-      model: openai("gpt-4o"),
+    result = await getLlmProvider().generateObject({
       schema: RecipeRawSchema,
-      prompt: `${RECIPE_ANALYSER_PROMPT_CURSOR_V1}
-    <input>
-    """${instructions}"""
-    </input>
-    `,
-    }));
+      prompt: RECIPE_ANALYSER_PROMPT_CURSOR_V1,
+      input: instructions,
+    });
   } catch (error) {
     const options = error instanceof Error ? { cause: error } : undefined;
     throw new LlmInvocationError(
@@ -54,9 +55,89 @@ export async function parseRecipe(
   return parsed.data;
 }
 
-export async function generateRecipeEmbedding(
+/**
+ * Translates a recipe parsed from a non-English source into English, which is
+ * the language recipes are searched and embedded in.
+ */
+export async function translateRecipe(
   recipe: ParsedRecipeLlm,
-): Promise<EmbedResult<string>["embedding"]> {
+): Promise<ParsedRecipeLlm> {
+  let result: RecipeTranslation;
+  try {
+    result = await getLlmProvider().generateObject({
+      schema: RecipeTranslationSchema,
+      prompt: RECIPE_TRANSLATOR_PROMPT_V1,
+      input: JSON.stringify({
+        name: recipe.name,
+        steps: recipe.steps,
+        ingredients: recipe.ingredients.map(({ name, quantity }) => ({
+          name,
+          quantity,
+        })),
+        tags: recipe.tags,
+        yield: recipe.yield,
+        cuisine: recipe.cuisine,
+        equipment: recipe.equipment,
+      }),
+    });
+  } catch (error) {
+    const options = error instanceof Error ? { cause: error } : undefined;
+    throw new LlmInvocationError(
+      "Unexpected error occurred while invoking the LLM.",
+      options,
+    );
+  }
+
+  /** Numbers and enums are language independent and carried over as is */
+  const parsed = RecipeParsedSchema.safeParse({
+    ...result,
+    servings: recipe.servings,
+    prepMinutes: recipe.prepMinutes,
+    cookMinutes: recipe.cookMinutes,
+    course: recipe.course,
+    difficulty: recipe.difficulty,
+    language: "en",
+  });
+  if (!parsed.success) {
+    throw new LlmParseError(
+      `Schema validation failed: ${parsed.error.issues
+        .map((issue) => issue.message)
+        .join("; ")}`,
+      { cause: parsed.error },
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Embeddings are stored in a fixed size column, a model producing any other
+ * size is a configuration error which is better reported here than by the db.
+ */
+async function embed(value: string, errorMessage: string): Promise<number[]> {
+  let embedding: number[];
+  try {
+    embedding = await getLlmProvider().embed(value);
+  } catch (error) {
+    const options = error instanceof Error ? { cause: error } : undefined;
+    throw new LlmEmbeddingError(errorMessage, options);
+  }
+
+  if (embedding.length !== EMBEDDING_DIMENSIONS) {
+    throw new LlmEmbeddingError(
+      `${errorMessage} Expected ${EMBEDDING_DIMENSIONS} dimensions, the model produced ${embedding.length}.`,
+    );
+  }
+
+  return embedding;
+}
+
+export async function generateRecipeEmbedding(
+  recipe: Pick<
+    ParsedRecipeLlm,
+    "name" | "instructions" | "ingredients" | "tags"
+  >,
+): Promise<number[]> {
   const ingredientsText = recipe.ingredients
     .map((ingredient) =>
       ingredient.quantity
@@ -72,34 +153,9 @@ export async function generateRecipeEmbedding(
     `Tags: ${recipe.tags.join(", ")}`,
   ].join("\n");
 
-  try {
-    const { embedding } = await embed({
-      model: openai.embedding("text-embedding-3-small"),
-      value: text,
-    });
-
-    return embedding;
-  } catch (error) {
-    const options = error instanceof Error ? { cause: error } : undefined;
-    throw new LlmEmbeddingError(
-      "Failed to generate recipe embedding.",
-      options,
-    );
-  }
+  return await embed(text, "Failed to generate recipe embedding.");
 }
 
-export async function generateQueryEmbedding(
-  query: string,
-): Promise<EmbedResult<string>["embedding"]> {
-  try {
-    const { embedding } = await embed({
-      model: openai.embedding("text-embedding-3-small"),
-      value: query,
-    });
-
-    return embedding;
-  } catch (error) {
-    const options = error instanceof Error ? { cause: error } : undefined;
-    throw new LlmEmbeddingError("Failed to generate query embedding.", options);
-  }
+export async function generateQueryEmbedding(query: string): Promise<number[]> {
+  return await embed(query, "Failed to generate query embedding.");
 }
@@ -1,3 +1,5 @@
+import type * as z from "zod";
+
 export class LlmRejectedError extends Error {
   constructor(
     message = "LLM rejected the instructions as not a valid recipe.",
@@ -37,3 +39,24 @@ export class LlmEmbeddingError extends Error {
     this.name = "LlmEmbeddingError";
   }
 }
+
+/** Dimensions of the embeddings column, every provider must produce these */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export type LlmObjectRequest<T> = {
+  schema: z.ZodType<T>;
+  /** Task description, the input is appended to it */
+  prompt: string;
+  input: string;
+};
+
+/**
+ * The model backend used by llm/service.ts. Providers only talk to the model,
+ * validating and post-processing the responses is left to the service so it
+ * behaves the same whichever provider is configured.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  generateObject<T>(request: LlmObjectRequest<T>): Promise<T>;
+  embed(value: string): Promise<number[]>;
+}
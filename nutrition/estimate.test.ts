@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { ML_PER_UNIT } from "../ingredient/convert";
+import type { Ingredient } from "../recipe/type";
+import { estimateNutrition, scaleNutrition } from "./estimate";
+import { parseNutrientTable } from "./table";
+
+const table =
+  parseNutrientTable(`name,calories,protein,fat,carbs,fiber,piece_grams,grams_per_ml
+flour,364,10,1,76,2.7,,
+egg,143,12.6,9.5,0.7,0,50,
+milk,42,3.4,1,5,0,,
+tahini,595,17,54,21,9,,0.96
+salt,0,0,0,0,0,,
+`);
+
+function ingredient(
+  name: string,
+  amount: Pick<Ingredient, "min" | "max" | "unit">,
+): Ingredient {
+  return {
+    name,
+    quantity: null,
+    qualifier: null,
+    preparation: null,
+    ...amount,
+  };
+}
+
+const flour = ingredient("flour", { min: 200, max: 200, unit: "g" });
+const eggs = ingredient("eggs", { min: 2, max: 2, unit: null });
+
+describe("estimateNutrition", () => {
+  test("divides the totals by the servings", () => {
+    const nutrition = estimateNutrition([flour, eggs], 4, table);
+
+    expect(nutrition.total.calories).toBe(871);
+    expect(nutrition.perServing?.calories).toBe(218);
+    expect(nutrition.coverage).toBe(100);
+    expect(nutrition.tableVersion).toBe(table.version);
+    expect(estimateNutrition([flour], null, table).perServing).toBeNull();
+  });
+
+  test("reports ingredients it cannot weigh as unmatched", () => {
+    const nutrition = estimateNutrition(
+      [
+        flour,
+        ingredient("saffron", { min: 1, max: 1, unit: "pinch" }),
+        ingredient("salt", { min: null, max: null, unit: null }),
+        ingredient("egg", { min: 1, max: 1, unit: "cup" }),
+      ],
+      null,
+      table,
+    );
+
+    expect(nutrition.unmatched).toEqual(["saffron", "salt", "egg"]);
+    expect(nutrition.coverage).toBe(25);
+    expect(nutrition.total.calories).toBe(728);
+  });
+
+  test("weighs volumes by the density of the ingredient", () => {
+    const milk = estimateNutrition(
+      [ingredient("whole milk", { min: 1, max: 1, unit: "cup" })],
+      null,
+      table,
+    );
+    expect(milk.total.calories).toBe(
+      Math.round((42 * ML_PER_UNIT.cup! * 1.03) / 100),
+    );
+
+    // not in ingredient/density.ts, the table has its density
+    const tahini = estimateNutrition(
+      [ingredient("tahini", { min: 2, max: 2, unit: "tbsp" })],
+      null,
+      table,
+    );
+    expect(tahini.total.calories).toBe(
+      Math.round((595 * 2 * ML_PER_UNIT.tbsp! * 0.96) / 100),
+    );
+  });
+});
+
+describe("scaleNutrition", () => {
+  test("scales the totals but not a serving", () => {
+    const nutrition = estimateNutrition([flour, eggs], 4, table);
+    const scaled = scaleNutrition(nutrition, 2);
+
+    expect(scaled.total.calories).toBe(1742);
+    expect(scaled.perServing).toEqual(nutrition.perServing);
+  });
+});
@@ -0,0 +1,133 @@
+import { G_PER_UNIT, ML_PER_UNIT } from "../ingredient/convert";
+import { getDensity } from "../ingredient/density";
+import { matchIngredientName } from "../ingredient/name";
+import type { Unit } from "../ingredient/unit";
+import type { Ingredient } from "../recipe/type";
+import {
+  getNutrientTable,
+  type NutrientEntry,
+  type NutrientTable,
+} from "./table";
+import type { Nutrients, RecipeNutrition } from "./type";
+
+/** Typical weights of the count units which do not depend on the ingredient */
+const COUNT_UNIT_GRAMS: Partial<Record<Unit, number>> = {
+  pinch: 0.36,
+  dash: 0.6,
+  can: 400,
+  stick: 113,
+  handful: 30,
+  sprig: 1,
+  bunch: 100,
+};
+
+/** Units which count pieces of the ingredient, e.g. "3 cloves" of garlic */
+const PIECE_UNITS: (Unit | null)[] = [null, "piece", "clove", "slice"];
+
+const NUTRIENTS: (keyof Nutrients)[] = [
+  "calories",
+  "protein",
+  "fat",
+  "carbs",
+  "fiber",
+];
+
+function emptyNutrients(): Nutrients {
+  return { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0 };
+}
+
+function roundNutrients(nutrients: Nutrients): Nutrients {
+  return {
+    calories: Math.round(nutrients.calories),
+    protein: Math.round(nutrients.protein * 10) / 10,
+    fat: Math.round(nutrients.fat * 10) / 10,
+    carbs: Math.round(nutrients.carbs * 10) / 10,
+    fiber: Math.round(nutrients.fiber * 10) / 10,
+  };
+}
+
+/**
+ * Weight of an ingredient in grams, null when the amount is not stated or the
+ * unit cannot be weighed without guessing. Ranges use their midpoint.
+ */
+function getGrams(ingredient: Ingredient, entry: NutrientEntry): number | null {
+  if (ingredient.min === null || ingredient.max === null) return null;
+  const amount = (ingredient.min + ingredient.max) / 2;
+  const unit = ingredient.unit;
+
+  if (unit && G_PER_UNIT[unit]) return amount * G_PER_UNIT[unit];
+  if (unit && ML_PER_UNIT[unit]) {
+    const gramsPerMl =
+      getDensity(ingredient.name)?.gramsPerMl ?? entry.gramsPerMl;
+    return gramsPerMl ? amount * ML_PER_UNIT[unit] * gramsPerMl : null;
+  }
+  if (PIECE_UNITS.includes(unit)) {
+    return entry.pieceGrams ? amount * entry.pieceGrams : null;
+  }
+
+  const grams = unit ? COUNT_UNIT_GRAMS[unit] : undefined;
+  return grams ? amount * grams : null;
+}
+
+/**
+ * Estimates the nutrients of a recipe from the bundled nutrient table without
+ * any network call. Ingredients missing from the table or without an amount
+ * which can be weighed are left out and reported, `coverage` tells how much of
+ * the recipe the estimate accounts for.
+ */
+export function estimateNutrition(
+  ingredients: Ingredient[],
+  servings: number | null,
+  table: NutrientTable = getNutrientTable(),
+): RecipeNutrition {
+  const names = Array.from(table.entries.keys());
+  const total = emptyNutrients();
+  const unmatched: string[] = [];
+
+  for (const ingredient of ingredients) {
+    const match = matchIngredientName(ingredient.name, names);
+    const entry = match ? table.entries.get(match) : undefined;
+    const grams = entry ? getGrams(ingredient, entry) : null;
+    if (!entry || grams === null) {
+      unmatched.push(ingredient.name);
+      continue;
+    }
+
+    for (const nutrient of NUTRIENTS) {
+      total[nutrient] += (entry.per100g[nutrient] * grams) / 100;
+    }
+  }
+
+  const perServing = servings
+    ? (Object.fromEntries(
+        NUTRIENTS.map((nutrient) => [nutrient, total[nutrient] / servings]),
+      ) as Nutrients)
+    : null;
+
+  return {
+    total: roundNutrients(total),
+    perServing: perServing && roundNutrients(perServing),
+    coverage: ingredients.length
+      ? Math.round(
+          ((ingredients.length - unmatched.length) / ingredients.length) * 100,
+        )
+      : 0,
+    unmatched,
+    tableVersion: table.version,
+  };
+}
+
+/**
+ * Nutrition of a recipe whose amounts are multiplied by a factor, the totals
+ * change with the amounts while a serving stays the same.
+ */
+export function scaleNutrition(
+  nutrition: RecipeNutrition,
+  factor: number,
+): RecipeNutrition {
+  const total = Object.fromEntries(
+    NUTRIENTS.map((nutrient) => [nutrient, nutrition.total[nutrient] * factor]),
+  ) as Nutrients;
+
+  return { ...nutrition, total: roundNutrients(total) };
+}
@@ -0,0 +1,68 @@
+/**
+ * Bundled nutrient table (nutrients.csv), values per 100 g derived from USDA
+ * FoodData Central. `piece_grams` is the weight of one piece of ingredients
+ * counted in pieces (an egg, a clove of garlic), `grams_per_ml` the density of
+ * ingredients not covered by ingredient/density.ts.
+ */
+
+import { readFileSync } from "node:fs";
+import type { Nutrients } from "./type";
+
+export type NutrientEntry = {
+  name: string;
+  per100g: Nutrients;
+  pieceGrams: number | null;
+  gramsPerMl: number | null;
+};
+
+export type NutrientTable = {
+  entries: Map<string, NutrientEntry>;
+  /** Hash of the table contents, estimates computed with another version are stale */
+  version: string;
+};
+
+const TABLE_URL = new URL("./nutrients.csv", import.meta.url);
+
+function parseOptionalNumber(value: string | undefined): number | null {
+  return value?.trim() ? Number(value) : null;
+}
+
+export function parseNutrientTable(csv: string): NutrientTable {
+  const [, ...rows] = csv.trim().split(/\r?\n/);
+  const entries = new Map<string, NutrientEntry>();
+
+  for (const row of rows) {
+    const [name, calories, protein, fat, carbs, fiber, pieceGrams, gramsPerMl] =
+      row.split(",");
+    if (!name?.trim()) continue;
+
+    entries.set(name.trim().toLowerCase(), {
+      name: name.trim().toLowerCase(),
+      per100g: {
+        calories: Number(calories),
+        protein: Number(protein),
+        fat: Number(fat),
+        carbs: Number(carbs),
+        fiber: Number(fiber),
+      },
+      pieceGrams: parseOptionalNumber(pieceGrams),
+      gramsPerMl: parseOptionalNumber(gramsPerMl),
+    });
+  }
+
+  return {
+    entries,
+    version: new Bun.CryptoHasher("sha256")
+      .update(csv)
+      .digest("hex")
+      .slice(0, 12),
+  };
+}
+
+let table: NutrientTable | undefined;
+
+/** The bundled table, read once on first use */
+export function getNutrientTable(): NutrientTable {
+  table ??= parseNutrientTable(readFileSync(TABLE_URL, "utf8"));
+  return table;
+}
@@ -0,0 +1,20 @@
+/** Calories in kcal, macros in grams */
+export type Nutrients = {
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+  fiber: number;
+};
+
+export type RecipeNutrition = {
+  total: Nutrients;
+  /** Null when the recipe does not state its servings */
+  perServing: Nutrients | null;
+  /** Percentage of the ingredients whose nutrients are included in the totals */
+  coverage: number;
+  /** Ingredients which are not in the nutrient table or have no usable amount */
+  unmatched: string[];
+  /** Version of the nutrient table the estimate was computed with */
+  tableVersion: string;
+};
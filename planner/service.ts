@@ -0,0 +1,351 @@
+/**
+ * Weekly meal plans: recipes planned on the days of a week, each for a number
+ * of servings, and the shopping list of the week built from the ingredients of
+ * the planned recipes (see ./shopping.ts). Every operation is scoped to the
+ * owning user. Ticked off items are stored by item key, so they stay ticked
+ * off when meals are added to the plan or the list is read in other units.
+ */
+
+import { and, asc, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import type { Database, DbTransaction } from "../db";
+import {
+  ingredient_schema,
+  meal_plan_checked_item_schema,
+  meal_plan_entry_schema,
+  meal_plan_schema,
+  recipe_schema,
+} from "../db/schema";
+import type { UnitSystem } from "../ingredient/convert";
+import { ensureDefined } from "../utils";
+import {
+  buildShoppingList,
+  getShoppingItemKey,
+  type PlannedMeal,
+  type ShoppingCatalogue,
+} from "./shopping";
+import {
+  MEAL_PLAN_DAYS,
+  MealPlanDateOutOfRange,
+  type MealPlan,
+  type MealPlanEntry,
+  type MealPlanWithEntries,
+  type ShoppingList,
+} from "./type";
+
+const mealPlanColumns = {
+  id: meal_plan_schema.id,
+  name: meal_plan_schema.name,
+  start_date: meal_plan_schema.start_date,
+  end_date: sql<string>`(${meal_plan_schema.start_date} + ${sql.raw(String(MEAL_PLAN_DAYS - 1))})::text`,
+  created_at: meal_plan_schema.created_at,
+  updated_at: meal_plan_schema.updated_at,
+};
+
+function isOwnMealPlan(mealPlanId: number, userId: number) {
+  return and(
+    eq(meal_plan_schema.id, mealPlanId),
+    eq(meal_plan_schema.user_id, userId),
+  );
+}
+
+/** Most recent week first */
+export async function listMealPlans(
+  userId: number,
+  db: Database,
+): Promise<MealPlan[]> {
+  return await db
+    .select(mealPlanColumns)
+    .from(meal_plan_schema)
+    .where(eq(meal_plan_schema.user_id, userId))
+    .orderBy(desc(meal_plan_schema.start_date), desc(meal_plan_schema.id));
+}
+
+export async function getMealPlanById(
+  mealPlanId: number,
+  userId: number,
+  db: Database | DbTransaction,
+): Promise<MealPlan | null> {
+  const [mealPlan] = await db
+    .select(mealPlanColumns)
+    .from(meal_plan_schema)
+    .where(isOwnMealPlan(mealPlanId, userId));
+
+  return mealPlan ?? null;
+}
+
+/** Deleted recipes are left out of the plan */
+async function getMealPlanEntries(
+  mealPlanId: number,
+  db: Database | DbTransaction,
+): Promise<MealPlanEntry[]> {
+  return await db
+    .select({
+      id: meal_plan_entry_schema.id,
+      date: meal_plan_entry_schema.date,
+      servings: meal_plan_entry_schema.servings,
+      recipe: {
+        id: recipe_schema.id,
+        name: recipe_schema.name,
+        servings: recipe_schema.servings,
+      },
+    })
+    .from(meal_plan_entry_schema)
+    .innerJoin(
+      recipe_schema,
+      eq(recipe_schema.id, meal_plan_entry_schema.recipe_id),
+    )
+    .where(
+      and(
+        eq(meal_plan_entry_schema.meal_plan_id, mealPlanId),
+        isNull(recipe_schema.deleted_at),
+      ),
+    )
+    .orderBy(asc(meal_plan_entry_schema.date), asc(meal_plan_entry_schema.id));
+}
+
+export async function getMealPlan(
+  mealPlanId: number,
+  userId: number,
+  db: Database | DbTransaction,
+): Promise<MealPlanWithEntries | null> {
+  const mealPlan = await getMealPlanById(mealPlanId, userId, db);
+  if (!mealPlan) return null;
+
+  return {
+    ...mealPlan,
+    entries: await getMealPlanEntries(mealPlanId, db),
+  };
+}
+
+export async function createMealPlan(
+  userId: number,
+  params: { name: string; startDate: string },
+  db: Database,
+): Promise<MealPlanWithEntries> {
+  return await db.transaction(async (txn) => {
+    const [created] = await txn
+      .insert(meal_plan_schema)
+      .values({
+        user_id: userId,
+        name: params.name,
+        start_date: params.startDate,
+      })
+      .returning({ id: meal_plan_schema.id });
+    ensureDefined(created, "Failed to persist meal plan");
+
+    const mealPlan = await getMealPlan(created.id, userId, txn);
+    ensureDefined(mealPlan, "Failed to read the meal plan");
+    return mealPlan;
+  });
+}
+
+/** Deletes a meal plan along with its entries, false when the user has none */
+export async function deleteMealPlan(
+  mealPlanId: number,
+  userId: number,
+  db: Database,
+): Promise<boolean> {
+  const deleted = await db
+    .delete(meal_plan_schema)
+    .where(isOwnMealPlan(mealPlanId, userId))
+    .returning({ id: meal_plan_schema.id });
+
+  return deleted.length > 0;
+}
+
+/**
+ * Plans a recipe on a day of the week, the same recipe can be planned more
+ * than once. Null when the user has no such meal plan or the recipe does not
+ * exist.
+ */
+export async function addMealPlanEntry(
+  mealPlanId: number,
+  userId: number,
+  params: { recipeId: number; date: string; servings: number | null },
+  db: Database,
+): Promise<MealPlanWithEntries | null | MealPlanDateOutOfRange> {
+  return await db.transaction(async (txn) => {
+    const mealPlan = await getMealPlanById(mealPlanId, userId, txn);
+    if (!mealPlan) return null;
+    /** YYYY-MM-DD dates compare as strings */
+    if (params.date < mealPlan.start_date || params.date > mealPlan.end_date) {
+      return new MealPlanDateOutOfRange(mealPlanId);
+    }
+
+    const [recipe] = await txn
+      .select({ id: recipe_schema.id })
+      .from(recipe_schema)
+      .where(
+        and(
+          eq(recipe_schema.id, params.recipeId),
+          isNull(recipe_schema.deleted_at),
+        ),
+      );
+    if (!recipe) return null;
+
+    await txn.insert(meal_plan_entry_schema).values({
+      meal_plan_id: mealPlanId,
+      recipe_id: params.recipeId,
+      date: params.date,
+      servings: params.servings,
+    });
+    await txn
+      .update(meal_plan_schema)
+      .set({ updated_at: sql`now()` })
+      .where(eq(meal_plan_schema.id, mealPlanId));
+
+    return await getMealPlan(mealPlanId, userId, txn);
+  });
+}
+
+/** False when the user has no such meal plan or the entry is not in it */
+export async function removeMealPlanEntry(
+  mealPlanId: number,
+  userId: number,
+  entryId: number,
+  db: Database,
+): Promise<boolean> {
+  const mealPlan = await getMealPlanById(mealPlanId, userId, db);
+  if (!mealPlan) return false;
+
+  const removed = await db
+    .delete(meal_plan_entry_schema)
+    .where(
+      and(
+        eq(meal_plan_entry_schema.id, entryId),
+        eq(meal_plan_entry_schema.meal_plan_id, mealPlanId),
+      ),
+    )
+    .returning({ id: meal_plan_entry_schema.id });
+  if (!removed.length) return false;
+
+  await db
+    .update(meal_plan_schema)
+    .set({ updated_at: sql`now()` })
+    .where(eq(meal_plan_schema.id, mealPlanId));
+  return true;
+}
+
+/** Planned recipes along with their ingredients, deleted recipes left out */
+async function getPlannedMeals(
+  mealPlanId: number,
+  db: Database,
+): Promise<PlannedMeal[]> {
+  return await db
+    .select({
+      servings: meal_plan_entry_schema.servings,
+      recipe: {
+        id: recipe_schema.id,
+        name: recipe_schema.name,
+        servings: recipe_schema.servings,
+        ingredients: recipe_schema.ingredients,
+      },
+    })
+    .from(meal_plan_entry_schema)
+    .innerJoin(
+      recipe_schema,
+      eq(recipe_schema.id, meal_plan_entry_schema.recipe_id),
+    )
+    .where(
+      and(
+        eq(meal_plan_entry_schema.meal_plan_id, mealPlanId),
+        isNull(recipe_schema.deleted_at),
+      ),
+    )
+    .orderBy(asc(meal_plan_entry_schema.date), asc(meal_plan_entry_schema.id));
+}
+
+async function getShoppingCatalogue(
+  meals: PlannedMeal[],
+  db: Database,
+): Promise<ShoppingCatalogue> {
+  const ingredientIds = Array.from(
+    new Set(
+      meals.flatMap(({ recipe }) =>
+        recipe.ingredients.flatMap(({ ingredientId }) =>
+          ingredientId ? [ingredientId] : [],
+        ),
+      ),
+    ),
+  );
+  if (!ingredientIds.length) return new Map();
+
+  const ingredients = await db
+    .select({
+      id: ingredient_schema.id,
+      name: ingredient_schema.name,
+      category: ingredient_schema.category,
+    })
+    .from(ingredient_schema)
+    .where(inArray(ingredient_schema.id, ingredientIds));
+
+  return new Map(ingredients.map(({ id, ...ingredient }) => [id, ingredient]));
+}
+
+/** Null when the user has no such meal plan */
+export async function getShoppingList(
+  mealPlanId: number,
+  userId: number,
+  units: UnitSystem,
+  db: Database,
+): Promise<ShoppingList | null> {
+  const mealPlan = await getMealPlanById(mealPlanId, userId, db);
+  if (!mealPlan) return null;
+
+  const meals = await getPlannedMeals(mealPlanId, db);
+  const checked = await db
+    .select({ item_key: meal_plan_checked_item_schema.item_key })
+    .from(meal_plan_checked_item_schema)
+    .where(eq(meal_plan_checked_item_schema.meal_plan_id, mealPlanId));
+
+  return {
+    meal_plan: mealPlan,
+    units,
+    categories: buildShoppingList(
+      meals,
+      await getShoppingCatalogue(meals, db),
+      new Set(checked.map(({ item_key }) => item_key)),
+      units,
+    ),
+  };
+}
+
+/**
+ * Ticks an item of the shopping list off, or back on. False when the user has
+ * no such meal plan or no planned recipe needs the item.
+ */
+export async function setShoppingItemChecked(
+  mealPlanId: number,
+  userId: number,
+  itemKey: string,
+  checked: boolean,
+  db: Database,
+): Promise<boolean> {
+  const mealPlan = await getMealPlanById(mealPlanId, userId, db);
+  if (!mealPlan) return false;
+
+  const meals = await getPlannedMeals(mealPlanId, db);
+  const listed = meals.some(({ recipe }) =>
+    recipe.ingredients.some(
+      (ingredient) => getShoppingItemKey(ingredient) === itemKey,
+    ),
+  );
+  if (!listed) return false;
+
+  if (checked) {
+    await db
+      .insert(meal_plan_checked_item_schema)
+      .values({ meal_plan_id: mealPlanId, item_key: itemKey })
+      .onConflictDoNothing();
+  } else {
+    await db
+      .delete(meal_plan_checked_item_schema)
+      .where(
+        and(
+          eq(meal_plan_checked_item_schema.meal_plan_id, mealPlanId),
+          eq(meal_plan_checked_item_schema.item_key, itemKey),
+        ),
+      );
+  }
+  return true;
+}
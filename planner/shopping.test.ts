@@ -0,0 +1,245 @@
+import { describe, expect, test } from "bun:test";
+import type { Ingredient } from "../recipe/type";
+import {
+  buildShoppingList,
+  getShoppingItemKey,
+  renderShoppingListMarkdown,
+  renderShoppingListText,
+  type PlannedMeal,
+  type ShoppingCatalogue,
+} from "./shopping";
+import type { ShoppingList } from "./type";
+
+function ingredient(
+  name: string,
+  amount: Pick<Ingredient, "quantity" | "min" | "max" | "unit"> &
+    Partial<Ingredient>,
+): Ingredient {
+  return { name, qualifier: null, preparation: null, ...amount };
+}
+
+const catalogue: ShoppingCatalogue = new Map([
+  [1, { name: "flour", category: "baking" }],
+  [2, { name: "egg", category: "dairy" }],
+]);
+
+const pancakes: PlannedMeal["recipe"] = {
+  id: 1,
+  name: "pancakes",
+  servings: 2,
+  ingredients: [
+    ingredient("flour", {
+      quantity: "100 g",
+      min: 100,
+      max: 100,
+      unit: "g",
+      ingredientId: 1,
+    }),
+    ingredient("eggs", {
+      quantity: "2",
+      min: 2,
+      max: 2,
+      unit: null,
+      ingredientId: 2,
+    }),
+    ingredient("salt", {
+      quantity: "to taste",
+      min: null,
+      max: null,
+      unit: null,
+      qualifier: "to taste",
+    }),
+  ],
+};
+
+const bread: PlannedMeal["recipe"] = {
+  id: 2,
+  name: "bread",
+  servings: null,
+  ingredients: [
+    ingredient("all-purpose flour", {
+      quantity: "0.5 kg",
+      min: 0.5,
+      max: 0.5,
+      unit: "kg",
+      ingredientId: 1,
+    }),
+    ingredient("flour", {
+      quantity: "2 handfuls",
+      min: 2,
+      max: 2,
+      unit: "handful",
+      ingredientId: 1,
+    }),
+    ingredient("Tomatoes", { quantity: "3", min: 3, max: 3, unit: null }),
+  ],
+};
+
+function getItem(categories: ShoppingList["categories"], key: string) {
+  return categories
+    .flatMap(({ items }) => items)
+    .find((item) => item.key === key);
+}
+
+describe("buildShoppingList", () => {
+  test("merges the same ingredient across recipes", () => {
+    const categories = buildShoppingList(
+      [
+        { recipe: pancakes, servings: null },
+        { recipe: bread, servings: null },
+      ],
+      catalogue,
+      new Set(),
+      "metric",
+    );
+    const flour = getItem(categories, "ingredient:1");
+
+    expect(flour?.name).toBe("flour");
+    expect(flour?.amounts[0]).toMatchObject({ min: 600, unit: "g" });
+    expect(flour?.recipes).toEqual([
+      { id: 1, name: "pancakes" },
+      { id: 2, name: "bread" },
+    ]);
+    expect(categories.map(({ category }) => category)).toEqual([
+      "dairy",
+      "baking",
+      "other",
+    ]);
+  });
+
+  test("keeps amounts which do not add up apart", () => {
+    const categories = buildShoppingList(
+      [{ recipe: bread, servings: null }],
+      catalogue,
+      new Set(),
+      "metric",
+    );
+
+    expect(getItem(categories, "ingredient:1")?.amounts).toMatchObject([
+      { min: 500, unit: "g" },
+      { min: 2, unit: "handful" },
+    ]);
+    expect(getItem(categories, "name:salt")).toBeUndefined();
+  });
+
+  test("scales by the planned servings", () => {
+    const categories = buildShoppingList(
+      [
+        { recipe: pancakes, servings: 3 },
+        { recipe: bread, servings: 4 },
+      ],
+      catalogue,
+      new Set(),
+      "metric",
+    );
+
+    expect(getItem(categories, "ingredient:2")?.amounts).toMatchObject([
+      { min: 3, max: 3, unit: null },
+    ]);
+    // bread has no servings and is cooked as written
+    expect(getItem(categories, "name:tomato")?.amounts).toMatchObject([
+      { min: 3, unit: null },
+    ]);
+    expect(getItem(categories, "ingredient:1")?.amounts[0]).toMatchObject({
+      min: 650,
+      unit: "g",
+    });
+  });
+
+  test("lists quantities without an amount as notes", () => {
+    const categories = buildShoppingList(
+      [{ recipe: pancakes, servings: null }],
+      catalogue,
+      new Set(),
+      "metric",
+    );
+
+    expect(getItem(categories, "name:salt")).toMatchObject({
+      amounts: [],
+      notes: ["to taste"],
+    });
+  });
+
+  test("keeps checked items checked across rebuilds", () => {
+    const checked = new Set([
+      getShoppingItemKey(bread.ingredients[2]!),
+      getShoppingItemKey(pancakes.ingredients[0]!),
+    ]);
+    expect(checked).toEqual(new Set(["name:tomato", "ingredient:1"]));
+
+    const categories = buildShoppingList(
+      [
+        { recipe: bread, servings: 2 },
+        { recipe: pancakes, servings: 4 },
+      ],
+      catalogue,
+      checked,
+      "us",
+    );
+
+    expect(getItem(categories, "name:tomato")?.checked).toBe(true);
+    expect(getItem(categories, "ingredient:1")?.checked).toBe(true);
+    expect(getItem(categories, "ingredient:2")?.checked).toBe(false);
+  });
+});
+
+describe("renderShoppingList", () => {
+  const list: ShoppingList = {
+    meal_plan: {
+      id: 1,
+      name: "Week 1",
+      start_date: "2026-01-05",
+      end_date: "2026-01-11",
+      created_at: new Date(0),
+      updated_at: new Date(0),
+    },
+    units: "metric",
+    categories: buildShoppingList(
+      [{ recipe: pancakes, servings: null }],
+      catalogue,
+      new Set(["ingredient:2"]),
+      "metric",
+    ),
+  };
+
+  test("renders text with a box per item", () => {
+    expect(renderShoppingListText(list)).toBe(
+      [
+        "Week 1 (2026-01-05 to 2026-01-11)",
+        "",
+        "Dairy",
+        "[x] egg: 2",
+        "",
+        "Baking",
+        "[ ] flour: 100 g",
+        "",
+        "Other",
+        "[ ] salt: to taste",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("renders markdown with a task list per category", () => {
+    expect(renderShoppingListMarkdown(list)).toBe(
+      [
+        "# Week 1",
+        "",
+        "_2026-01-05 to 2026-01-11_",
+        "",
+        "## Dairy",
+        "",
+        "- [x] egg: 2",
+        "",
+        "## Baking",
+        "",
+        "- [ ] flour: 100 g",
+        "",
+        "## Other",
+        "",
+        "- [ ] salt: to taste",
+        "",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Shopping lists of meal plans, built from the `ingredients` stored on the
+ * planned recipes. The same ingredient (by catalogue ingredient, or by its
+ * singular name when it is not in the catalogue) is merged across recipes:
+ * weights are added up with weights, volumes with volumes and counts with
+ * counts of the same unit, whatever does not add up is listed next to it.
+ */
+
+import {
+  convertAmount,
+  formatQuantity,
+  ML_PER_UNIT,
+  G_PER_UNIT,
+  UnitSystems,
+  type UnitSystem,
+} from "../ingredient/convert";
+import { normalizeIngredientName } from "../ingredient/name";
+import {
+  IngredientCategories,
+  type IngredientCategory,
+} from "../ingredient/type";
+import { getUnitKind, UnitKinds, type Unit } from "../ingredient/unit";
+import type { Ingredient } from "../recipe/type";
+import type {
+  ShoppingList,
+  ShoppingListAmount,
+  ShoppingListItem,
+} from "./type";
+
+export type PlannedMeal = {
+  recipe: {
+    id: number;
+    name: string;
+    servings: number | null;
+    ingredients: Ingredient[];
+  };
+  /** Servings to cook, null to cook the recipe as written */
+  servings: number | null;
+};
+
+/** Name and category of the catalogue ingredients, by id */
+export type ShoppingCatalogue = Map<
+  number,
+  { name: string; category: IngredientCategory | null }
+>;
+
+type Amount = { min: number; max: number; unit: Unit | null };
+
+type ItemDraft = {
+  key: string;
+  name: string;
+  category: IngredientCategory;
+  /** Amounts which add up, by weight, volume or count unit */
+  totals: Map<string, Amount>;
+  notes: Set<string>;
+  recipes: Map<number, string>;
+};
+
+const SPOONS: Unit[] = ["tsp", "tbsp"];
+const CATEGORY_ORDER = Object.values(IngredientCategories);
+
+/** Amounts keep enough precision to be added up again by clients */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Key of the item an ingredient is listed under */
+export function getShoppingItemKey(ingredient: Ingredient): string {
+  return ingredient.ingredientId
+    ? `ingredient:${ingredient.ingredientId}`
+    : `name:${normalizeIngredientName(ingredient.name)}`;
+}
+
+/** Recipes without servings are cooked as written whatever the plan says */
+function getScaleFactor(meal: PlannedMeal): number {
+  return meal.servings && meal.recipe.servings
+    ? meal.servings / meal.recipe.servings
+    : 1;
+}
+
+/**
+ * Converts an amount to the unit system. Spoons are kept by convertAmount,
+ * but nobody buys spoons: on a metric list they become ml, or grams for the
+ * ingredients metric recipes weigh.
+ */
+function toUnitSystem(name: string, amount: Amount, units: UnitSystem): Amount {
+  const converted = convertAmount(name, amount, units);
+  if (
+    units !== UnitSystems.metric ||
+    !converted.unit ||
+    !SPOONS.includes(converted.unit)
+  ) {
+    return converted;
+  }
+
+  const ml = ML_PER_UNIT[converted.unit]!;
+  return convertAmount(
+    name,
+    { min: converted.min * ml, max: converted.max * ml, unit: "ml" },
+    units,
+  );
+}
+
+/** Weights are added up in grams and volumes in ml, counts per unit */
+function toTotal(amount: Amount): { total: string; amount: Amount } {
+  if (!amount.unit) return { total: "count", amount };
+
+  const kind = getUnitKind(amount.unit);
+  if (kind === UnitKinds.weight) {
+    const g = G_PER_UNIT[amount.unit]!;
+    return {
+      total: kind,
+      amount: { min: amount.min * g, max: amount.max * g, unit: "g" },
+    };
+  }
+  if (kind === UnitKinds.volume) {
+    const ml = ML_PER_UNIT[amount.unit]!;
+    return {
+      total: kind,
+      amount: { min: amount.min * ml, max: amount.max * ml, unit: "ml" },
+    };
+  }
+
+  return { total: `count:${amount.unit}`, amount };
+}
+
+function toListAmount(
+  name: string,
+  total: Amount,
+  units: UnitSystem,
+): ShoppingListAmount {
+  const amount = total.unit ? convertAmount(name, total, units) : total;
+  return {
+    min: round(amount.min),
+    max: round(amount.max),
+    unit: amount.unit,
+    display: formatQuantity(amount.min, amount.max, amount.unit),
+  };
+}
+
+/** Weights first, then volumes, plain counts and counts of a unit */
+function compareTotals(a: string, b: string): number {
+  const rank = (total: string) =>
+    [UnitKinds.weight, UnitKinds.volume, "count"].indexOf(total) + 1 || 4;
+  return rank(a) - rank(b) || a.localeCompare(b);
+}
+
+/**
+ * Items of the shopping list grouped by the catalogue category of their
+ * ingredient, by name within a category.
+ */
+export function buildShoppingList(
+  meals: PlannedMeal[],
+  catalogue: ShoppingCatalogue,
+  checkedKeys: Set<string>,
+  units: UnitSystem,
+): ShoppingList["categories"] {
+  const drafts = new Map<string, ItemDraft>();
+
+  for (const meal of meals) {
+    const factor = getScaleFactor(meal);
+    for (const ingredient of meal.recipe.ingredients) {
+      const key = getShoppingItemKey(ingredient);
+      const entry = ingredient.ingredientId
+        ? catalogue.get(ingredient.ingredientId)
+        : undefined;
+
+      let draft = drafts.get(key);
+      if (!draft) {
+        draft = {
+          key,
+          name: entry?.name ?? normalizeIngredientName(ingredient.name),
+          category: entry?.category ?? IngredientCategories.other,
+          totals: new Map(),
+          notes: new Set(),
+          recipes: new Map(),
+        };
+        drafts.set(key, draft);
+      }
+      draft.recipes.set(meal.recipe.id, meal.recipe.name);
+
+      if (ingredient.min === null || ingredient.max === null) {
+        const note = ingredient.qualifier ?? ingredient.quantity;
+        if (note) draft.notes.add(note);
+        continue;
+      }
+
+      const { total, amount } = toTotal(
+        toUnitSystem(
+          draft.name,
+          {
+            min: ingredient.min * factor,
+            max: ingredient.max * factor,
+            unit: ingredient.unit,
+          },
+          units,
+        ),
+      );
+      const sum = draft.totals.get(total);
+      draft.totals.set(
+        total,
+        sum
+          ? { ...sum, min: sum.min + amount.min, max: sum.max + amount.max }
+          : amount,
+      );
+    }
+  }
+
+  const items = Array.from(drafts.values()).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+  return CATEGORY_ORDER.flatMap((category) => {
+    const inCategory = items
+      .filter((draft) => draft.category === category)
+      .map(
+        (draft): ShoppingListItem => ({
+          key: draft.key,
+          name: draft.name,
+          amounts: Array.from(draft.totals.entries())
+            .sort(([a], [b]) => compareTotals(a, b))
+            .map(([, total]) => toListAmount(draft.name, total, units)),
+          notes: Array.from(draft.notes),
+          recipes: Array.from(draft.recipes, ([id, name]) => ({ id, name })),
+          checked: checkedKeys.has(draft.key),
+        }),
+      );
+    return inCategory.length ? [{ category, items: inCategory }] : [];
+  });
+}
+
+function describeItem(item: ShoppingListItem): string {
+  const details = [
+    item.amounts.map((amount) => amount.display).join(" + "),
+    ...item.notes,
+  ].filter(Boolean);
+  return details.length ? `${item.name}: ${details.join(", ")}` : item.name;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/** Plain text with a `[ ]` / `[x]` box per item, e.g. to paste in a note */
+export function renderShoppingListText(list: ShoppingList): string {
+  const { meal_plan: plan } = list;
+  const lines = [`${plan.name} (${plan.start_date} to ${plan.end_date})`];
+  for (const { category, items } of list.categories) {
+    lines.push("", capitalize(category));
+    for (const item of items) {
+      lines.push(`[${item.checked ? "x" : " "}] ${describeItem(item)}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** Markdown with a task list per category */
+export function renderShoppingListMarkdown(list: ShoppingList): string {
+  const { meal_plan: plan } = list;
+  const lines = [
+    `# ${plan.name}`,
+    "",
+    `_${plan.start_date} to ${plan.end_date}_`,
+  ];
+  for (const { category, items } of list.categories) {
+    lines.push("", `## ${capitalize(category)}`, "");
+    for (const item of items) {
+      lines.push(`- [${item.checked ? "x" : " "}] ${describeItem(item)}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,92 @@
+import type { UnitSystem } from "../ingredient/convert";
+import type { IngredientCategory } from "../ingredient/type";
+import type { Unit } from "../ingredient/unit";
+
+/** Meal plans cover a week starting on their start date */
+export const MEAL_PLAN_DAYS = 7;
+
+export type MealPlan = {
+  id: number;
+  name: string;
+  /** First day of the plan, YYYY-MM-DD */
+  start_date: string;
+  /** Last day of the plan, YYYY-MM-DD */
+  end_date: string;
+  created_at: Date;
+  updated_at: Date;
+};
+
+export type MealPlanEntry = {
+  id: number;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Servings to cook, null to cook the recipe as written */
+  servings: number | null;
+  recipe: { id: number; name: string; servings: number | null };
+};
+
+export type MealPlanWithEntries = MealPlan & {
+  /** By date, in the order they were planned on a day */
+  entries: MealPlanEntry[];
+};
+
+export const ShoppingListFormats = {
+  json: "json",
+  text: "text",
+  markdown: "markdown",
+} as const;
+
+export type ShoppingListFormat =
+  (typeof ShoppingListFormats)[keyof typeof ShoppingListFormats];
+
+export type ShoppingListAmount = {
+  min: number;
+  max: number;
+  unit: Unit | null;
+  /** Formatted for display, e.g. "1 1/2 cups" */
+  display: string;
+};
+
+export type ShoppingListItem = {
+  /**
+   * Stable identifier of the item to tick it off with: `ingredient:<id>` for
+   * catalogue ingredients, `name:<singular name>` for the others
+   */
+  key: string;
+  name: string;
+  /**
+   * Amounts which could not be added up, e.g. a weight and a number of pieces.
+   * Empty when no recipe states an amount.
+   */
+  amounts: ShoppingListAmount[];
+  /** Quantities without an amount, e.g. "to taste" */
+  notes: string[];
+  /** Planned recipes using the ingredient */
+  recipes: { id: number; name: string }[];
+  checked: boolean;
+};
+
+export type ShoppingList = {
+  meal_plan: MealPlan;
+  units: UnitSystem;
+  /** Catalogue categories in catalogue order, ingredients outside it last */
+  categories: { category: IngredientCategory; items: ShoppingListItem[] }[];
+};
+
+export class MealPlanDateOutOfRange extends Error {
+  public readonly type = "mealPlanDateOutOfRange";
+  public readonly uri =
+    "https://tastebase.dev/http-errors/meal-plan-date-out-of-range";
+  public readonly mealPlanId: number;
+  constructor(
+    mealPlanId: number,
+    params?: { message?: string; options?: ErrorOptions },
+  ) {
+    super(
+      params?.message ?? "The date is not part of the week of the meal plan",
+      params?.options,
+    );
+    this.mealPlanId = mealPlanId;
+    this.name = "MealPlanDateOutOfRange";
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { getIngredientOverlap } from "./duplicate";
+import type { Ingredient } from "./type";
+
+function ingredient(name: string, ingredientId?: number): Ingredient {
+  return {
+    name,
+    quantity: null,
+    min: null,
+    max: null,
+    unit: null,
+    qualifier: null,
+    preparation: null,
+    ingredientId,
+  };
+}
+
+const pancakes = [
+  ingredient("flour", 1),
+  ingredient("milk", 2),
+  ingredient("eggs"),
+];
+
+describe("getIngredientOverlap", () => {
+  test("is 1 for the same ingredients", () => {
+    expect(getIngredientOverlap(pancakes, [...pancakes].reverse())).toBe(1);
+  });
+
+  test("is 0 without an ingredient in common", () => {
+    expect(
+      getIngredientOverlap(pancakes, [
+        ingredient("rice", 3),
+        ingredient("peas"),
+      ]),
+    ).toBe(0);
+  });
+
+  test("is 0 when a recipe has no ingredients", () => {
+    expect(getIngredientOverlap(pancakes, [])).toBe(0);
+    expect(getIngredientOverlap([], [])).toBe(0);
+  });
+
+  test("compares the ingredients by catalogue entry or normalized name", () => {
+    const crepes = [
+      ingredient("all-purpose flour", 1),
+      ingredient("whole milk", 2),
+      ingredient("Egg"),
+      ingredient("butter"),
+    ];
+
+    expect(getIngredientOverlap(pancakes, crepes)).toBe(0.75);
+    expect(
+      getIngredientOverlap([ingredient("Tomatoes")], [ingredient("tomato")]),
+    ).toBe(1);
+  });
+});
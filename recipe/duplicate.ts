@@ -0,0 +1,319 @@
+/**
+ * Near-duplicate recipes: the same recipe posted by several creators arrives
+ * through different sources, which the (external_id, type) dedup cannot catch.
+ * Saved recipes are compared with the existing ones by embedding similarity
+ * and ingredient overlap, likely duplicates are flagged for review and can be
+ * merged: the duplicate then points to the canonical recipe, which is the only
+ * one searched and lists the sources of both.
+ */
+
+import {
+  aliasedTable,
+  and,
+  asc,
+  cosineDistance,
+  desc,
+  eq,
+  inArray,
+  isNull,
+  ne,
+  or,
+  sql,
+} from "drizzle-orm";
+import type { Database, DbTransaction } from "../db";
+import {
+  embedding_schema,
+  recipe_duplicate_schema,
+  recipe_schema,
+  recipe_source_schema,
+} from "../db/schema";
+import { normalizeIngredientName } from "../ingredient/name";
+import type { AppLogger } from "../logger";
+import { isCanonicalRecipe } from "./service";
+import {
+  RecipeDuplicateResolved,
+  RecipeDuplicateStatuses,
+  type Ingredient,
+  type RecipeDuplicate,
+  type RecipeDuplicateStatus,
+  type RecipeSource,
+} from "./type";
+
+/** Embedding similarity from which recipes are compared by their ingredients */
+const DUPLICATE_MIN_SIMILARITY = 0.92;
+/** Ingredient overlap from which similar recipes are flagged as duplicates */
+const DUPLICATE_MIN_INGREDIENT_OVERLAP = 0.6;
+const DUPLICATE_CANDIDATES = 5;
+
+function ingredientKey(ingredient: Ingredient): string {
+  return ingredient.ingredientId
+    ? `#${ingredient.ingredientId}`
+    : normalizeIngredientName(ingredient.name);
+}
+
+/**
+ * Jaccard index of the ingredients, by catalogue ingredient when linked so
+ * "spring onions" and "scallions" count as the same ingredient.
+ */
+export function getIngredientOverlap(a: Ingredient[], b: Ingredient[]): number {
+  const keysA = new Set(a.map(ingredientKey));
+  const keysB = new Set(b.map(ingredientKey));
+  const shared = [...keysA].filter((key) => keysB.has(key)).length;
+  const union = keysA.size + keysB.size - shared;
+
+  return union ? shared / union : 0;
+}
+
+/**
+ * Flags the canonical recipes the given (just saved) recipe likely duplicates.
+ * Runs in the transaction saving the recipe.
+ */
+export async function flagDuplicates(
+  recipe: { id: number; ingredients: Ingredient[] },
+  embedding: number[],
+  txn: DbTransaction,
+  logger: AppLogger,
+): Promise<void> {
+  const distance = cosineDistance(embedding_schema.data, embedding);
+  const candidates = await txn
+    .select({
+      id: recipe_schema.id,
+      ingredients: recipe_schema.ingredients,
+      similarity: sql<number>`1 - (${distance})`,
+    })
+    .from(embedding_schema)
+    .innerJoin(recipe_schema, eq(embedding_schema.recipe_id, recipe_schema.id))
+    .where(
+      and(
+        ne(recipe_schema.id, recipe.id),
+        eq(embedding_schema.type, "text"),
+        isCanonicalRecipe(),
+        sql`1 - (${distance}) >= ${DUPLICATE_MIN_SIMILARITY}`,
+      ),
+    )
+    .orderBy(asc(distance))
+    .limit(DUPLICATE_CANDIDATES);
+
+  const duplicates = candidates
+    .map((candidate) => ({
+      ...candidate,
+      overlap: getIngredientOverlap(recipe.ingredients, candidate.ingredients),
+    }))
+    .filter(
+      (candidate) => candidate.overlap >= DUPLICATE_MIN_INGREDIENT_OVERLAP,
+    );
+  if (!duplicates.length) return;
+
+  await txn
+    .insert(recipe_duplicate_schema)
+    .values(
+      duplicates.map((duplicate) => ({
+        recipe_id: recipe.id,
+        duplicate_of_id: duplicate.id,
+        similarity: duplicate.similarity,
+        ingredient_overlap: duplicate.overlap,
+      })),
+    )
+    .onConflictDoNothing();
+  logger.info(
+    { recipeId: recipe.id, duplicateOf: duplicates.map(({ id }) => id) },
+    "Flagged likely duplicate recipes",
+  );
+}
+
+const laterRecipe = aliasedTable(recipe_schema, "later_recipe");
+const earlierRecipe = aliasedTable(recipe_schema, "earlier_recipe");
+
+function selectDuplicates(db: Database | DbTransaction) {
+  return db
+    .select({
+      id: recipe_duplicate_schema.id,
+      recipe: { id: laterRecipe.id, name: laterRecipe.name },
+      duplicate_of: { id: earlierRecipe.id, name: earlierRecipe.name },
+      similarity: recipe_duplicate_schema.similarity,
+      ingredient_overlap: recipe_duplicate_schema.ingredient_overlap,
+      status: recipe_duplicate_schema.status,
+      created_at: recipe_duplicate_schema.created_at,
+      resolved_at: recipe_duplicate_schema.resolved_at,
+    })
+    .from(recipe_duplicate_schema)
+    .innerJoin(
+      laterRecipe,
+      eq(recipe_duplicate_schema.recipe_id, laterRecipe.id),
+    )
+    .innerJoin(
+      earlierRecipe,
+      eq(recipe_duplicate_schema.duplicate_of_id, earlierRecipe.id),
+    );
+}
+
+/**
+ * The review list. Pending duplicates are only listed while both recipes are
+ * canonical, a flag is moot once either was deleted or merged elsewhere.
+ */
+export async function listDuplicates(
+  status: RecipeDuplicateStatus,
+  db: Database,
+): Promise<RecipeDuplicate[]> {
+  const bothCanonical = and(
+    isNull(laterRecipe.deleted_at),
+    isNull(laterRecipe.canonical_recipe_id),
+    isNull(earlierRecipe.deleted_at),
+    isNull(earlierRecipe.canonical_recipe_id),
+  );
+
+  return await selectDuplicates(db)
+    .where(
+      and(
+        eq(recipe_duplicate_schema.status, status),
+        status === RecipeDuplicateStatuses.pending ? bothCanonical : undefined,
+      ),
+    )
+    .orderBy(desc(recipe_duplicate_schema.created_at));
+}
+
+/**
+ * Merges a flagged pair: the recipe which is not kept, along with the recipes
+ * merged into it earlier, points to the canonical recipe from then on. The
+ * earlier recipe is kept unless `canonicalRecipeId` says otherwise. Null when
+ * there is no such duplicate or `canonicalRecipeId` is not one of its recipes.
+ */
+export async function mergeDuplicate(
+  duplicateId: number,
+  canonicalRecipeId: number | undefined,
+  db: Database,
+  logger: AppLogger,
+): Promise<RecipeDuplicate | null | RecipeDuplicateResolved> {
+  return await db.transaction(async (txn) => {
+    const [duplicate] = await txn
+      .select()
+      .from(recipe_duplicate_schema)
+      .where(eq(recipe_duplicate_schema.id, duplicateId))
+      .for("update");
+    if (!duplicate) return null;
+    if (
+      canonicalRecipeId !== undefined &&
+      canonicalRecipeId !== duplicate.recipe_id &&
+      canonicalRecipeId !== duplicate.duplicate_of_id
+    ) {
+      return null;
+    }
+    if (duplicate.status !== RecipeDuplicateStatuses.pending) {
+      return new RecipeDuplicateResolved(duplicateId);
+    }
+
+    const canonicalId = canonicalRecipeId ?? duplicate.duplicate_of_id;
+    const mergedId =
+      canonicalId === duplicate.duplicate_of_id
+        ? duplicate.recipe_id
+        : duplicate.duplicate_of_id;
+
+    const recipes = await txn
+      .select({ id: recipe_schema.id })
+      .from(recipe_schema)
+      .where(
+        and(
+          inArray(recipe_schema.id, [canonicalId, mergedId]),
+          isCanonicalRecipe(),
+        ),
+      )
+      .for("update");
+    if (recipes.length !== 2) return new RecipeDuplicateResolved(duplicateId);
+
+    await txn
+      .update(recipe_schema)
+      .set({ canonical_recipe_id: canonicalId })
+      .where(
+        or(
+          eq(recipe_schema.id, mergedId),
+          eq(recipe_schema.canonical_recipe_id, mergedId),
+        ),
+      );
+    await txn
+      .update(recipe_duplicate_schema)
+      .set({ status: RecipeDuplicateStatuses.merged, resolved_at: sql`now()` })
+      .where(eq(recipe_duplicate_schema.id, duplicateId));
+    logger.info(
+      { scope: "recipe-duplicate", duplicateId, canonicalId, mergedId },
+      "Merged duplicate recipe",
+    );
+
+    const [merged] = await selectDuplicates(txn).where(
+      eq(recipe_duplicate_schema.id, duplicateId),
+    );
+    return merged ?? null;
+  });
+}
+
+/** Marks a flagged pair as not being duplicates. Null when there is no such duplicate */
+export async function dismissDuplicate(
+  duplicateId: number,
+  db: Database,
+): Promise<RecipeDuplicate | null | RecipeDuplicateResolved> {
+  const [dismissed] = await db
+    .update(recipe_duplicate_schema)
+    .set({ status: RecipeDuplicateStatuses.dismissed, resolved_at: sql`now()` })
+    .where(
+      and(
+        eq(recipe_duplicate_schema.id, duplicateId),
+        eq(recipe_duplicate_schema.status, RecipeDuplicateStatuses.pending),
+      ),
+    )
+    .returning({ id: recipe_duplicate_schema.id });
+  if (!dismissed) {
+    const [existing] = await selectDuplicates(db).where(
+      eq(recipe_duplicate_schema.id, duplicateId),
+    );
+    return existing ? new RecipeDuplicateResolved(duplicateId) : null;
+  }
+
+  const [duplicate] = await selectDuplicates(db).where(
+    eq(recipe_duplicate_schema.id, duplicateId),
+  );
+  return duplicate ?? null;
+}
+
+/**
+ * Sources of canonical recipes: their own and those of the recipes merged into
+ * them, by recipe id.
+ */
+export async function getRecipeSources(
+  recipeIds: number[],
+  db: Database,
+): Promise<Map<number, RecipeSource[]>> {
+  const sources = new Map<number, RecipeSource[]>(
+    recipeIds.map((recipeId) => [recipeId, []]),
+  );
+  if (!recipeIds.length) return sources;
+
+  const rows = await db
+    .select({
+      recipeId: sql<number>`coalesce(${recipe_schema.canonical_recipe_id}, ${recipe_schema.id})`,
+      source: {
+        id: recipe_source_schema.id,
+        external_id: recipe_source_schema.external_id,
+        type: recipe_source_schema.type,
+      },
+    })
+    .from(recipe_schema)
+    .innerJoin(
+      recipe_source_schema,
+      eq(recipe_schema.recipe_source_id, recipe_source_schema.id),
+    )
+    .where(
+      and(
+        isNull(recipe_schema.deleted_at),
+        or(
+          inArray(recipe_schema.id, recipeIds),
+          inArray(recipe_schema.canonical_recipe_id, recipeIds),
+        ),
+      ),
+    )
+    .orderBy(asc(recipe_schema.id));
+
+  for (const { recipeId, source } of rows) {
+    sources.get(recipeId)?.push(source);
+  }
+
+  return sources;
+}
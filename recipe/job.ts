@@ -15,32 +15,41 @@
  * create embeddings for them. The links to these images would be stored in content_items
  */
 
-import type { Database } from "../db";
+import { and, desc, eq, sql } from "drizzle-orm";
+import type { Database, DbTransaction } from "../db";
 import {
   content_item_schema,
   embedding_schema,
   recipe_schema,
+  recipe_source_schema,
 } from "../db/schema";
 import type { AppLogger } from "../logger";
 import * as LlmService from "../llm/service";
+import { estimateNutrition } from "../nutrition/estimate";
+import { getIngredientLookup, linkIngredients } from "../ingredient/service";
 import {
   RecipeGenerated,
   RecipeGenerationFailed,
   RecipePipelineErrors,
+  RecipeRevisionActions,
   RecipeSaved,
   RecipeSavingFailed,
 } from "./type";
 import {
   TranscriptGenerated,
   TranscriptGenerationFailed,
+  RecipePipelineEventTypes,
   type RecipePipelineEventType,
   type RecipeSource,
   type PipelineContext,
+  type PipelineResumePoint,
   type PipelineStep,
 } from "./type";
-import * as YoutubeService from "../youtube/service";
-import type { InnertubeVideoInfo } from "../youtube/service";
 import { ensureDefined } from "../utils";
+import { insertRevision } from "./revision";
+import { flagDuplicates } from "./duplicate";
+import { getSourceAdapter } from "../source/registry";
+import type { AnyRecipeSourceAdapter, SourceText } from "../source/type";
 
 /**
  * Pipeline contract: executes steps in order with a shared context.
@@ -48,16 +57,27 @@ import { ensureDefined } from "../utils";
  */
 const RecipePipeline: PipelineStep[] = [transcriptStep, recipeStep, saveStep];
 
-/** Extracts transcript from YouTube and persists it as a content_item. */
+/**
+ * Extracts the transcript (text) from the source content via the source adapter
+ * and persists it as a content_item.
+ */
 async function transcriptStep(
   ctx: PipelineContext,
 ): Promise<TranscriptGenerated | TranscriptGenerationFailed> {
-  const { recipeSource, db, logger, videoInfo } = ctx;
+  const { recipeSource, adapter, db, logger, sourceContent } = ctx;
 
-  const event = await YoutubeService.getTranscript(videoInfo)
-    .then((transcript) => {
-      ctx.transcript = transcript;
-      return new TranscriptGenerated(transcript);
+  ensureDefined(
+    sourceContent,
+    "Source content is required to generate a transcript",
+  );
+  let sourceText: SourceText | undefined;
+  const event = await adapter
+    .fetchContent(sourceContent)
+    .then((text) => {
+      sourceText = text;
+      ctx.transcript = text.content;
+      ctx.transcriptLanguage = text.language;
+      return new TranscriptGenerated(text.content);
     })
     .catch(
       (error) =>
@@ -69,30 +89,86 @@ async function transcriptStep(
   if (event.type === RecipePipelineErrors.transcriptGenerationFailed)
     return event;
 
-  await db
-    .insert(content_item_schema)
-    .values({
-      recipe_source_id: recipeSource.id,
-      pipeline_step: event.type,
-      data: { type: "string", content: ctx.transcript! },
-    })
-    .catch((error) => {
-      logger.error({ error }, "Failed to save transcript");
-    });
+  ensureDefined(sourceText);
+  await saveTranscript(recipeSource.id, sourceText, db).catch((error) => {
+    logger.error({ error }, "Failed to save transcript");
+  });
 
   return event;
 }
 
-/** Invokes the LLM to parse transcript into a structured recipe. */
+/**
+ * Persists the text the recipe is parsed from as a content_item, this is what
+ * allows a failed pipeline to resume without generating the transcript again.
+ * Provenance reported along with the text is merged into the source metadata.
+ */
+export async function saveTranscript(
+  recipeSourceId: number,
+  sourceText: SourceText,
+  db: Database | DbTransaction,
+): Promise<void> {
+  await db.insert(content_item_schema).values({
+    recipe_source_id: recipeSourceId,
+    pipeline_step: RecipePipelineEventTypes.transcriptGenerated,
+    data: {
+      type: "string",
+      content: sourceText.content,
+      input: sourceText.input,
+      language: sourceText.language,
+      segments: sourceText.segments,
+    },
+  });
+
+  if (sourceText.metadata) {
+    await db
+      .update(recipe_source_schema)
+      .set({
+        metadata: sql`coalesce(${recipe_source_schema.metadata}, '{}'::jsonb) || ${JSON.stringify(sourceText.metadata)}::jsonb`,
+      })
+      .where(eq(recipe_source_schema.id, recipeSourceId));
+  }
+}
+
+function isEnglish(language: string): boolean {
+  return language.toLowerCase().split("-")[0] === "en";
+}
+
+/**
+ * Invokes the LLM to parse transcript into a structured recipe, unless the
+ * source adapter can parse the transcript into a recipe on its own.
+ *
+ * The recipe is parsed in the language of the source. Recipes in any other
+ * language than English are translated, the English recipe is the one stored
+ * in the recipe columns (and embedded) so search works across languages while
+ * the original is kept along with it.
+ */
 async function recipeStep(
   ctx: PipelineContext,
 ): Promise<RecipeGenerated | RecipeGenerationFailed> {
-  const { logger } = ctx;
+  const { adapter, logger } = ctx;
+
+  ensureDefined(ctx.transcript);
+  const parsedRecipe = adapter.parseContent?.(ctx.transcript);
+  if (parsedRecipe) {
+    logger.info("Recipe parsed from the source without the LLM");
+  }
+
+  const event = await (
+    parsedRecipe
+      ? Promise.resolve(parsedRecipe)
+      : LlmService.parseRecipe(ctx.transcript)
+  )
+    .then(async (recipe) => {
+      const language = ctx.transcriptLanguage ?? recipe.language;
+      if (!language || isEnglish(language)) {
+        ctx.recipe = { ...recipe, language };
+        return new RecipeGenerated(ctx.recipe);
+      }
 
-  const event = await LlmService.parseRecipe(ctx.transcript!)
-    .then((recipe) => {
-      ctx.recipe = recipe;
-      return new RecipeGenerated(recipe);
+      logger.info({ language }, "Translating recipe to English");
+      ctx.originalRecipe = { ...recipe, language };
+      ctx.recipe = { ...(await LlmService.translateRecipe(recipe)), language };
+      return new RecipeGenerated(ctx.recipe);
     })
     .catch(
       (error) =>
@@ -106,26 +182,59 @@ async function recipeStep(
 }
 
 /**
- * Generates embedding and stores recipe + embedding in a single transaction.
+ * Generates embedding and stores recipe + embedding, along with the first
+ * revision of the recipe, in a single transaction.
+ * The nutrition estimate is computed from the English ingredients here, which
+ * are also linked to the ingredient catalogue. Likely duplicates of existing
+ * recipes are flagged for review, see flagDuplicates.
  * Fails atomically if any DB operation fails.
  */
 async function saveStep(
   ctx: PipelineContext,
 ): Promise<RecipeSaved | RecipeSavingFailed> {
-  const { recipeSource, db, logger } = ctx;
+  const { recipeSource, submittedByUserId, db, logger } = ctx;
 
   ensureDefined(ctx.recipe);
   const event = await LlmService.generateRecipeEmbedding(ctx.recipe)
     .then((embeddings) =>
       db.transaction(async (txn) => {
+        const { ingredients, ingredientIds } = linkIngredients(
+          ctx.recipe!.ingredients,
+          await getIngredientLookup(txn),
+        );
         const [recipe] = await txn
           .insert(recipe_schema)
           .values({
             recipe_source_id: recipeSource.id,
+            submitted_by_user_id: submittedByUserId,
             name: ctx.recipe!.name,
             instructions: ctx.recipe!.instructions,
-            ingredients: ctx.recipe!.ingredients,
+            steps: ctx.recipe!.steps,
+            ingredients,
+            ingredient_ids: ingredientIds,
             tags: ctx.recipe!.tags,
+            language: ctx.recipe!.language,
+            servings: ctx.recipe!.servings,
+            yield: ctx.recipe!.yield,
+            prep_minutes: ctx.recipe!.prepMinutes,
+            cook_minutes: ctx.recipe!.cookMinutes,
+            cuisine: ctx.recipe!.cuisine,
+            course: ctx.recipe!.course,
+            difficulty: ctx.recipe!.difficulty,
+            equipment: ctx.recipe!.equipment,
+            nutrition: estimateNutrition(
+              ctx.recipe!.ingredients,
+              ctx.recipe!.servings,
+            ),
+            original: ctx.originalRecipe
+              ? {
+                  name: ctx.originalRecipe.name,
+                  instructions: ctx.originalRecipe.instructions,
+                  steps: ctx.originalRecipe.steps,
+                  ingredients: ctx.originalRecipe.ingredients,
+                  tags: ctx.originalRecipe.tags,
+                }
+              : null,
           })
           .returning();
         ensureDefined(recipe, "Failed to persist recipe");
@@ -135,6 +244,17 @@ async function saveStep(
           type: "text",
           data: embeddings,
         });
+        await insertRevision(
+          {
+            recipeId: recipe.id,
+            revision: 1,
+            action: RecipeRevisionActions.created,
+            author: null,
+            data: recipe,
+          },
+          txn,
+        );
+        await flagDuplicates(recipe, embeddings, txn, logger);
 
         return new RecipeSaved(recipe.id);
       }),
@@ -150,25 +270,75 @@ async function saveStep(
   return event;
 }
 
+/**
+ * Works out from the persisted artifacts of a recipe source which step the
+ * pipeline should resume from. The recipe and its embedding are written
+ * atomically by saveStep, so the only partial progress worth reusing is the
+ * transcript stored in content_items; without it the pipeline starts over.
+ *
+ * Callers are expected to have ruled out an existing recipe for the source
+ * (recipes table) before resuming, otherwise the source is already complete.
+ */
+export async function getPipelineResumePoint(
+  recipeSource: RecipeSource,
+  db: Database,
+): Promise<PipelineResumePoint> {
+  const [transcriptItem] = await db
+    .select({ data: content_item_schema.data })
+    .from(content_item_schema)
+    .where(
+      and(
+        eq(content_item_schema.recipe_source_id, recipeSource.id),
+        eq(
+          content_item_schema.pipeline_step,
+          RecipePipelineEventTypes.transcriptGenerated,
+        ),
+      ),
+    )
+    .orderBy(desc(content_item_schema.created_at))
+    .limit(1);
+
+  if (!transcriptItem) return { startFrom: 0 };
+  return {
+    startFrom: RecipePipeline.indexOf(recipeStep),
+    transcript: transcriptItem.data.content,
+    transcriptLanguage: transcriptItem.data.language,
+  };
+}
+
 export async function* processRecipePipeline(
   recipeSource: RecipeSource,
+  submittedByUserId: number | null,
+  adapter: AnyRecipeSourceAdapter,
   db: Database,
   logger: AppLogger,
-  videoInfo: InnertubeVideoInfo,
-  startFrom: number = 0,
+  sourceContent: unknown,
+  resumePoint: PipelineResumePoint = { startFrom: 0 },
 ): AsyncGenerator<RecipePipelineEventType> {
   const scopedLogger = logger.child({
     scope: "recipe-pipeline",
-    videoId: recipeSource.external_id,
+    source: recipeSource.type,
+    externalId: recipeSource.external_id,
   });
   const ctx: PipelineContext = {
     recipeSource,
+    submittedByUserId,
+    adapter,
     db,
     logger: scopedLogger,
-    videoInfo,
+    sourceContent,
+    transcript: resumePoint.transcript,
+    transcriptLanguage: resumePoint.transcriptLanguage,
   };
 
-  for (const step of RecipePipeline.slice(startFrom)) {
+  if (resumePoint.startFrom > 0) {
+    scopedLogger.info(
+      { startFrom: resumePoint.startFrom },
+      "Resuming recipe pipeline",
+    );
+  }
+
+  for (const step of RecipePipeline.slice(resumePoint.startFrom)) {
     const event = await step(ctx);
     /**
      * The order of yield and return here is important. In case
@@ -188,3 +358,48 @@ export async function* processRecipePipeline(
     yield event;
   }
 }
+
+/**
+ * Runs the pipeline for a recipe source from wherever an earlier run stopped.
+ * The source content is only loaded when the transcript still has to be
+ * generated.
+ */
+export async function* resumeRecipePipeline(
+  recipeSource: RecipeSource,
+  submittedByUserId: number | null,
+  db: Database,
+  logger: AppLogger,
+): AsyncGenerator<RecipePipelineEventType> {
+  const resumePoint = await getPipelineResumePoint(recipeSource, db);
+
+  const adapter = getSourceAdapter(recipeSource.type);
+  ensureDefined(
+    adapter,
+    `No source adapter registered for '${recipeSource.type}'`,
+  );
+
+  let sourceContent: unknown;
+  if (!resumePoint.transcript) {
+    try {
+      sourceContent = await adapter.loadContent(recipeSource);
+    } catch (error) {
+      const event = new TranscriptGenerationFailed({
+        options: { cause: Error.isError(error) ? error : `${error}` },
+      });
+      logger.error({ error: event }, "Recipe pipeline failed");
+
+      yield event;
+      return;
+    }
+  }
+
+  yield* processRecipePipeline(
+    recipeSource,
+    submittedByUserId,
+    adapter,
+    db,
+    logger,
+    sourceContent,
+    resumePoint,
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * "What can I cook?": ranks recipes by how many of their ingredients are on
+ * hand. Matching works on the catalogue ingredients the recipe ingredients are
+ * linked to and on their names (see ingredientNamePattern), the embeddings only
+ * come in to rank by a free-text query on top of the coverage.
+ */
+
+import { and, asc, count, desc, eq, gt, sql, type SQL } from "drizzle-orm";
+import type { Database } from "../db";
+import { embedding_schema, recipe_schema } from "../db/schema";
+import { normalizeIngredientName } from "../ingredient/name";
+import {
+  getIngredientLookup,
+  resolveIngredientId,
+} from "../ingredient/service";
+import {
+  encodeSearchCursor,
+  getSearchScores,
+  ingredientNamePattern,
+  isCanonicalRecipe,
+  recipeColumns,
+  type RecipeSearchPagination,
+} from "./service";
+import type { Recipe } from "./type";
+
+/** Weight of the coverage in the score when ranking by a query as well */
+const COVERAGE_WEIGHT = 0.6;
+
+export type PantryQuery = {
+  /** Ingredients on hand */
+  ingredients: string[];
+  /** Ingredients which are always available, e.g. salt and oil */
+  staples: string[];
+  /** Upper bound of the ingredients a recipe may be missing */
+  maxMissing?: number;
+  /** Free-text query the recipes are also ranked by, as in searchRecipes */
+  query?: string;
+};
+
+export type PantryMatch = {
+  /** Share of the recipe ingredients on hand, between 0 and 1 */
+  coverage: number;
+  /** Recipe ingredients which are on hand (or staples) */
+  matched: string[];
+  /** Recipe ingredients which are not */
+  missing: string[];
+  /** Score of the free-text query, null without one */
+  finalScore: number | null;
+  /** Coverage, blended with finalScore when a query is given */
+  score: number;
+  recipe: Recipe;
+};
+
+export type PantryMatchPage = {
+  results: PantryMatch[];
+  total: number;
+  nextCursor: string | null;
+};
+
+function uniqueNames(names: string[]): string[] {
+  return Array.from(
+    new Set(names.map(normalizeIngredientName).filter(Boolean)),
+  );
+}
+
+/**
+ * Ranks the recipes sharing at least one ingredient besides the staples with
+ * the pantry by their coverage, recipes missing fewer ingredients first on
+ * equal coverage. Staples count as matched but do not qualify a recipe on
+ * their own. With a query, the score blends the coverage with the hybrid
+ * search score. A pantry without any ingredient name matches nothing.
+ */
+export async function matchPantry(
+  pantry: PantryQuery,
+  pagination: RecipeSearchPagination,
+  db: Database,
+): Promise<PantryMatchPage> {
+  const staples = uniqueNames(pantry.staples);
+  const ingredients = uniqueNames(pantry.ingredients).filter(
+    (name) => !staples.includes(name),
+  );
+  if (!ingredients.length) return { results: [], total: 0, nextCursor: null };
+
+  const lookup = await getIngredientLookup(db);
+  const onHand = (names: string[]) => {
+    const patterns = sql`array[${sql.join(
+      names.map((name) => sql`${ingredientNamePattern(name)}`),
+      sql`, `,
+    )}]::text[]`;
+    const ingredientIds = names.flatMap((name) => {
+      const ingredientId = resolveIngredientId(name, lookup);
+      return ingredientId === null ? [] : [ingredientId];
+    });
+    const ids = sql`array[${sql.join(
+      ingredientIds.map((ingredientId) => sql`${ingredientId}`),
+      sql`, `,
+    )}]::integer[]`;
+    return sql`(
+      coalesce((ingredient->>'ingredientId')::integer = any(${ids}), false)
+      or ingredient->>'name' ~* any(${patterns})
+    )`;
+  };
+  const stocked = onHand(ingredients);
+  const available = staples.length
+    ? sql`(${stocked} or ${onHand(staples)})`
+    : stocked;
+  const namesWhere = (condition: SQL) => sql`array(
+    select ingredient->>'name'
+    from jsonb_array_elements(${recipe_schema.ingredients}) as ingredient
+    where ${condition}
+  )`;
+
+  const matches = db
+    .select({
+      id: recipe_schema.id,
+      matched: sql<string[]>`${namesWhere(available)}`.as("matched"),
+      missing: sql<string[]>`${namesWhere(sql`not ${available}`)}`.as(
+        "missing",
+      ),
+      stocked: sql<number>`cardinality(${namesWhere(stocked)})`.as("stocked"),
+    })
+    .from(recipe_schema)
+    .where(isCanonicalRecipe())
+    .as("matches");
+
+  const coverage = sql<number>`(cardinality(${matches.matched})::float / (cardinality(${matches.matched}) + cardinality(${matches.missing})))`;
+  const conditions: SQL[] = [gt(matches.stocked, 0)];
+  if (pantry.maxMissing !== undefined) {
+    conditions.push(
+      sql`cardinality(${matches.missing}) <= ${pantry.maxMissing}`,
+    );
+  }
+
+  const scores = pantry.query ? await getSearchScores(pantry.query) : undefined;
+  const finalScore = scores?.finalScore ?? sql<null>`null`;
+  const score = scores
+    ? sql<number>`(${COVERAGE_WEIGHT} * ${coverage} + ${1 - COVERAGE_WEIGHT} * ${scores.finalScore})`
+    : coverage;
+
+  const from = () => {
+    const query = db
+      .select({
+        coverage,
+        matched: matches.matched,
+        missing: matches.missing,
+        finalScore,
+        score,
+        recipe: recipeColumns,
+      })
+      .from(matches)
+      .innerJoin(recipe_schema, eq(recipe_schema.id, matches.id));
+    return scores
+      ? query.innerJoin(
+          embedding_schema,
+          eq(embedding_schema.recipe_id, recipe_schema.id),
+        )
+      : query;
+  };
+  /** Recipes without an embedding cannot be ranked by the query, nor counted */
+  const countFrom = () => {
+    const query = db.select({ total: count() }).from(matches);
+    return scores
+      ? query.innerJoin(
+          embedding_schema,
+          eq(embedding_schema.recipe_id, matches.id),
+        )
+      : query;
+  };
+
+  const [results, [counted]] = await Promise.all([
+    from()
+      .where(and(...conditions))
+      .orderBy(
+        desc(score),
+        asc(sql`cardinality(${matches.missing})`),
+        asc(recipe_schema.id),
+      )
+      .limit(pagination.limit)
+      .offset(pagination.offset),
+    countFrom().where(and(...conditions)),
+  ]);
+
+  const total = counted?.total ?? 0;
+  const nextOffset = pagination.offset + results.length;
+  return {
+    results,
+    total,
+    nextCursor:
+      results.length === pagination.limit && nextOffset < total
+        ? encodeSearchCursor(nextOffset)
+        : null,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { diffRevisionData } from "./revision";
+import type { RecipeRevisionData } from "./type";
+
+const revision: RecipeRevisionData = {
+  name: "pancakes",
+  instructions: "1. Mix.",
+  steps: [
+    { text: "Mix.", durationMinutes: null, temperature: null, ingredients: [] },
+  ],
+  ingredients: [
+    {
+      name: "flour",
+      quantity: "200 g",
+      min: 200,
+      max: 200,
+      unit: "g",
+      qualifier: null,
+      preparation: null,
+    },
+  ],
+  tags: ["breakfast"],
+  servings: 2,
+  yield: null,
+  prep_minutes: 5,
+  cook_minutes: 10,
+  cuisine: null,
+  course: "breakfast",
+  difficulty: "easy",
+  equipment: [],
+};
+
+describe("diffRevisionData", () => {
+  test("has no changes for equal data", () => {
+    expect(diffRevisionData(revision, structuredClone(revision))).toEqual([]);
+  });
+
+  test("lists the changed fields with their values", () => {
+    const edited: RecipeRevisionData = {
+      ...revision,
+      servings: 4,
+      cuisine: "french",
+      tags: ["breakfast", "sweet"],
+    };
+
+    expect(diffRevisionData(revision, edited)).toEqual([
+      { field: "tags", before: ["breakfast"], after: ["breakfast", "sweet"] },
+      { field: "servings", before: 2, after: 4 },
+      { field: "cuisine", before: null, after: "french" },
+    ]);
+  });
+
+  test("compares nested values by content", () => {
+    const edited = structuredClone(revision);
+    edited.ingredients[0]!.quantity = "250 g";
+    edited.ingredients[0]!.min = 250;
+    edited.ingredients[0]!.max = 250;
+
+    expect(
+      diffRevisionData(revision, edited).map(({ field }) => field),
+    ).toEqual(["ingredients"]);
+  });
+});
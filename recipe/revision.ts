@@ -0,0 +1,111 @@
+/**
+ * Recipes are versioned by their revisions: the pipeline stores the first one
+ * along with the recipe and every edit or deletion appends another. Revisions
+ * are never updated, each holds a full snapshot of the editable fields so the
+ * LLM output and any later correction can be compared.
+ */
+
+import { asc, desc, eq } from "drizzle-orm";
+import type { Database, DbTransaction } from "../db";
+import { recipe_revision_schema } from "../db/schema";
+import type { User } from "../user/type";
+import type {
+  RecipeFieldChange,
+  RecipeRevision,
+  RecipeRevisionAction,
+  RecipeRevisionData,
+} from "./type";
+
+const REVISION_FIELDS: (keyof RecipeRevisionData)[] = [
+  "name",
+  "instructions",
+  "steps",
+  "ingredients",
+  "tags",
+  "servings",
+  "yield",
+  "prep_minutes",
+  "cook_minutes",
+  "cuisine",
+  "course",
+  "difficulty",
+  "equipment",
+];
+
+export function getRevisionData(
+  recipe: RecipeRevisionData,
+): RecipeRevisionData {
+  return Object.fromEntries(
+    REVISION_FIELDS.map((field) => [field, recipe[field]]),
+  ) as RecipeRevisionData;
+}
+
+/** Fields whose values differ, compared by their JSON representation */
+export function diffRevisionData(
+  before: RecipeRevisionData,
+  after: RecipeRevisionData,
+): RecipeFieldChange[] {
+  return REVISION_FIELDS.filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+  ).map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+/** Number of the latest revision of a recipe, 0 when it has none */
+export async function getLatestRevisionNumber(
+  recipeId: number,
+  db: Database | DbTransaction,
+): Promise<number> {
+  const [latest] = await db
+    .select({ revision: recipe_revision_schema.revision })
+    .from(recipe_revision_schema)
+    .where(eq(recipe_revision_schema.recipe_id, recipeId))
+    .orderBy(desc(recipe_revision_schema.revision))
+    .limit(1);
+
+  return latest?.revision ?? 0;
+}
+
+/**
+ * Appends a revision to a recipe. Revision numbers are unique per recipe, two
+ * concurrent writers cannot both store the same revision. The author is the
+ * authenticated user, null for the pipeline.
+ */
+export async function insertRevision(
+  params: {
+    recipeId: number;
+    revision: number;
+    action: RecipeRevisionAction;
+    author: Pick<User, "id" | "name"> | null;
+    data: RecipeRevisionData;
+  },
+  db: Database | DbTransaction,
+): Promise<void> {
+  await db.insert(recipe_revision_schema).values({
+    recipe_id: params.recipeId,
+    revision: params.revision,
+    action: params.action,
+    author: params.author?.name ?? null,
+    author_user_id: params.author?.id ?? null,
+    data: getRevisionData(params.data),
+  });
+}
+
+/** Revisions of a recipe in order, each with its changes to the previous one */
+export async function getRecipeRevisions(
+  recipeId: number,
+  db: Database,
+): Promise<RecipeRevision[]> {
+  const revisions = await db
+    .select()
+    .from(recipe_revision_schema)
+    .where(eq(recipe_revision_schema.recipe_id, recipeId))
+    .orderBy(asc(recipe_revision_schema.revision));
+
+  return revisions.map((revision, index) => {
+    const previous = revisions[index - 1];
+    return {
+      ...revision,
+      changes: previous ? diffRevisionData(previous.data, revision.data) : [],
+    };
+  });
+}
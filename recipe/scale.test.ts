@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import { scaleRecipe } from "./scale";
+import { RecipeServingsUnknown, type Ingredient, type Recipe } from "./type";
+
+function ingredient(
+  name: string,
+  amount: Pick<Ingredient, "quantity" | "min" | "max" | "unit"> &
+    Partial<Ingredient>,
+): Ingredient {
+  return { name, qualifier: null, preparation: null, ...amount };
+}
+
+const recipe: Recipe = {
+  id: 1,
+  name: "pancakes",
+  instructions: "1. Mix.",
+  steps: [],
+  tags: [],
+  ingredients: [
+    ingredient("flour", { quantity: "1 cup", min: 1, max: 1, unit: "cup" }),
+    ingredient("milk", {
+      quantity: "200-250 ml",
+      min: 200,
+      max: 250,
+      unit: "ml",
+    }),
+    ingredient("eggs", { quantity: "2", min: 2, max: 2, unit: null }),
+    ingredient("butter", {
+      quantity: "1 tbsp, melted",
+      min: 1,
+      max: 1,
+      unit: "tbsp",
+      preparation: "melted",
+    }),
+    ingredient("salt", {
+      quantity: "to taste",
+      min: null,
+      max: null,
+      unit: null,
+      qualifier: "to taste",
+    }),
+  ],
+  language: "en",
+  original: null,
+  servings: 2,
+  yield: null,
+  prep_minutes: null,
+  cook_minutes: null,
+  cuisine: null,
+  course: null,
+  difficulty: null,
+  equipment: [],
+  nutrition: null,
+  canonical_recipe_id: null,
+  submitted_by_user_id: null,
+};
+
+function getIngredient(scaled: ReturnType<typeof scaleRecipe>, name: string) {
+  if (scaled instanceof RecipeServingsUnknown) throw scaled;
+  return scaled.ingredients.find((ingredient) => ingredient.name === name);
+}
+
+describe("scaleRecipe", () => {
+  test("scales by a factor", () => {
+    const scaled = scaleRecipe(recipe, { scale: 1.5 });
+
+    expect(getIngredient(scaled, "milk")).toMatchObject({
+      min: 300,
+      max: 375,
+      unit: "ml",
+      display: "300-375 ml",
+      conversionError: null,
+    });
+    expect(getIngredient(scaled, "eggs")?.display).toBe("3");
+    expect(getIngredient(scaled, "butter")?.display).toBe("1 1/2 tbsp, melted");
+    expect(
+      !(scaled instanceof RecipeServingsUnknown) && scaled.scaling,
+    ).toEqual({ factor: 1.5, servings: null, units: null });
+  });
+
+  test("scales to a number of servings", () => {
+    const scaled = scaleRecipe(recipe, { servings: 3 });
+
+    expect(getIngredient(scaled, "eggs")).toMatchObject({ min: 3, max: 3 });
+    expect(
+      !(scaled instanceof RecipeServingsUnknown) && scaled.scaling,
+    ).toEqual({ factor: 1.5, servings: 3, units: null });
+  });
+
+  test("needs the servings of the recipe to scale to servings", () => {
+    expect(
+      scaleRecipe({ ...recipe, servings: null }, { servings: 4 }),
+    ).toBeInstanceOf(RecipeServingsUnknown);
+  });
+
+  test("converts to a unit system", () => {
+    const scaled = scaleRecipe(recipe, { units: "metric" });
+
+    expect(getIngredient(scaled, "flour")).toMatchObject({
+      min: 125.392,
+      unit: "g",
+      display: "125 g",
+    });
+    expect(getIngredient(scaled, "milk")).toMatchObject({
+      display: "200-250 ml",
+      conversionError: null,
+    });
+    expect(getIngredient(scaled, "butter")?.unit).toBe("tbsp");
+  });
+
+  test("passes quantities without an amount through", () => {
+    expect(
+      getIngredient(scaleRecipe(recipe, { scale: 2, units: "us" }), "salt"),
+    ).toMatchObject({
+      min: null,
+      max: null,
+      display: "to taste",
+      conversionError: null,
+    });
+  });
+});
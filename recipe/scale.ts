@@ -0,0 +1,107 @@
+import {
+  convertAmount,
+  formatQuantity,
+  type UnitSystem,
+} from "../ingredient/convert";
+import { scaleNutrition } from "../nutrition/estimate";
+import { RecipeServingsUnknown, type Ingredient, type Recipe } from "./type";
+
+export type ScaleOptions = {
+  /** Factor the amounts are multiplied with */
+  scale?: number;
+  /** Servings to scale to, relative to the servings of the recipe */
+  servings?: number;
+  units?: UnitSystem;
+};
+
+export type ScaledIngredient = Ingredient & {
+  /** Scaled quantity formatted for display, the original text when it has no amount */
+  display: string | null;
+  /** Why the quantity could not be converted to the requested units */
+  conversionError: string | null;
+};
+
+export type ScaledRecipe = Omit<Recipe, "ingredients"> & {
+  ingredients: ScaledIngredient[];
+  scaling: {
+    factor: number;
+    servings: number | null;
+    units: UnitSystem | null;
+  };
+};
+
+/** Amounts keep enough precision to be scaled again by clients */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function scaleIngredient(
+  ingredient: Ingredient,
+  factor: number,
+  units: UnitSystem | undefined,
+): ScaledIngredient {
+  if (ingredient.min === null || ingredient.max === null) {
+    return {
+      ...ingredient,
+      display: ingredient.quantity,
+      conversionError: null,
+    };
+  }
+
+  const scaled = {
+    min: ingredient.min * factor,
+    max: ingredient.max * factor,
+    unit: ingredient.unit,
+  };
+  const converted = units
+    ? convertAmount(ingredient.name, scaled, units)
+    : { ...scaled, conversionError: null };
+
+  const display = [
+    formatQuantity(converted.min, converted.max, converted.unit),
+    ingredient.qualifier,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    ...ingredient,
+    min: round(converted.min),
+    max: round(converted.max),
+    unit: converted.unit,
+    display: ingredient.preparation
+      ? `${display}, ${ingredient.preparation}`
+      : display,
+    conversionError: converted.conversionError,
+  };
+}
+
+/**
+ * Scales the ingredient amounts of a recipe by a factor or to a number of
+ * servings and converts them to a unit system. Quantities without an amount
+ * ("to taste") are passed through unchanged. The nutrition totals are scaled
+ * along with the amounts.
+ */
+export function scaleRecipe(
+  recipe: Recipe,
+  options: ScaleOptions,
+): ScaledRecipe | RecipeServingsUnknown {
+  let factor = options.scale ?? 1;
+  if (options.servings !== undefined) {
+    if (!recipe.servings) return new RecipeServingsUnknown(recipe.id);
+    factor = options.servings / recipe.servings;
+  }
+
+  return {
+    ...recipe,
+    ingredients: recipe.ingredients.map((ingredient) =>
+      scaleIngredient(ingredient, factor, options.units),
+    ),
+    nutrition: recipe.nutrition && scaleNutrition(recipe.nutrition, factor),
+    scaling: {
+      factor: round(factor),
+      servings: options.servings ?? null,
+      units: options.units ?? null,
+    },
+  };
+}
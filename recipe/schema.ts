@@ -1,48 +1,207 @@
 import { z } from "zod";
+import { getSourceAdapters } from "../source/registry";
+import type { AnyRecipeSourceAdapter } from "../source/type";
+import { Units, type Unit } from "../ingredient/unit";
+import { RecipeCourses, RecipeDifficulties, TemperatureUnits } from "./type";
+
+function toInputRecipeSchema(adapter: AnyRecipeSourceAdapter) {
+  return z.object({
+    type: z.literal(adapter.type).describe("Recipe type"),
+    data: adapter.schema.describe(adapter.description),
+  });
+}
+
+type AdapterInputRecipeSchema = ReturnType<typeof toInputRecipeSchema>;
 
 /**
- * TODO (anikait) - Few things are currently missing, which would probably be a good addition
- * 1. Error message is a bit generic and not specific to the failing condition
- * 2. URL is object is created twice
- * 3. Forced assertion for urlParts[2]
- * 4. Missing `path` when using `ctx.addIssue`
+ * Request body of POST /recipe, a union discriminated on `type` with one member
+ * per registered source adapter, each validating `data` with the adapter schema.
  */
-export const youtubeShortsRecipeSchema = z
+export const inputRecipeSchema = z.discriminatedUnion(
+  "type",
+  getSourceAdapters().map(toInputRecipeSchema) as [
+    AdapterInputRecipeSchema,
+    ...AdapterInputRecipeSchema[],
+  ],
+);
+
+export type InputRecipeSchema = z.infer<typeof inputRecipeSchema>;
+
+const editRecipeStepSchema = z.union([
+  z.string().trim().min(1),
+  z.object({
+    text: z.string().trim().min(1),
+    durationMinutes: z.number().positive().nullable().optional(),
+    temperature: z
+      .object({
+        value: z.number(),
+        unit: z.enum([TemperatureUnits.celsius, TemperatureUnits.fahrenheit]),
+      })
+      .nullable()
+      .optional(),
+    ingredients: z.array(z.string().trim().min(1)).optional(),
+  }),
+]);
+
+/**
+ * Request body of PATCH /recipe/:recipe-id, only the given fields change.
+ * Steps given as plain text get their duration, temperature and ingredients
+ * read from the text, ingredient quantities are parsed as on ingestion.
+ */
+export const editRecipeSchema = z
   .object({
-    url: z.url(),
+    name: z.string().trim().min(1).optional(),
+    steps: z
+      .array(editRecipeStepSchema)
+      .min(1)
+      .optional()
+      .describe("Steps as text or with their details"),
+    ingredients: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1),
+          quantity: z.string().trim().min(1).nullable(),
+        }),
+      )
+      .optional(),
+    tags: z.array(z.string().trim().min(1)).optional(),
+    servings: z.number().int().positive().nullable().optional(),
+    yield: z.string().trim().min(1).nullable().optional(),
+    prep_minutes: z.number().int().positive().nullable().optional(),
+    cook_minutes: z.number().int().positive().nullable().optional(),
+    cuisine: z.string().trim().min(1).nullable().optional(),
+    course: z.enum(Object.values(RecipeCourses)).nullable().optional(),
+    difficulty: z.enum(Object.values(RecipeDifficulties)).nullable().optional(),
+    equipment: z.array(z.string().trim().min(1)).optional(),
   })
-  .superRefine(({ url }, ctx) => {
-    const parsed = new URL(url);
-    const urlParts = parsed.pathname.split("/");
-
-    if (
-      parsed.hostname !== "www.youtube.com" ||
-      urlParts.length !== 3 ||
-      urlParts[1] !== "shorts" ||
-      urlParts[2]!.length === 0
-    ) {
-      ctx.addIssue({
-        code: "custom",
-        message:
-          "Invalid YouTube shorts URL, only the 'https://www.youtube.com/shorts/{id}' is accepted",
-      });
-    }
-  })
-  .transform(({ url }) => {
-    const parsed = new URL(url);
-    const urlParts = parsed.pathname.split("/");
-    return {
-      url,
-      id: urlParts[2]!,
-    };
-  });
+  .strict()
+  .refine(
+    (fields) => Object.values(fields).some((value) => value !== undefined),
+    { message: "At least one recipe field must be given" },
+  );
 
-export const inputRecipeSchema = z.object({
-  type: z.literal("youtube-shorts").describe("Recipe type"),
-  data: z.record(z.string(), z.unknown()).describe("Recipe data"),
+export type EditRecipeSchema = z.infer<typeof editRecipeSchema>;
+
+const nutrientsResponseSchema = z.object({
+  calories: z.number().describe("kcal"),
+  protein: z.number().describe("g"),
+  fat: z.number().describe("g"),
+  carbs: z.number().describe("g"),
+  fiber: z.number().describe("g"),
 });
 
-export type InputRecipeSchema = z.infer<typeof inputRecipeSchema>;
-export type YoutubeShortsRecipeSchema = z.infer<
-  typeof youtubeShortsRecipeSchema
->;
+const ingredientResponseSchema = z.object({
+  name: z.string(),
+  ingredientId: z
+    .number()
+    .int()
+    .nullable()
+    .optional()
+    .describe("Catalogue ingredient the name is linked to"),
+  quantity: z.string().nullable().describe("Quantity as written"),
+  min: z.number().nullable(),
+  max: z.number().nullable(),
+  unit: z.enum(Object.keys(Units) as Unit[]).nullable(),
+  qualifier: z.string().nullable(),
+  preparation: z.string().nullable(),
+});
+
+const stepResponseSchema = z.object({
+  text: z.string(),
+  durationMinutes: z.number().nullable(),
+  temperature: z
+    .object({
+      value: z.number(),
+      unit: z.enum([TemperatureUnits.celsius, TemperatureUnits.fahrenheit]),
+    })
+    .nullable(),
+  ingredients: z.array(z.string()),
+});
+
+/** Recipe as returned by the API, used to document the responses */
+export const recipeResponseSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  instructions: z.string().describe("Markdown rendering of the steps"),
+  steps: z.array(stepResponseSchema),
+  tags: z.array(z.string()),
+  ingredients: z.array(ingredientResponseSchema),
+  language: z.string().nullable(),
+  original: z
+    .object({
+      name: z.string(),
+      instructions: z.string(),
+      steps: z.array(stepResponseSchema),
+      tags: z.array(z.string()),
+      ingredients: z.array(ingredientResponseSchema),
+    })
+    .nullable()
+    .describe("The recipe in the source language, null for English sources"),
+  servings: z.number().int().nullable(),
+  yield: z.string().nullable(),
+  prep_minutes: z.number().int().nullable(),
+  cook_minutes: z.number().int().nullable(),
+  cuisine: z.string().nullable(),
+  course: z.enum(Object.values(RecipeCourses)).nullable(),
+  difficulty: z.enum(Object.values(RecipeDifficulties)).nullable(),
+  equipment: z.array(z.string()),
+  nutrition: z
+    .object({
+      total: nutrientsResponseSchema,
+      perServing: nutrientsResponseSchema.nullable(),
+      coverage: z.number().describe("Percentage of ingredients accounted for"),
+      unmatched: z.array(z.string()),
+      tableVersion: z.string(),
+    })
+    .nullable(),
+  canonical_recipe_id: z
+    .number()
+    .int()
+    .nullable()
+    .describe("Recipe this one was merged into as a duplicate"),
+  submitted_by_user_id: z
+    .number()
+    .int()
+    .nullable()
+    .describe("User who submitted the source"),
+});
+
+const facetCountSchema = z.object({
+  value: z.string(),
+  count: z.number().int().describe("Matching recipes with the value"),
+});
+
+/** Response of GET /recipe */
+export const recipeSearchResponseSchema = z.object({
+  results: z.array(
+    z.object({
+      similarity: z.number(),
+      keywordScore: z.number(),
+      finalScore: z.number(),
+      recipe: recipeResponseSchema,
+      sources: z
+        .array(
+          z.object({
+            id: z.number().int(),
+            external_id: z.string(),
+            type: z.string(),
+          }),
+        )
+        .describe("Sources of the recipe and of the duplicates merged into it"),
+    }),
+  ),
+  total: z.number().int().describe("Recipes matching across all pages"),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe("Pass as `cursor` to get the next page, null on the last page"),
+  facets: z
+    .object({
+      tags: z.array(facetCountSchema),
+      cuisines: z.array(facetCountSchema),
+      ingredients: z
+        .array(facetCountSchema)
+        .describe("Main ingredients, seasonings and oils aside"),
+    })
+    .describe("Counts across all matching recipes, most frequent first"),
+});
@@ -1,57 +1,95 @@
-import { youtubeShortsRecipeSchema, type InputRecipeSchema } from "./schema";
-import { eq, and, sql, cosineDistance, desc } from "drizzle-orm";
+import type { EditRecipeSchema, InputRecipeSchema } from "./schema";
+import {
+  eq,
+  and,
+  sql,
+  isNull,
+  gt,
+  asc,
+  count,
+  cosineDistance,
+  desc,
+  inArray,
+  arrayContains,
+  type SQL,
+  type SQLWrapper,
+} from "drizzle-orm";
 import {
   recipe_source_schema,
   recipe_schema,
   embedding_schema,
+  ingredient_schema,
+  collection_recipe_schema,
 } from "../db/schema";
 
-import type { Database } from "../db";
+import type { Database, DbTransaction } from "../db";
 
 import * as RecipeJobService from "./job";
 import * as LlmService from "../llm/service";
-import * as z from "zod";
 import type { AppLogger } from "../logger";
 import {
   RecipeAlreadyExists,
-  RecipeInputValidationFailed,
+  RecipeDeleted,
+  RecipeEditConflict,
+  RecipeRevisionActions,
   type Recipe,
-  type RecipePipelineEventType,
+  type RecipeCourse,
+  type RecipeDifficulty,
+  type RecipeRevision,
+  type RecipeRevisionData,
   type RecipeSource,
-  VideoUnavailable,
-  VideoTranscriptUnavailable,
 } from "./type";
+import * as RecipeRevisionService from "./revision";
+import { getRecipeSources } from "./duplicate";
+import { extractStepDetails, renderStepsMarkdown } from "./steps";
+import { parseQuantity } from "../ingredient/quantity";
+import { estimateNutrition } from "../nutrition/estimate";
+import { escapeRegExp, normalizeIngredientName } from "../ingredient/name";
+import {
+  getIngredientLookup,
+  linkIngredients,
+  resolveIngredientId,
+} from "../ingredient/service";
+import {
+  IngredientCategories,
+  type IngredientCategory,
+  type IngredientLookup,
+} from "../ingredient/type";
 import { ensureDefined } from "../utils";
-import * as YoutubeService from "../youtube/service";
+import * as JobService from "../job/service";
+import type { Job } from "../job/type";
+import { getSourceAdapter } from "../source/registry";
+import type { SourceAvailabilityError, SourceText } from "../source/type";
+import type { User } from "../user/type";
 
 /**
- * Validates input, enforces dedup by (external_id,type), persists a recipe_source,
- * and delegates to the pipeline while streaming each event to the caller.
- * Early‑exit on validation failure or existing recipe.
+ * Enforces dedup by (external_id,type), checks with the source adapter that the
+ * source can be processed, persists a recipe_source and enqueues a job which
+ * runs the recipe pipeline in the background (see job/worker.ts). The input is
+ * validated against the adapter schema before it reaches here (see
+ * recipe/schema.ts). Early‑exit on unavailable source or existing recipe.
+ *
+ * A recipe source without a recipe is the leftover of an earlier run that failed
+ * midway. Instead of creating the source again (which the unique index rejects),
+ * the existing source is reused and the job resumes the pipeline from the step
+ * derived from its stored artifacts, e.g. a stored transcript skips the
+ * availability check. If a job for the source is still pending or running, that job is
+ * returned instead of enqueuing another one. The job records the submitting
+ * user, the recipe it saves is recorded as submitted by them.
  *
  * Few key pieces that are missing here:
- * 1. Determine the start step of recipe pipeline in case it failed earlier due to a recoverable error
- * 2. Currently the pipeline may end up being in a "corrupt" state if a recipe source is created but
- * the recipe is not stored, this is because recipe would not be found for the corresponding source but
- * when the time comes to insert a recipe source it would fail because of the unique index. Few options
- * exist to solve for this, need to brainstorm which one would be ideal
- *   a. Restart the pipeline from desired step, check the corresponding tables to understand on which
- *   step should the pipeline begin from.
- *   b. Delete the recipe source in case of an error and always start the pipeline from scratch.
- * 3. In error cases, currently no information is stored in db (transcript aside). To prevent abuse
+ * 1. In error cases, currently no information is stored in db (transcript aside). To prevent abuse
  * it would be better to either rate limit people or store referenes to failed attempts. Storing
  * references might be tricky since people could still spam and abuse the system.
  */
-export async function* processRecipeFromSource(
+export async function submitRecipeSource(
   schema: InputRecipeSchema,
+  userId: number,
   db: Database,
   logger: AppLogger,
-): AsyncGenerator<
-  | RecipePipelineEventType
-  | RecipeInputValidationFailed
-  | RecipeAlreadyExists
-  | VideoUnavailable
-  | VideoTranscriptUnavailable
+  requestId?: string,
+): Promise<
+  Job | RecipeAlreadyExists | RecipeDeleted | SourceAvailabilityError
 > {
   const sourceType = schema.type;
   const scopedLogger = logger.child({
@@ -59,77 +97,315 @@ export async function* processRecipeFromSource(
     source: sourceType,
   });
 
-  const parsedSource = youtubeShortsRecipeSchema.safeParse(schema.data);
-  if (parsedSource.error) {
-    scopedLogger.warn(
-      {
-        validationIssues: z.prettifyError(parsedSource.error),
-      },
-      "Recipe input validation failed",
-    );
-    yield new RecipeInputValidationFailed(parsedSource.error);
-    return;
-  }
+  const adapter = getSourceAdapter(sourceType);
+  ensureDefined(adapter, `No source adapter registered for '${sourceType}'`);
+  const dedupTypes = adapter.dedupTypes ?? [adapter.type];
 
-  const { id: externalId } = parsedSource.data;
+  const externalId = adapter.getExternalId(schema.data);
   scopedLogger.setBindings({ externalId });
   scopedLogger.info("Processing recipe source");
 
   const existingRecipe = await getRecipeByExternalId(
     externalId,
-    sourceType,
+    dedupTypes,
     db,
   );
+  if (existingRecipe?.deleted_at) {
+    scopedLogger.info(
+      { recipeId: existingRecipe.id, externalId },
+      "Recipe of the source was deleted",
+    );
+    return new RecipeDeleted(existingRecipe.id);
+  }
   if (existingRecipe) {
     scopedLogger.info(
       { recipeId: existingRecipe.id, externalId },
       "Recipe already exists for source",
     );
-    yield new RecipeAlreadyExists(existingRecipe.id);
-    return;
+    return new RecipeAlreadyExists(existingRecipe.id);
   }
 
-  const videoInfo = await YoutubeService.getVideoInfo(externalId).catch(
-    (error) => {
-      scopedLogger.warn({ error }, "Video unavailable or invalid");
-      return null;
-    },
+  const existingSource = await getRecipeSourceByExternalId(
+    externalId,
+    dedupTypes,
+    db,
   );
-  if (!videoInfo) {
-    yield new VideoUnavailable();
-    return;
+  if (existingSource) {
+    const activeJob = await JobService.getActiveJobForSource(
+      existingSource.id,
+      db,
+    );
+    if (activeJob) {
+      scopedLogger.info(
+        { jobId: activeJob.id },
+        "Recipe source is already being processed",
+      );
+      return activeJob;
+    }
   }
 
-  const hasCaptions = (videoInfo.captions?.caption_tracks?.length ?? 0) > 0;
-  if (!hasCaptions) {
-    scopedLogger.info("Video transcript not available");
-    yield new VideoTranscriptUnavailable();
-    return;
+  const resumePoint = existingSource
+    ? await RecipeJobService.getPipelineResumePoint(existingSource, db)
+    : undefined;
+  if (existingSource) {
+    scopedLogger.info(
+      { recipeSourceId: existingSource.id, startFrom: resumePoint?.startFrom },
+      "Found recipe source from an earlier failed run",
+    );
   }
 
-  const recipeSource = await createRecipeSource({
-    type: sourceType,
-    externalId: externalId,
-    db,
+  if (!resumePoint?.transcript) {
+    const availabilityError = await adapter.checkAvailability(
+      schema.data,
+      scopedLogger,
+    );
+    if (availabilityError) {
+      return availabilityError;
+    }
+  }
+
+  /** A new source is saved with its job, so it is never seen without one */
+  const job = await db.transaction(async (txn) => {
+    const recipeSource =
+      existingSource ??
+      (await createRecipeSource({
+        type: sourceType,
+        externalId: externalId,
+        submittedContent: adapter.getSubmittedContent?.(schema.data),
+        txn,
+      }));
+    if (!recipeSource) return null;
+
+    return await JobService.createJob({
+      recipeSourceId: recipeSource.id,
+      userId,
+      requestId,
+      db: txn,
+    });
   });
-  yield *RecipeJobService.processRecipePipeline(recipeSource, db, logger, videoInfo);
+  if (!job) {
+    scopedLogger.info(
+      "Recipe source was submitted concurrently, resubmitting to pick it up",
+    );
+    return await submitRecipeSource(schema, userId, db, logger, requestId);
+  }
+  scopedLogger.info({ jobId: job.id }, "Recipe job enqueued");
+
+  return job;
+}
+
+/** Columns making up a Recipe, shared by every query returning recipes */
+export const recipeColumns = {
+  id: recipe_schema.id,
+  name: recipe_schema.name,
+  instructions: recipe_schema.instructions,
+  steps: recipe_schema.steps,
+  ingredients: recipe_schema.ingredients,
+  tags: recipe_schema.tags,
+  language: recipe_schema.language,
+  original: recipe_schema.original,
+  servings: recipe_schema.servings,
+  yield: recipe_schema.yield,
+  prep_minutes: recipe_schema.prep_minutes,
+  cook_minutes: recipe_schema.cook_minutes,
+  cuisine: recipe_schema.cuisine,
+  course: recipe_schema.course,
+  difficulty: recipe_schema.difficulty,
+  equipment: recipe_schema.equipment,
+  nutrition: recipe_schema.nutrition,
+  canonical_recipe_id: recipe_schema.canonical_recipe_id,
+  submitted_by_user_id: recipe_schema.submitted_by_user_id,
+};
+
+export type RecipeSearchFilters = {
+  cuisine?: string;
+  course?: RecipeCourse;
+  difficulty?: RecipeDifficulty;
+  /** Recipes requiring all of the given equipment */
+  equipment?: string[];
+  /** Upper bound of prep + cook time, recipes without any time are excluded */
+  maxMinutes?: number;
+  /** Recipes tagged with all of the given tags */
+  tags?: string[];
+  /** Recipes using all of the given ingredients */
+  ingredients?: string[];
+  /** Recipes using none of the given ingredients */
+  excludeIngredients?: string[];
+  createdAfter?: Date;
+  /**
+   * Recipes in the collection, duplicates merged since they were added count
+   * as their canonical recipe. Ownership is checked by the caller.
+   */
+  collectionId?: number;
+  /** Lower bound of the finalScore of a result, between 0 and 1 */
+  minScore?: number;
+};
+
+export type RecipeSearchPagination = {
+  limit: number;
+  offset: number;
+};
+
+export type RecipeSearchResult = {
+  similarity: number;
+  keywordScore: number;
+  finalScore: number;
+  recipe: Recipe;
+  /** Sources of the recipe and of the duplicates merged into it */
+  sources: RecipeSource[];
+};
+
+export type RecipeFacetCount = {
+  value: string;
+  /** Number of matching recipes with the value */
+  count: number;
+};
+
+export type RecipeSearchFacets = {
+  tags: RecipeFacetCount[];
+  cuisines: RecipeFacetCount[];
+  /** Main ingredients, by canonical name for ingredients in the catalogue */
+  ingredients: RecipeFacetCount[];
+};
+
+export type RecipeSearchPage = {
+  results: RecipeSearchResult[];
+  /** Number of recipes matching the search across all pages */
+  total: number;
+  /** Cursor of the next page, null on the last one */
+  nextCursor: string | null;
+  /** Counts across all pages, most frequent values first */
+  facets: RecipeSearchFacets;
+};
+
+/** Values per facet at most */
+const FACET_LIMIT = 20;
+
+/** Ingredients which are not counted as main ingredients of a recipe */
+const MINOR_INGREDIENT_CATEGORIES: IngredientCategory[] = [
+  IngredientCategories.spice,
+  IngredientCategories.oil,
+  IngredientCategories.condiment,
+  IngredientCategories.beverage,
+];
+
+/**
+ * Search cursors are opaque to clients, they currently hold the offset of the
+ * next page. Null when the cursor is malformed.
+ */
+export function decodeSearchCursor(cursor: string): number | null {
+  try {
+    const { offset } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8"),
+    );
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+}
+
+export function encodeSearchCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64url");
 }
 
 /**
- * Hybrid search:
- *  finalScore = 0.7 * (1 - cosineDistance(embedding, qEmb))
- *             + 0.3 * ts_rank_cd(name,tags,ingredients)
- * Returns recipes ordered by finalScore.
- *
- * TODO - Need to come up with the final approach here and how much importance
- * should be given to search criteria. This would probably change as time
- * goes by and more data is in the system to better understand the user
- * queries.
- *
- * TODO - Add indexing across the columns being searched. This is a general
- * theme across the codebase, no indexing has been done as of now.
+ * Postgres regular expression matching ingredient names which contain the
+ * given (normalized) name as a word, singular or plural: "egg" matches "eggs"
+ * and "egg yolk" but not "eggplant", "berry" matches "mixed berries".
+ */
+export function ingredientNamePattern(name: string): string {
+  const escaped = escapeRegExp(name);
+  const plural = name.endsWith("y")
+    ? `${escapeRegExp(name.slice(0, -1))}(y|ies)`
+    : `${escaped}(e?s)?`;
+  return String.raw`\m${plural}\M`;
+}
+
+/**
+ * Whether a recipe uses an ingredient: linked to the same catalogue ingredient
+ * (so synonyms match), or with a name containing it, see ingredientNamePattern.
  */
-export async function searchRecipes(query: string, db: Database) {
+function hasIngredient(name: string, lookup: IngredientLookup): SQL {
+  const byName = sql`exists (
+    select 1 from jsonb_array_elements(${recipe_schema.ingredients}) as ingredient
+    where ingredient->>'name' ~* ${ingredientNamePattern(normalizeIngredientName(name))}
+  )`;
+  const ingredientId = resolveIngredientId(name, lookup);
+  if (ingredientId === null) return byName;
+
+  return sql`(${arrayContains(recipe_schema.ingredient_ids, [ingredientId])} or ${byName})`;
+}
+
+/** Recipes which are not deleted or merged into another one as a duplicate */
+export function isCanonicalRecipe(): SQL {
+  return and(
+    isNull(recipe_schema.deleted_at),
+    isNull(recipe_schema.canonical_recipe_id),
+  )!;
+}
+
+export function getSearchConditions(
+  filters: RecipeSearchFilters,
+  lookup: IngredientLookup,
+): SQL[] {
+  const conditions: SQL[] = [isCanonicalRecipe()];
+  if (filters.cuisine) {
+    conditions.push(eq(recipe_schema.cuisine, filters.cuisine.toLowerCase()));
+  }
+  if (filters.course) {
+    conditions.push(eq(recipe_schema.course, filters.course));
+  }
+  if (filters.difficulty) {
+    conditions.push(eq(recipe_schema.difficulty, filters.difficulty));
+  }
+  if (filters.equipment?.length) {
+    conditions.push(
+      arrayContains(
+        recipe_schema.equipment,
+        filters.equipment.map((item) => item.toLowerCase()),
+      ),
+    );
+  }
+  if (filters.maxMinutes !== undefined) {
+    conditions.push(
+      sql`(${recipe_schema.prep_minutes} is not null or ${recipe_schema.cook_minutes} is not null)`,
+      sql`coalesce(${recipe_schema.prep_minutes}, 0) + coalesce(${recipe_schema.cook_minutes}, 0) <= ${filters.maxMinutes}`,
+    );
+  }
+  if (filters.tags?.length) {
+    conditions.push(
+      arrayContains(
+        recipe_schema.tags,
+        filters.tags.map((tag) => tag.toLowerCase()),
+      ),
+    );
+  }
+  for (const ingredient of filters.ingredients ?? []) {
+    conditions.push(hasIngredient(ingredient, lookup));
+  }
+  for (const ingredient of filters.excludeIngredients ?? []) {
+    conditions.push(sql`not ${hasIngredient(ingredient, lookup)}`);
+  }
+  if (filters.createdAfter) {
+    conditions.push(gt(recipe_schema.created_at, filters.createdAfter));
+  }
+  if (filters.collectionId !== undefined) {
+    conditions.push(sql`${recipe_schema.id} in (
+      select coalesce(member.canonical_recipe_id, member.id)
+      from ${collection_recipe_schema}
+      inner join ${recipe_schema} as member on member.id = ${collection_recipe_schema.recipe_id}
+      where ${collection_recipe_schema.collection_id} = ${filters.collectionId}
+    )`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Scores of the hybrid search for a query, to be selected from embeddings
+ * joined with recipes. See searchRecipes.
+ */
+export async function getSearchScores(query: string) {
   const queryEmbeddings = await LlmService.generateQueryEmbedding(query);
 
   const similarity = sql<number>`1 - (${cosineDistance(
@@ -145,63 +421,453 @@ export async function searchRecipes(query: string, db: Database) {
   )`;
 
   const finalScore = sql<number>`(0.7 * ${similarity} + 0.3 * ${keywordScore})`;
-  return await db
+  return { similarity, keywordScore, finalScore };
+}
+
+/**
+ * Hybrid search:
+ *  finalScore = 0.7 * (1 - cosineDistance(embedding, qEmb))
+ *             + 0.3 * ts_rank_cd(name,tags,ingredients)
+ * Returns a page of the recipes matching the filters and scoring at least
+ * `minScore`, ordered by finalScore (ties by recipe id so pages are stable),
+ * along with the total count. Deleted recipes are left out, as are duplicates
+ * merged into another recipe, whose sources are listed with that recipe.
+ *
+ * TODO - Need to come up with the final approach here and how much importance
+ * should be given to search criteria. This would probably change as time
+ * goes by and more data is in the system to better understand the user
+ * queries.
+ *
+ * TODO - Add indexing across the columns being searched. This is a general
+ * theme across the codebase, no indexing has been done as of now.
+ */
+export async function searchRecipes(
+  query: string,
+  filters: RecipeSearchFilters,
+  pagination: RecipeSearchPagination,
+  db: Database,
+): Promise<RecipeSearchPage> {
+  const { similarity, keywordScore, finalScore } = await getSearchScores(query);
+  const conditions = getSearchConditions(
+    filters,
+    await getIngredientLookup(db),
+  );
+  if (filters.minScore !== undefined) {
+    conditions.push(sql`${finalScore} >= ${filters.minScore}`);
+  }
+
+  const matches = db
     .select({
-      similarity,
-      keywordScore,
-      finalScore,
-      recipe: {
-        id: recipe_schema.id,
-        name: recipe_schema.name,
-        instructions: recipe_schema.instructions,
-        ingredients: recipe_schema.ingredients,
-        tags: recipe_schema.tags,
-      },
+      id: recipe_schema.id,
+      tags: recipe_schema.tags,
+      cuisine: recipe_schema.cuisine,
+      ingredients: recipe_schema.ingredients,
     })
     .from(embedding_schema)
     .innerJoin(recipe_schema, eq(embedding_schema.recipe_id, recipe_schema.id))
-    .orderBy(desc(finalScore));
+    .where(and(...conditions));
+
+  const [results, summary] = await Promise.all([
+    db
+      .select({
+        similarity,
+        keywordScore,
+        finalScore,
+        recipe: recipeColumns,
+      })
+      .from(embedding_schema)
+      .innerJoin(
+        recipe_schema,
+        eq(embedding_schema.recipe_id, recipe_schema.id),
+      )
+      .where(and(...conditions))
+      .orderBy(desc(finalScore), asc(recipe_schema.id))
+      .limit(pagination.limit)
+      .offset(pagination.offset),
+    getSearchSummary(matches, db),
+  ]);
+
+  const sources = await getRecipeSources(
+    results.map((result) => result.recipe.id),
+    db,
+  );
+  const nextOffset = pagination.offset + results.length;
+  return {
+    results: results.map((result) => ({
+      ...result,
+      sources: sources.get(result.recipe.id) ?? [],
+    })),
+    total: summary.total,
+    nextCursor:
+      results.length === pagination.limit && nextOffset < summary.total
+        ? encodeSearchCursor(nextOffset)
+        : null,
+    facets: summary.facets,
+  };
 }
 
+/**
+ * Total count and facet counts of every recipe matching a search, in a single
+ * query over the matching recipes. Main ingredients are counted by the
+ * catalogue ingredient they are linked to (by name when they are not), leaving
+ * out seasonings and the like which nearly every recipe uses.
+ */
+async function getSearchSummary(
+  matches: SQLWrapper,
+  db: Database,
+): Promise<{ total: number; facets: RecipeSearchFacets }> {
+  const ingredientName = sql`coalesce(${ingredient_schema.name}, ingredient->>'name')`;
+  const { rows } = await db.execute<{
+    total: number;
+    tags: RecipeFacetCount[];
+    cuisines: RecipeFacetCount[];
+    ingredients: RecipeFacetCount[];
+  }>(sql`
+    with matches as (${matches})
+    select
+      (select count(*)::integer from matches) as total,
+      (
+        select coalesce(json_agg(facet), '[]'::json) from (
+          select tag as value, count(*)::integer as count
+          from matches, unnest(matches.tags) as tag
+          group by tag
+          order by count desc, tag
+          limit ${FACET_LIMIT}
+        ) as facet
+      ) as tags,
+      (
+        select coalesce(json_agg(facet), '[]'::json) from (
+          select cuisine as value, count(*)::integer as count
+          from matches
+          where cuisine is not null
+          group by cuisine
+          order by count desc, cuisine
+          limit ${FACET_LIMIT}
+        ) as facet
+      ) as cuisines,
+      (
+        select coalesce(json_agg(facet), '[]'::json) from (
+          select ${ingredientName} as value, count(distinct matches.id)::integer as count
+          from matches
+          cross join jsonb_array_elements(matches.ingredients) as ingredient
+          left join ${ingredient_schema}
+            on ${ingredient_schema.id} = (ingredient->>'ingredientId')::integer
+          where ${ingredient_schema.category} is null
+            or ${ingredient_schema.category} not in (${sql.join(
+              MINOR_INGREDIENT_CATEGORIES.map((category) => sql`${category}`),
+              sql`, `,
+            )})
+          group by ${ingredientName}
+          order by count desc, value
+          limit ${FACET_LIMIT}
+        ) as facet
+      ) as ingredients
+  `);
+
+  const [summary] = rows;
+  ensureDefined(summary, "Failed to summarize the search");
+  const { total, ...facets } = summary;
+  return { total, facets };
+}
+
+export type TagCount = {
+  tag: string;
+  /** Number of recipes tagged with it, deleted and merged ones aside */
+  count: number;
+};
+
+/** Tags of the recipes, most used first, optionally only those with a prefix */
+export async function listTags(
+  filters: { prefix?: string; limit: number },
+  db: Database,
+): Promise<TagCount[]> {
+  const tag = sql<string>`tag`;
+  const conditions: SQL[] = [isCanonicalRecipe()];
+  if (filters.prefix) {
+    conditions.push(sql`starts_with(${tag}, ${filters.prefix.toLowerCase()})`);
+  }
+
+  return await db
+    .select({ tag, count: sql<number>`count(*)::integer` })
+    .from(sql`${recipe_schema}, unnest(${recipe_schema.tags}) as tag`)
+    .where(and(...conditions))
+    .groupBy(tag)
+    .orderBy(sql`count(*) desc`, tag)
+    .limit(filters.limit);
+}
+
+/** Deleted recipes are not found */
 export async function getRecipeById(
   recipeId: number,
-  db: Database,
+  db: Database | DbTransaction,
+  options: { forUpdate?: boolean } = {},
 ): Promise<Recipe | null> {
-  const [recipe] = await db
-    .select({
-      id: recipe_schema.id,
-      name: recipe_schema.name,
-      instructions: recipe_schema.instructions,
-      ingredients: recipe_schema.ingredients,
-      tags: recipe_schema.tags,
-    })
+  const query = db
+    .select(recipeColumns)
     .from(recipe_schema)
-    .where(eq(recipe_schema.id, recipeId));
+    .where(
+      and(eq(recipe_schema.id, recipeId), isNull(recipe_schema.deleted_at)),
+    );
+  const [recipe] = await (options.forUpdate ? query.for("update") : query);
 
   if (!recipe) return null;
   return recipe;
 }
 
+/**
+ * Applies an edit to the editable fields of a recipe. Values are normalized the
+ * way parsed recipes are (lower case names, parsed quantities, deduplicated
+ * lists) and steps only reference ingredients the recipe still has.
+ */
+function applyRecipeEdit(
+  current: RecipeRevisionData,
+  edit: EditRecipeSchema,
+): RecipeRevisionData {
+  const ingredients = edit.ingredients
+    ? Array.from(
+        new Map(
+          edit.ingredients.map((ingredient) => {
+            const name = ingredient.name.toLowerCase();
+            return [name, { name, ...parseQuantity(ingredient.quantity) }];
+          }),
+        ).values(),
+      )
+    : current.ingredients;
+  const ingredientNames = ingredients.map((ingredient) => ingredient.name);
+
+  const steps = (
+    edit.steps?.map((step) => {
+      const text = typeof step === "string" ? step : step.text;
+      const details = extractStepDetails(text, ingredientNames);
+      if (typeof step === "string") return { text, ...details };
+
+      return {
+        text,
+        durationMinutes:
+          step.durationMinutes === undefined
+            ? details.durationMinutes
+            : step.durationMinutes,
+        temperature:
+          step.temperature === undefined
+            ? details.temperature
+            : step.temperature,
+        ingredients:
+          step.ingredients?.map((name) => name.toLowerCase()) ??
+          details.ingredients,
+      };
+    }) ?? current.steps
+  ).map((step) => ({
+    ...step,
+    ingredients: Array.from(new Set(step.ingredients)).filter((name) =>
+      ingredientNames.includes(name),
+    ),
+  }));
+
+  const lowerCaseList = (values: string[] | undefined, fallback: string[]) =>
+    values
+      ? Array.from(new Set(values.map((value) => value.toLowerCase())))
+      : fallback;
+
+  return {
+    name: edit.name?.toLowerCase() ?? current.name,
+    instructions: renderStepsMarkdown(steps),
+    steps,
+    ingredients,
+    tags: lowerCaseList(edit.tags, current.tags),
+    servings: edit.servings === undefined ? current.servings : edit.servings,
+    yield: edit.yield === undefined ? current.yield : edit.yield,
+    prep_minutes:
+      edit.prep_minutes === undefined
+        ? current.prep_minutes
+        : edit.prep_minutes,
+    cook_minutes:
+      edit.cook_minutes === undefined
+        ? current.cook_minutes
+        : edit.cook_minutes,
+    cuisine:
+      edit.cuisine === undefined
+        ? current.cuisine
+        : (edit.cuisine?.toLowerCase() ?? null),
+    course: edit.course === undefined ? current.course : edit.course,
+    difficulty:
+      edit.difficulty === undefined ? current.difficulty : edit.difficulty,
+    equipment: lowerCaseList(edit.equipment, current.equipment),
+  };
+}
+
+/**
+ * Edits a recipe and records the edit as a new revision. The embedding is
+ * generated again when a field it is built from changed, and the nutrition is
+ * estimated again from the edited ingredients and servings. Edited ingredients
+ * are linked to the ingredient catalogue again. The translated `original` is
+ * left as is, it is what the source said.
+ *
+ * The embedding is generated before the transaction so the recipe row is not
+ * locked during the LLM call; should another edit be stored in the meantime the
+ * edit is rejected with a conflict instead of overwriting it.
+ */
+export async function updateRecipe(
+  recipeId: number,
+  edit: EditRecipeSchema,
+  author: Pick<User, "id" | "name">,
+  db: Database,
+  logger: AppLogger,
+): Promise<Recipe | null | RecipeEditConflict> {
+  const scopedLogger = logger.child({ scope: "recipe-service", recipeId });
+
+  const current = await getRecipeById(recipeId, db);
+  if (!current) return null;
+  const revision = await RecipeRevisionService.getLatestRevisionNumber(
+    recipeId,
+    db,
+  );
+
+  const edited = applyRecipeEdit(current, edit);
+  const linked = edit.ingredients
+    ? linkIngredients(edited.ingredients, await getIngredientLookup(db))
+    : undefined;
+  const data = linked ? { ...edited, ingredients: linked.ingredients } : edited;
+  const changes = RecipeRevisionService.diffRevisionData(current, data);
+  if (!changes.length) {
+    scopedLogger.info("Recipe edit does not change anything");
+    return current;
+  }
+
+  const embeddedFields = ["name", "steps", "ingredients", "tags"];
+  const embeddings = changes.some((change) =>
+    embeddedFields.includes(change.field),
+  )
+    ? await LlmService.generateRecipeEmbedding(data)
+    : undefined;
+
+  return await db.transaction(async (txn) => {
+    const locked = await getRecipeById(recipeId, txn, { forUpdate: true });
+    if (!locked) return null;
+    if (
+      (await RecipeRevisionService.getLatestRevisionNumber(recipeId, txn)) !==
+      revision
+    ) {
+      scopedLogger.info("Recipe was edited concurrently");
+      return new RecipeEditConflict(recipeId);
+    }
+
+    await txn
+      .update(recipe_schema)
+      .set({
+        ...data,
+        ...(linked && { ingredient_ids: linked.ingredientIds }),
+        nutrition: estimateNutrition(data.ingredients, data.servings),
+      })
+      .where(eq(recipe_schema.id, recipeId));
+    if (embeddings) {
+      await txn
+        .update(embedding_schema)
+        .set({ data: embeddings })
+        .where(
+          and(
+            eq(embedding_schema.recipe_id, recipeId),
+            eq(embedding_schema.type, "text"),
+          ),
+        );
+    }
+    await RecipeRevisionService.insertRevision(
+      {
+        recipeId,
+        revision: revision + 1,
+        action: RecipeRevisionActions.updated,
+        author,
+        data,
+      },
+      txn,
+    );
+    scopedLogger.info(
+      {
+        revision: revision + 1,
+        fields: changes.map((change) => change.field),
+        reembedded: Boolean(embeddings),
+      },
+      "Recipe updated",
+    );
+
+    const updated = await getRecipeById(recipeId, txn);
+    ensureDefined(updated, "Failed to read the updated recipe");
+    return updated;
+  });
+}
+
+/**
+ * Soft deletes a recipe: it is no longer found or searched, while the row and
+ * its revisions stay, with the deletion recorded as the last revision.
+ */
+export async function deleteRecipe(
+  recipeId: number,
+  author: Pick<User, "id" | "name">,
+  db: Database,
+  logger: AppLogger,
+): Promise<boolean> {
+  return await db.transaction(async (txn) => {
+    const recipe = await getRecipeById(recipeId, txn, { forUpdate: true });
+    if (!recipe) return false;
+
+    const revision = await RecipeRevisionService.getLatestRevisionNumber(
+      recipeId,
+      txn,
+    );
+    await txn
+      .update(recipe_schema)
+      .set({ deleted_at: sql`now()` })
+      .where(eq(recipe_schema.id, recipeId));
+    await RecipeRevisionService.insertRevision(
+      {
+        recipeId,
+        revision: revision + 1,
+        action: RecipeRevisionActions.deleted,
+        author,
+        data: recipe,
+      },
+      txn,
+    );
+    logger.info(
+      { scope: "recipe-service", recipeId, revision: revision + 1 },
+      "Recipe deleted",
+    );
+
+    return true;
+  });
+}
+
+/**
+ * Revisions of a recipe, including deleted ones so their history stays
+ * available. Null when there is no such recipe.
+ */
+export async function getRecipeRevisions(
+  recipeId: number,
+  db: Database,
+): Promise<RecipeRevision[] | null> {
+  const [recipe] = await db
+    .select({ id: recipe_schema.id })
+    .from(recipe_schema)
+    .where(eq(recipe_schema.id, recipeId));
+  if (!recipe) return null;
+
+  return await RecipeRevisionService.getRecipeRevisions(recipeId, db);
+}
+
+/** Deleted recipes included, with the time they were deleted */
 async function getRecipeByExternalId(
   externalId: string,
-  type: string,
+  types: string[],
   db: Database,
-): Promise<Recipe | null> {
+): Promise<{ id: number; deleted_at: Date | null } | null> {
   const [recipe] = await db
-    .select({
-      id: recipe_schema.id,
-      name: recipe_schema.name,
-      instructions: recipe_schema.instructions,
-      tags: recipe_schema.tags,
-      ingredients: recipe_schema.ingredients,
-    })
+    .select({ id: recipe_schema.id, deleted_at: recipe_schema.deleted_at })
     .from(recipe_schema)
     .innerJoin(
       recipe_source_schema,
       and(
         eq(recipe_schema.recipe_source_id, recipe_source_schema.id),
         eq(recipe_source_schema.external_id, externalId),
-        eq(recipe_source_schema.type, type),
+        inArray(recipe_source_schema.type, types),
       ),
     );
 
@@ -209,23 +875,81 @@ async function getRecipeByExternalId(
   return recipe;
 }
 
+export async function getRecipeSourceById(
+  recipeSourceId: number,
+  db: Database,
+): Promise<RecipeSource | null> {
+  const [recipeSource] = await db
+    .select({
+      id: recipe_source_schema.id,
+      external_id: recipe_source_schema.external_id,
+      type: recipe_source_schema.type,
+    })
+    .from(recipe_source_schema)
+    .where(eq(recipe_source_schema.id, recipeSourceId));
+
+  if (!recipeSource) return null;
+  return recipeSource;
+}
+
+async function getRecipeSourceByExternalId(
+  externalId: string,
+  types: string[],
+  db: Database,
+): Promise<RecipeSource | null> {
+  const [recipeSource] = await db
+    .select({
+      id: recipe_source_schema.id,
+      external_id: recipe_source_schema.external_id,
+      type: recipe_source_schema.type,
+    })
+    .from(recipe_source_schema)
+    .where(
+      and(
+        eq(recipe_source_schema.external_id, externalId),
+        inArray(recipe_source_schema.type, types),
+      ),
+    );
+
+  if (!recipeSource) return null;
+  return recipeSource;
+}
+
+/**
+ * Content submitted along with the source (e.g. pasted text) is stored as the
+ * transcript of the source in the same transaction, which makes the pipeline
+ * start straight from the recipe step. Null when the source was saved by a
+ * concurrent submission in the meantime.
+ */
 async function createRecipeSource(params: {
   type: string;
   externalId: string;
-  db: Database;
-}): Promise<RecipeSource> {
-  const [recipeSource] = await params.db
+  submittedContent?: SourceText;
+  txn: DbTransaction;
+}): Promise<RecipeSource | null> {
+  const [recipeSource] = await params.txn
     .insert(recipe_source_schema)
     .values({
       type: params.type,
       external_id: params.externalId,
     })
+    .onConflictDoNothing({
+      target: [recipe_source_schema.external_id, recipe_source_schema.type],
+    })
     .returning({
       id: recipe_source_schema.id,
       external_id: recipe_source_schema.external_id,
       type: recipe_source_schema.type,
     });
-  ensureDefined(recipeSource, "Failed to persist recipe source");
+  if (!recipeSource) return null;
+
+  if (params.submittedContent !== undefined) {
+    await RecipeJobService.saveTranscript(
+      recipeSource.id,
+      params.submittedContent,
+      params.txn,
+    );
+  }
 
   return recipeSource;
 }
@@ -0,0 +1,147 @@
+/**
+ * "More like this": nearest neighbours of a recipe by its stored embedding, so
+ * no embedding has to be generated. Neighbours can be diversified with maximal
+ * marginal relevance (MMR), which trades similarity to the recipe against
+ * similarity to the neighbours already picked.
+ */
+
+import { and, asc, cosineDistance, eq, isNull, ne, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { embedding_schema, recipe_schema } from "../db/schema";
+import {
+  getSearchConditions,
+  recipeColumns,
+  type RecipeSearchFilters,
+} from "./service";
+import type { Recipe } from "./type";
+import { getIngredientLookup } from "../ingredient/service";
+
+/** Candidates considered per result when diversifying */
+const CANDIDATES_PER_RESULT = 4;
+
+export type SimilarRecipeFilters = Pick<
+  RecipeSearchFilters,
+  "tags" | "ingredients" | "excludeIngredients"
+>;
+
+export type SimilarRecipeOptions = {
+  limit: number;
+  /**
+   * Between 0 (nearest neighbours only) and 1 (as different from each other as
+   * possible), see pickDiverse.
+   */
+  diversity: number;
+};
+
+export type SimilarRecipe = {
+  /** Cosine similarity of the embeddings */
+  similarity: number;
+  recipe: Recipe;
+};
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index++) {
+    dot += a[index]! * b[index]!;
+    normA += a[index]! ** 2;
+    normB += b[index]! ** 2;
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Greedy MMR: picks the candidate maximizing
+ *  (1 - diversity) * similarity - diversity * max similarity to the picked ones
+ * until `limit` candidates are picked. Candidates are ordered by similarity.
+ */
+function pickDiverse<T extends { similarity: number; embedding: number[] }>(
+  candidates: T[],
+  limit: number,
+  diversity: number,
+): T[] {
+  const picked: T[] = [];
+  const remaining = [...candidates];
+
+  while (picked.length < limit && remaining.length) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    for (const [index, candidate] of remaining.entries()) {
+      const redundancy = Math.max(
+        0,
+        ...picked.map((other) =>
+          cosineSimilarity(candidate.embedding, other.embedding),
+        ),
+      );
+      const score =
+        (1 - diversity) * candidate.similarity - diversity * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    }
+
+    picked.push(...remaining.splice(bestIndex, 1));
+  }
+
+  return picked;
+}
+
+/**
+ * Recipes closest to the given one, itself and deleted recipes excluded. Null
+ * when the recipe does not exist or has no embedding.
+ */
+export async function getSimilarRecipes(
+  recipeId: number,
+  filters: SimilarRecipeFilters,
+  options: SimilarRecipeOptions,
+  db: Database,
+): Promise<SimilarRecipe[] | null> {
+  const [source] = await db
+    .select({ embedding: embedding_schema.data })
+    .from(embedding_schema)
+    .innerJoin(recipe_schema, eq(embedding_schema.recipe_id, recipe_schema.id))
+    .where(
+      and(
+        eq(embedding_schema.recipe_id, recipeId),
+        eq(embedding_schema.type, "text"),
+        isNull(recipe_schema.deleted_at),
+      ),
+    )
+    .limit(1);
+  if (!source?.embedding) return null;
+
+  const distance = cosineDistance(embedding_schema.data, source.embedding);
+  const candidates = await db
+    .select({
+      similarity: sql<number>`1 - (${distance})`,
+      embedding: embedding_schema.data,
+      recipe: recipeColumns,
+    })
+    .from(embedding_schema)
+    .innerJoin(recipe_schema, eq(embedding_schema.recipe_id, recipe_schema.id))
+    .where(
+      and(
+        ne(recipe_schema.id, recipeId),
+        eq(embedding_schema.type, "text"),
+        ...getSearchConditions(filters, await getIngredientLookup(db)),
+      ),
+    )
+    .orderBy(asc(distance), asc(recipe_schema.id))
+    .limit(
+      options.diversity > 0
+        ? options.limit * CANDIDATES_PER_RESULT
+        : options.limit,
+    );
+
+  return pickDiverse(
+    candidates.map((candidate) => ({
+      ...candidate,
+      embedding: candidate.embedding ?? [],
+    })),
+    options.limit,
+    options.diversity,
+  ).map(({ similarity, recipe }) => ({ similarity, recipe }));
+}
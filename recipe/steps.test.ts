@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { extractStepDetails, renderStepsMarkdown } from "./steps";
+
+describe("renderStepsMarkdown", () => {
+  test("numbers the steps", () => {
+    expect(renderStepsMarkdown([{ text: "Mix." }, { text: "Bake." }])).toBe(
+      "1. Mix.\n2. Bake.",
+    );
+  });
+});
+
+describe("extractStepDetails", () => {
+  test("adds up durations, using the upper bound of ranges", () => {
+    expect(
+      extractStepDetails("Bake for 1 hour 30 minutes, then rest 5-10 mins.", [])
+        .durationMinutes,
+    ).toBe(100);
+    expect(
+      extractStepDetails("Whisk for 90 seconds.", []).durationMinutes,
+    ).toBe(1.5);
+    expect(extractStepDetails("Season well.", []).durationMinutes).toBeNull();
+  });
+
+  test("reads the temperature", () => {
+    expect(extractStepDetails("Preheat to 180°C.", []).temperature).toEqual({
+      value: 180,
+      unit: "C",
+    });
+    expect(
+      extractStepDetails("Bake at 350 degrees f.", []).temperature,
+    ).toEqual({ value: 350, unit: "F" });
+    expect(extractStepDetails("Serve warm.", []).temperature).toBeNull();
+  });
+
+  test("finds the ingredients used", () => {
+    expect(
+      extractStepDetails("Rub the Butter into the flour.", [
+        "butter",
+        "flour",
+        "salt",
+      ]).ingredients,
+    ).toEqual(["butter", "flour"]);
+  });
+});
@@ -0,0 +1,49 @@
+import type { RecipeStep, TemperatureUnit } from "./type";
+
+/**
+ * Renders steps as the numbered markdown list recipes had as `instructions`
+ * before they were structured.
+ */
+export function renderStepsMarkdown(steps: Pick<RecipeStep, "text">[]): string {
+  return steps.map((step, index) => `${index + 1}. ${step.text}`).join("\n");
+}
+
+const DURATION =
+  /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|minutes?|mins?|seconds?|secs?)\b/gi;
+const TEMPERATURE = /(\d{2,3})\s*(?:°|º|degrees?)\s*([CF])\b/i;
+
+/**
+ * Reads the duration, temperature and used ingredients out of the text of a
+ * step, for recipes which are not parsed by the LLM (e.g. JSON-LD). Durations
+ * stated in several parts ("1 hour 30 minutes") are added up, ranges use their
+ * upper bound.
+ */
+export function extractStepDetails(
+  text: string,
+  ingredientNames: string[],
+): Omit<RecipeStep, "text"> {
+  let minutes = 0;
+  for (const match of text.matchAll(DURATION)) {
+    const value = Number(match[2] ?? match[1]);
+    const unit = match[3]!.toLowerCase();
+    minutes += unit.startsWith("h")
+      ? value * 60
+      : unit.startsWith("s")
+        ? value / 60
+        : value;
+  }
+
+  const temperature = TEMPERATURE.exec(text);
+  const lowerText = text.toLowerCase();
+
+  return {
+    durationMinutes: minutes > 0 ? Math.round(minutes * 100) / 100 : null,
+    temperature: temperature
+      ? {
+          value: Number(temperature[1]),
+          unit: temperature[2]!.toUpperCase() as TemperatureUnit,
+        }
+      : null,
+    ingredients: ingredientNames.filter((name) => lowerText.includes(name)),
+  };
+}
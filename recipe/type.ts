@@ -1,8 +1,11 @@
 import * as z from "zod";
+import type { CaptionCue } from "../caption/parser";
+import type { IngredientQuantity } from "../ingredient/quantity";
 import type { ParsedRecipeLlm } from "../llm/schema";
+import type { RecipeNutrition } from "../nutrition/type";
 import type { Database } from "../db";
 import type { AppLogger } from "../logger";
-import type { InnertubeVideoInfo } from "../youtube/service";
+import type { AnyRecipeSourceAdapter } from "../source/type";
 
 export type RecipeSource = {
   id: number;
@@ -12,11 +15,41 @@ export type RecipeSource = {
 
 export type PipelineContext = {
   recipeSource: RecipeSource;
+  /** User the saved recipe is recorded as submitted by */
+  submittedByUserId: number | null;
+  adapter: AnyRecipeSourceAdapter;
   db: Database;
   logger: AppLogger;
-  videoInfo: InnertubeVideoInfo;
+  /** Adapter specific content of the source, e.g. the YouTube video info */
+  sourceContent?: unknown;
   transcript?: string;
+  /** Language of the transcript as reported by the source */
+  transcriptLanguage?: string;
+  /** Recipe in English, which is what search and embeddings work on */
   recipe?: ParsedRecipeLlm;
+  /** Recipe in the language of the source, when that is not English */
+  originalRecipe?: ParsedRecipeLlm;
+};
+
+/**
+ * Describes where a pipeline should (re)start for a recipe source along with
+ * the artifacts restored from earlier runs, so completed steps are not repeated.
+ */
+export type PipelineResumePoint = {
+  startFrom: number;
+  transcript?: string;
+  transcriptLanguage?: string;
+};
+
+export type ContentItemData = {
+  type: "string";
+  content: string;
+  /** What the content was extracted from, see SourceText */
+  input?: string;
+  /** Language code of the content, see SourceText */
+  language?: string;
+  /** Timed segments of the content, see SourceText */
+  segments?: CaptionCue[];
 };
 
 export type PipelineStep = (
@@ -25,15 +58,140 @@ export type PipelineStep = (
 
 export type Ingredient = {
   name: string;
-  quantity: string | null;
+  /** Catalogue ingredient the name was normalized to, see ingredient/service.ts */
+  ingredientId?: number | null;
+} & IngredientQuantity;
+
+export const TemperatureUnits = {
+  celsius: "C",
+  fahrenheit: "F",
+} as const;
+
+export type TemperatureUnit =
+  (typeof TemperatureUnits)[keyof typeof TemperatureUnits];
+
+export type RecipeStep = {
+  text: string;
+  /** How long the step takes when the recipe states it, used for timers */
+  durationMinutes: number | null;
+  temperature: { value: number; unit: TemperatureUnit } | null;
+  /** Names of the recipe ingredients used in the step */
+  ingredients: string[];
+};
+
+export const RecipeCourses = {
+  breakfast: "breakfast",
+  appetizer: "appetizer",
+  main: "main",
+  side: "side",
+  soup: "soup",
+  salad: "salad",
+  dessert: "dessert",
+  snack: "snack",
+  drink: "drink",
+  sauce: "sauce",
+  bread: "bread",
+} as const;
+
+export type RecipeCourse = (typeof RecipeCourses)[keyof typeof RecipeCourses];
+
+export const RecipeDifficulties = {
+  easy: "easy",
+  medium: "medium",
+  hard: "hard",
+} as const;
+
+export type RecipeDifficulty =
+  (typeof RecipeDifficulties)[keyof typeof RecipeDifficulties];
+
+/** Recipe as written in the language of its source */
+export type OriginalRecipe = {
+  name: string;
+  /** Markdown rendering of the steps */
+  instructions: string;
+  steps: RecipeStep[];
+  tags: string[];
+  ingredients: Ingredient[];
 };
 
 export type Recipe = {
   id: number;
   name: string;
+  /** Markdown rendering of the steps, kept for clients predating the steps */
   instructions: string;
+  steps: RecipeStep[];
   tags: string[];
   ingredients: Ingredient[];
+  /** Language code of the source, null when it could not be determined */
+  language: string | null;
+  /** The recipe in the source language, null for English sources */
+  original: OriginalRecipe | null;
+  /** Number of servings the amounts are for */
+  servings: number | null;
+  /** What the recipe makes when it is not counted in servings, e.g. "24 cookies" */
+  yield: string | null;
+  prep_minutes: number | null;
+  cook_minutes: number | null;
+  cuisine: string | null;
+  course: RecipeCourse | null;
+  difficulty: RecipeDifficulty | null;
+  /** Equipment the recipe cannot be made without, e.g. "air fryer" */
+  equipment: string[];
+  /** Null for recipes stored before nutrition was estimated */
+  nutrition: RecipeNutrition | null;
+  /** Recipe this one was merged into as a duplicate, null for canonical recipes */
+  canonical_recipe_id: number | null;
+  /** Null for recipes submitted before users existed */
+  submitted_by_user_id: number | null;
+};
+
+/** Recipe fields which can be edited, each revision stores a snapshot of them */
+export type RecipeRevisionData = Pick<
+  Recipe,
+  | "name"
+  | "instructions"
+  | "steps"
+  | "ingredients"
+  | "tags"
+  | "servings"
+  | "yield"
+  | "prep_minutes"
+  | "cook_minutes"
+  | "cuisine"
+  | "course"
+  | "difficulty"
+  | "equipment"
+>;
+
+export const RecipeRevisionActions = {
+  created: "created",
+  updated: "updated",
+  deleted: "deleted",
+} as const;
+
+export type RecipeRevisionAction =
+  (typeof RecipeRevisionActions)[keyof typeof RecipeRevisionActions];
+
+export type RecipeFieldChange = {
+  field: keyof RecipeRevisionData;
+  before: unknown;
+  after: unknown;
+};
+
+export type RecipeRevision = {
+  id: number;
+  recipe_id: number;
+  /** Sequence number of the revision within the recipe, starting at 1 */
+  revision: number;
+  action: RecipeRevisionAction;
+  /** Name of who made the change, null for revisions made by the pipeline */
+  author: string | null;
+  /** User who made the change, null for the pipeline and older revisions */
+  author_user_id: number | null;
+  data: RecipeRevisionData;
+  /** Fields changed compared to the previous revision */
+  changes: RecipeFieldChange[];
+  created_at: Date;
 };
 
 export const RecipePipelineEventTypes = {
@@ -118,6 +276,21 @@ export class RecipeAlreadyExists extends Error {
   }
 }
 
+/** The recipe of a source was deleted, the source is not processed again */
+export class RecipeDeleted extends Error {
+  public readonly type = "recipeDeleted";
+  public readonly uri = "https://tastebase.dev/http-errors/recipe-deleted";
+  public readonly recipeId: number;
+  constructor(
+    recipeId: number,
+    params?: { message?: string; options?: ErrorOptions },
+  ) {
+    super(params?.message ?? "Recipe was deleted", params?.options);
+    this.recipeId = recipeId;
+    this.name = "RecipeDeleted";
+  }
+}
+
 export class RecipeInputValidationFailed extends Error {
   public readonly type = "recipeInputValidationFailed";
   public readonly uri =
@@ -155,6 +328,98 @@ export class VideoTranscriptUnavailable extends Error {
   }
 }
 
+export class SourceUnavailable extends Error {
+  public readonly type = "sourceUnavailable";
+  public readonly uri = "https://tastebase.dev/http-errors/source-unavailable";
+  constructor(params?: { message?: string; options?: ErrorOptions }) {
+    super(
+      params?.message ?? "The referenced source is unavailable",
+      params?.options,
+    );
+    this.name = "SourceUnavailable";
+  }
+}
+
+export class RecipeServingsUnknown extends Error {
+  public readonly type = "recipeServingsUnknown";
+  public readonly uri =
+    "https://tastebase.dev/http-errors/recipe-servings-unknown";
+  public readonly recipeId: number;
+  constructor(
+    recipeId: number,
+    params?: { message?: string; options?: ErrorOptions },
+  ) {
+    super(
+      params?.message ??
+        "The recipe does not state how many servings it makes, scale it with a factor instead",
+      params?.options,
+    );
+    this.recipeId = recipeId;
+    this.name = "RecipeServingsUnknown";
+  }
+}
+
+export const RecipeDuplicateStatuses = {
+  pending: "pending",
+  merged: "merged",
+  dismissed: "dismissed",
+} as const;
+
+export type RecipeDuplicateStatus =
+  (typeof RecipeDuplicateStatuses)[keyof typeof RecipeDuplicateStatuses];
+
+export type RecipeDuplicate = {
+  id: number;
+  /** The recipe saved later, with the name of each recipe for reviewing */
+  recipe: { id: number; name: string };
+  duplicate_of: { id: number; name: string };
+  /** Cosine similarity of the embeddings */
+  similarity: number;
+  /** Share of the ingredients the recipes have in common, between 0 and 1 */
+  ingredient_overlap: number;
+  status: RecipeDuplicateStatus;
+  created_at: Date;
+  resolved_at: Date | null;
+};
+
+export class RecipeDuplicateResolved extends Error {
+  public readonly type = "recipeDuplicateResolved";
+  public readonly uri =
+    "https://tastebase.dev/http-errors/recipe-duplicate-resolved";
+  public readonly duplicateId: number;
+  constructor(
+    duplicateId: number,
+    params?: { message?: string; options?: ErrorOptions },
+  ) {
+    super(
+      params?.message ??
+        "The duplicate was already merged or dismissed, or one of its recipes is gone",
+      params?.options,
+    );
+    this.duplicateId = duplicateId;
+    this.name = "RecipeDuplicateResolved";
+  }
+}
+
+export class RecipeEditConflict extends Error {
+  public readonly type = "recipeEditConflict";
+  public readonly uri =
+    "https://tastebase.dev/http-errors/recipe-edit-conflict";
+  public readonly recipeId: number;
+  constructor(
+    recipeId: number,
+    params?: { message?: string; options?: ErrorOptions },
+  ) {
+    super(
+      params?.message ??
+        "The recipe was changed by another edit in the meantime, fetch it and try again",
+      params?.options,
+    );
+    this.recipeId = recipeId;
+    this.name = "RecipeEditConflict";
+  }
+}
+
 export type RecipePipelineSuccessEvent =
   | TranscriptGenerated
   | RecipeGenerated
@@ -0,0 +1,74 @@
+/**
+ * Parses the quantity text of the ingredients of every stored recipe (and of
+ * its original, for translated recipes) into amounts, units, qualifiers and
+ * preparations. Recipes are only updated when the parsed fields change, so the
+ * command can be re-run safely, e.g. after the quantity parser is improved.
+ *
+ * Usage: bun run recipes:backfill-quantities [--dry-run]
+ */
+
+import { asc, eq, gt } from "drizzle-orm";
+import { dbClient } from "../db";
+import { recipe_schema } from "../db/schema";
+import { parseQuantity } from "../ingredient/quantity";
+import { baseLogger } from "../logger";
+import type { Ingredient } from "../recipe/type";
+
+const BATCH_SIZE = 100;
+
+function reparse(ingredients: Ingredient[]): Ingredient[] {
+  return ingredients.map((ingredient) => ({
+    name: ingredient.name,
+    ...parseQuantity(ingredient.quantity),
+  }));
+}
+
+async function backfill(dryRun: boolean) {
+  const logger = baseLogger.child({ scope: "backfill-quantities", dryRun });
+  let lastId = 0;
+  let scanned = 0;
+  let updated = 0;
+
+  while (true) {
+    const recipes = await dbClient
+      .select({
+        id: recipe_schema.id,
+        ingredients: recipe_schema.ingredients,
+        original: recipe_schema.original,
+      })
+      .from(recipe_schema)
+      .where(gt(recipe_schema.id, lastId))
+      .orderBy(asc(recipe_schema.id))
+      .limit(BATCH_SIZE);
+    if (!recipes.length) break;
+
+    for (const recipe of recipes) {
+      const ingredients = reparse(recipe.ingredients);
+      const original = recipe.original && {
+        ...recipe.original,
+        ingredients: reparse(recipe.original.ingredients),
+      };
+
+      const changed =
+        JSON.stringify(ingredients) !== JSON.stringify(recipe.ingredients) ||
+        JSON.stringify(original) !== JSON.stringify(recipe.original);
+      if (changed && !dryRun) {
+        await dbClient
+          .update(recipe_schema)
+          .set({ ingredients, original })
+          .where(eq(recipe_schema.id, recipe.id));
+      }
+      if (changed) updated++;
+    }
+
+    scanned += recipes.length;
+    lastId = recipes.at(-1)!.id;
+    logger.info({ scanned, updated }, "Backfilled batch");
+  }
+
+  logger.info({ scanned, updated }, "Backfill completed");
+}
+
+await backfill(Bun.argv.includes("--dry-run")).finally(() =>
+  dbClient.$client.end(),
+);
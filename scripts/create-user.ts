@@ -0,0 +1,68 @@
+/**
+ * Creates a user along with an API key and prints the key, which is not stored
+ * and cannot be shown again. Meant for the first admin, who can then manage
+ * users and keys through the /admin/users endpoints. Reuses the user when the
+ * email is taken, so it also hands out additional keys.
+ *
+ * Usage: bun run users:create --name <name> --email <email>
+ *          [--scopes read,ingest,admin] [--key-name <name>]
+ */
+
+import { parseArgs } from "node:util";
+import { dbClient } from "../db";
+import { baseLogger } from "../logger";
+import { createApiKey, createUser } from "../user/service";
+import { ApiKeyScopes, UserEmailTaken, type ApiKeyScope } from "../user/type";
+
+function parseScopes(value: string): ApiKeyScope[] {
+  const known: string[] = Object.values(ApiKeyScopes);
+  const scopes = value.split(",").map((scope) => scope.trim());
+  const unknown = scopes.filter((scope) => !known.includes(scope));
+  if (unknown.length) {
+    throw new Error(`Unknown scopes: ${unknown.join(", ")}`);
+  }
+
+  return scopes as ApiKeyScope[];
+}
+
+async function create() {
+  const logger = baseLogger.child({ scope: "create-user" });
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      name: { type: "string" },
+      email: { type: "string" },
+      scopes: { type: "string", default: Object.values(ApiKeyScopes).join() },
+      "key-name": { type: "string", default: "cli" },
+    },
+  });
+  if (!values.name || !values.email) {
+    throw new Error("--name and --email are required");
+  }
+
+  const created = await createUser(
+    { name: values.name, email: values.email },
+    dbClient,
+  );
+  const userId =
+    created instanceof UserEmailTaken ? created.userId : created.id;
+  const apiKey = await createApiKey(
+    userId,
+    { name: values["key-name"], scopes: parseScopes(values.scopes) },
+    dbClient,
+  );
+  if (!apiKey) throw new Error(`User ${userId} not found`);
+
+  logger.info(
+    {
+      userId,
+      existingUser: created instanceof UserEmailTaken,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+    },
+    "API key created",
+  );
+  console.log(apiKey.key);
+}
+
+await create().finally(() => dbClient.$client.end());
@@ -0,0 +1,69 @@
+/**
+ * Links the ingredients of every stored recipe to the ingredient catalogue,
+ * e.g. for recipes stored before the catalogue existed or after synonyms were
+ * added to it. Recipes are only updated when their links change, so the
+ * command can be re-run safely.
+ *
+ * Usage: bun run recipes:link-ingredients [--dry-run]
+ */
+
+import { asc, eq, gt } from "drizzle-orm";
+import { dbClient } from "../db";
+import { recipe_schema } from "../db/schema";
+import { getIngredientLookup, linkIngredients } from "../ingredient/service";
+import { baseLogger } from "../logger";
+
+const BATCH_SIZE = 100;
+
+async function link(dryRun: boolean) {
+  const logger = baseLogger.child({ scope: "link-ingredients", dryRun });
+  const lookup = await getIngredientLookup(dbClient);
+  let lastId = 0;
+  let scanned = 0;
+  let updated = 0;
+
+  while (true) {
+    const recipes = await dbClient
+      .select({
+        id: recipe_schema.id,
+        ingredients: recipe_schema.ingredients,
+        ingredient_ids: recipe_schema.ingredient_ids,
+      })
+      .from(recipe_schema)
+      .where(gt(recipe_schema.id, lastId))
+      .orderBy(asc(recipe_schema.id))
+      .limit(BATCH_SIZE);
+    if (!recipes.length) break;
+
+    for (const recipe of recipes) {
+      const { ingredients, ingredientIds } = linkIngredients(
+        recipe.ingredients,
+        lookup,
+      );
+
+      const changed =
+        JSON.stringify(ingredients) !== JSON.stringify(recipe.ingredients) ||
+        JSON.stringify(ingredientIds) !== JSON.stringify(recipe.ingredient_ids);
+      if (changed && !dryRun) {
+        await dbClient
+          .update(recipe_schema)
+          .set({ ingredients, ingredient_ids: ingredientIds })
+          .where(eq(recipe_schema.id, recipe.id));
+      }
+      if (changed) updated++;
+    }
+
+    scanned += recipes.length;
+    lastId = recipes.at(-1)!.id;
+    logger.info({ scanned, updated }, "Linked batch");
+  }
+
+  logger.info(
+    { scanned, updated, catalogueNames: lookup.size },
+    "Ingredient linking completed",
+  );
+}
+
+await link(Bun.argv.includes("--dry-run")).finally(() =>
+  dbClient.$client.end(),
+);
@@ -0,0 +1,73 @@
+/**
+ * Estimates the nutrition of stored recipes with the bundled nutrient table.
+ * Only recipes without an estimate or with one computed from another version
+ * of the table are updated, `--all` recomputes every recipe, e.g. after the
+ * estimation itself changed.
+ *
+ * Usage: bun run recipes:recompute-nutrition [--all] [--dry-run]
+ */
+
+import { asc, eq, gt } from "drizzle-orm";
+import { dbClient } from "../db";
+import { recipe_schema } from "../db/schema";
+import { baseLogger } from "../logger";
+import { estimateNutrition } from "../nutrition/estimate";
+import { getNutrientTable } from "../nutrition/table";
+
+const BATCH_SIZE = 100;
+
+async function recompute(all: boolean, dryRun: boolean) {
+  const logger = baseLogger.child({ scope: "recompute-nutrition", dryRun });
+  const table = getNutrientTable();
+  let lastId = 0;
+  let scanned = 0;
+  let updated = 0;
+
+  while (true) {
+    const recipes = await dbClient
+      .select({
+        id: recipe_schema.id,
+        ingredients: recipe_schema.ingredients,
+        servings: recipe_schema.servings,
+        nutrition: recipe_schema.nutrition,
+      })
+      .from(recipe_schema)
+      .where(gt(recipe_schema.id, lastId))
+      .orderBy(asc(recipe_schema.id))
+      .limit(BATCH_SIZE);
+    if (!recipes.length) break;
+
+    for (const recipe of recipes) {
+      const stale = all || recipe.nutrition?.tableVersion !== table.version;
+      if (!stale) continue;
+
+      if (!dryRun) {
+        await dbClient
+          .update(recipe_schema)
+          .set({
+            nutrition: estimateNutrition(
+              recipe.ingredients,
+              recipe.servings,
+              table,
+            ),
+          })
+          .where(eq(recipe_schema.id, recipe.id));
+      }
+      updated++;
+    }
+
+    scanned += recipes.length;
+    lastId = recipes.at(-1)!.id;
+    logger.info({ scanned, updated }, "Recomputed batch");
+  }
+
+  logger.info(
+    { scanned, updated, tableVersion: table.version },
+    "Nutrition recompute completed",
+  );
+}
+
+await recompute(
+  Bun.argv.includes("--all"),
+  Bun.argv.includes("--dry-run"),
+).finally(() => dbClient.$client.end());
@@ -1,18 +1,158 @@
 import { Elysia, sse, status } from "elysia";
 import { openapi } from "@elysiajs/openapi";
 import * as z from "zod";
-import { inputRecipeSchema } from "./recipe/schema";
+import {
+  editRecipeSchema,
+  inputRecipeSchema,
+  recipeSearchResponseSchema,
+} from "./recipe/schema";
 import * as RecipeService from "./recipe/service";
 import * as YoutubeService from "./youtube/service";
 import { dbClient } from "./db";
 import { baseLogger } from "./logger";
 import { ProblemDetails } from "./utils";
-import { LlmRejectedError } from "./llm/type";
+import * as JobService from "./job/service";
+import { isJobFinished, type Job } from "./job/type";
+import {
+  RecipeDuplicateResolved,
+  RecipeDuplicateStatuses,
+  RecipeEditConflict,
+  RecipeInputValidationFailed,
+  RecipeServingsUnknown,
+  RecipeCourses,
+  RecipeDifficulties,
+} from "./recipe/type";
+import { scaleRecipe } from "./recipe/scale";
+import { matchPantry } from "./recipe/pantry";
+import { getSimilarRecipes } from "./recipe/similar";
+import * as RecipeDuplicateService from "./recipe/duplicate";
+import * as IngredientService from "./ingredient/service";
+import {
+  IngredientAliasKinds,
+  IngredientCategories,
+  IngredientNameTaken,
+} from "./ingredient/type";
+import { UnitSystems } from "./ingredient/convert";
+import { startJobWorker } from "./job/worker";
+import { getLlmProvider } from "./llm/provider";
+import { authentication } from "./user/auth";
+import * as UserService from "./user/service";
+import * as CollectionService from "./collection/service";
+import { CollectionNameTaken } from "./collection/type";
+import { ApiKeyScopes, UserEmailTaken, type Authentication } from "./user/type";
+import * as PlannerService from "./planner/service";
+import {
+  renderShoppingListMarkdown,
+  renderShoppingListText,
+} from "./planner/shopping";
+import { MealPlanDateOutOfRange, ShoppingListFormats } from "./planner/type";
+
+const JOB_EVENTS_POLL_INTERVAL_MS = 500;
+const DEFAULT_SEARCH_PAGE_SIZE = 20;
+const MAX_SEARCH_PAGE_SIZE = 100;
+const DEFAULT_TAGS = 50;
+const MAX_TAGS = 500;
+const DEFAULT_SIMILAR_RECIPES = 5;
+const MAX_SIMILAR_RECIPES = 50;
+
+/** List query parameter, given comma separated or repeated */
+const listQuery = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) =>
+    (Array.isArray(value) ? value : value.split(","))
+      .map((item) => item.trim())
+      .filter(Boolean),
+  )
+  .optional();
+
+/** Cursor of a page of results, decoded to its offset */
+const searchCursor = z
+  .string()
+  .transform((value, ctx) => {
+    const offset = RecipeService.decodeSearchCursor(value);
+    if (offset !== null) return offset;
+
+    ctx.issues.push({
+      code: "custom",
+      message: "Invalid cursor",
+      input: value,
+    });
+    return z.NEVER;
+  })
+  .optional()
+  .describe("`nextCursor` of the previous page");
+
+const searchLimit = z.coerce
+  .number()
+  .int()
+  .min(1)
+  .max(MAX_SEARCH_PAGE_SIZE)
+  .default(DEFAULT_SEARCH_PAGE_SIZE)
+  .describe("Number of results per page");
+
+const ingredientCategory = z.enum(Object.values(IngredientCategories));
+
+function ingredientNameTakenProblem(
+  error: IngredientNameTaken,
+  request: Request,
+  requestId: string,
+) {
+  return new ProblemDetails({
+    type: error.uri,
+    title: "Ingredient name taken",
+    status: 409,
+    detail: error.message,
+    instance: request.url,
+    extensions: { requestId, ingredientId: error.ingredientId },
+  });
+}
+
+function collectionNameTakenProblem(
+  error: CollectionNameTaken,
+  request: Request,
+  requestId: string,
+) {
+  return new ProblemDetails({
+    type: error.uri,
+    title: "Collection name taken",
+    status: 409,
+    detail: error.message,
+    instance: request.url,
+    extensions: { requestId, collectionId: error.collectionId },
+  });
+}
+
+/** Jobs are only visible to their submitter, and to admins */
+function canReadJob(job: Job, auth: Authentication): boolean {
+  return (
+    job.user_id === auth.user.id || auth.scopes.includes(ApiKeyScopes.admin)
+  );
+}
+
+function recipeDuplicateResolvedProblem(
+  error: RecipeDuplicateResolved,
+  request: Request,
+  requestId: string,
+) {
+  return new ProblemDetails({
+    type: error.uri,
+    title: "Recipe duplicate resolved",
+    status: 409,
+    detail: error.message,
+    instance: request.url,
+    extensions: { requestId, duplicateId: error.duplicateId },
+  });
+}
+
+/** Created upfront so a misconfigured provider fails the start of the server */
+const llmProvider = getLlmProvider();
 
 /**
- * HTTP server: attaches request-scoped metadata (id, startTime, logger) and
- * exposes streaming POST /recipe that yields pipeline events. Errors are logged
- * via onError and terminate the generator with an appropriate HTTP status.
+ * HTTP server: attaches request-scoped metadata (id, startTime, logger),
+ * authenticates the API key of every route by its scope and exposes
+ * POST /recipe which enqueues a recipe job, plus endpoints to follow
+ * the job and stream its pipeline events. Errors are logged via onError and
+ * terminate the request with an appropriate HTTP status.
  */
 const app = new Elysia()
   /** Attach/propagate a stable request id for traceability */
@@ -40,6 +180,8 @@ const app = new Elysia()
 
     return { logger };
   })
+  /** Resolve the API key of routes declaring a `scope`, see user/auth.ts */
+  .use(authentication(dbClient))
   .onError(function logError({ logger, error, code }) {
     if (!logger) {
       console.error("Logger not setup", error);
@@ -67,8 +209,24 @@ const app = new Elysia()
   .decorate("yt", await YoutubeService.init())
   .use(
     openapi({
+      documentation: {
+        components: {
+          securitySchemes: {
+            apiKey: {
+              type: "http",
+              scheme: "bearer",
+              description: "API key, see POST /admin/users/:user-id/api-keys",
+            },
+          },
+        },
+        security: [{ apiKey: [] }],
+      },
       mapJsonSchema: {
-        zod: z.toJSONSchema,
+        /**
+         * Request schemas may normalize their input with transforms (e.g. the
+         * source adapter schemas), which are documented by their input shape.
+         */
+        zod: (schema: z.ZodType) => z.toJSONSchema(schema, { io: "input" }),
       },
     }),
   )
@@ -76,181 +234,1639 @@ const app = new Elysia()
   .post(
     "/recipe",
     /**
-     * Streams recipe pipeline events back to the client as they complete.
+     * Enqueues a background job which runs the recipe pipeline.
      * Contract:
-     *  - yields TranscriptGenerated → RecipeGenerated → RecipeSaved
+     *  - returns 202 with the job, progress is available on GET /jobs/:id/events
      *  - on validation/conflict returns 422/409;
+     *  - returns 410 when the recipe of the source was deleted;
      */
-    async function* createRecipe({
+    async function createRecipe({
       logger,
       body,
       status,
       db,
       requestId,
       request,
+      auth,
     }) {
-      for await (const event of RecipeService.processRecipeFromSource(
+      const result = await RecipeService.submitRecipeSource(
         body,
+        auth.user.id,
         db,
         logger,
-      )) {
-        switch (event.type) {
-          case "recipeAlreadyExists": {
-            return status(
-              409,
-              new ProblemDetails({
-                type: event.uri,
-                title: "Recipe for the given source already exists",
-                status: 409,
-                instance: request.url,
-                extensions: {
-                  requestId,
-                  recipeId: event.recipeId,
-                },
-              }),
-            );
-          }
-          case "recipeInputValidationFailed": {
-            return status(
-              422,
-              new ProblemDetails({
-                type: event.uri,
-                title: "Invalid recipe input",
-                status: 422,
-                extensions: {
-                  requestId,
-                  issues: z.treeifyError(event.data),
-                },
-              }),
-            );
-          }
-          case "videoUnavailable": {
-            return status(
-              422,
-              new ProblemDetails({
-                type: event.uri,
-                title: "Video unavailable",
-                status: 422,
-                detail:
-                  "The referenced YouTube video is unavailable or invalid.",
-                instance: request.url,
-                extensions: { requestId },
-              }),
-            );
-          }
-          case "videoTranscriptUnavailable": {
-            return status(
-              422,
-              new ProblemDetails({
-                type: event.uri,
-                title: "Video transcript not available",
-                status: 422,
-                detail: "This video has no captions/transcript available.",
-                instance: request.url,
-                extensions: { requestId },
-              }),
-            );
-          }
-          /**
-           * These errors are treated differently since they originate during
-           * the execution of a pipeline and by this time the event stream
-           * has started, so better to return the errors as sse only rather
-           * a return object since the client would be consuming the events
-           * and not expecting a response
-           */
-          case "recipeGenerationFailed":
-          case "transcriptGenerationFailed":
-          case "recipeSavingFailed": {
-            if (event.cause instanceof LlmRejectedError) {
-              logger.error(
-                event,
-                "Something went wrong while execution of recipe pipeline",
-              );
-            }
-
-            yield sse({
-              event: event.type,
-              data: new ProblemDetails({
-                type: event.uri,
-                title:
-                  event.cause instanceof LlmRejectedError
-                    ? "Cannot infer a recipe from the provided source"
-                    : "Recipe generation failed",
-                status: event.cause instanceof LlmRejectedError ? 422 : 500,
-                instance: request.url,
-                detail:
-                  event.cause instanceof LlmRejectedError
-                    ? event.cause.message
-                    : "An unexpected internal error occurred. This is on us—not you. Please share the requestId so we can investigate.",
-                extensions: {
-                  requestId,
-                },
-              }),
-            });
-
-            return;
-          }
-          case "transcriptGenerated":
-          case "recipeGenerated":
-          case "recipeSaved":
-            {
-              yield sse({
-                event: event.type,
-                data: event,
-              });
-            }
-            break;
+        requestId,
+      );
+
+      if (!(result instanceof Error)) {
+        return status(202, result);
+      }
+
+      switch (result.type) {
+        case "recipeAlreadyExists": {
+          return status(
+            409,
+            new ProblemDetails({
+              type: result.uri,
+              title: "Recipe for the given source already exists",
+              status: 409,
+              instance: request.url,
+              extensions: {
+                requestId,
+                recipeId: result.recipeId,
+              },
+            }),
+          );
+        }
+        case "recipeDeleted": {
+          return status(
+            410,
+            new ProblemDetails({
+              type: result.uri,
+              title: "Recipe for the given source was deleted",
+              status: 410,
+              instance: request.url,
+              extensions: {
+                requestId,
+                recipeId: result.recipeId,
+              },
+            }),
+          );
+        }
+        case "recipeInputValidationFailed": {
+          return status(
+            422,
+            new ProblemDetails({
+              type: result.uri,
+              title: "Invalid recipe input",
+              status: 422,
+              extensions: {
+                requestId,
+                issues: z.treeifyError(result.data),
+              },
+            }),
+          );
+        }
+        case "videoUnavailable": {
+          return status(
+            422,
+            new ProblemDetails({
+              type: result.uri,
+              title: "Video unavailable",
+              status: 422,
+              detail: "The referenced YouTube video is unavailable or invalid.",
+              instance: request.url,
+              extensions: { requestId },
+            }),
+          );
+        }
+        case "sourceUnavailable": {
+          return status(
+            422,
+            new ProblemDetails({
+              type: result.uri,
+              title: "Source unavailable",
+              status: 422,
+              detail: result.message,
+              instance: request.url,
+              extensions: { requestId },
+            }),
+          );
+        }
+        case "videoTranscriptUnavailable": {
+          return status(
+            422,
+            new ProblemDetails({
+              type: result.uri,
+              title: "Video transcript not available",
+              status: 422,
+              detail:
+                "This video has neither captions nor a description to infer the recipe from.",
+              instance: request.url,
+              extensions: { requestId },
+            }),
+          );
         }
       }
     },
     {
+      scope: "ingest",
       detail: {
         summary: "Create recipe",
         description:
-          "Processes a recipe from a source URL (currently supports YouTube Shorts). Creates a background job to extract and process the recipe content. Returns the job object on success, or validation/conflict errors if the recipe already exists or input is invalid.",
+          "Processes a recipe from a source, the body is discriminated on `type` with one schema per supported source (currently YouTube Shorts, YouTube videos, plain text, web pages and caption files). Caption files are uploaded as multipart/form-data with a `type` field and the adapter fields alongside it. Creates a background job to extract and process the recipe content. Returns the job object on success, or validation/conflict errors if the recipe already exists or input is invalid, and 410 when the recipe of the source was deleted.",
       },
       body: inputRecipeSchema,
+      /**
+       * Multipart bodies are flat, the fields besides `type` are moved under
+       * `data` so uploads are validated by the same schema as JSON bodies.
+       */
+      transform(ctx) {
+        const contentType = ctx.request.headers.get("content-type") ?? "";
+        if (!contentType.startsWith("multipart/form-data")) return;
+        if (typeof ctx.body !== "object" || ctx.body === null) return;
+
+        const { type, ...data } = ctx.body as Record<string, unknown>;
+        ctx.body = { type, data } as typeof ctx.body;
+      },
+      /**
+       * The body is validated against the adapter schemas before the handler
+       * runs, validation errors are reported the same way as the ones raised
+       * by the adapters (e.g. a Short which is too long).
+       */
+      async error({ code, error, requestId }) {
+        if (code !== "VALIDATION" || error.type !== "body") return;
+
+        const parsed = await inputRecipeSchema.safeParseAsync(error.value);
+        if (parsed.success) return;
+
+        const event = new RecipeInputValidationFailed(parsed.error);
+        return status(
+          422,
+          new ProblemDetails({
+            type: event.uri,
+            title: "Invalid recipe input",
+            status: 422,
+            extensions: {
+              requestId,
+              issues: z.treeifyError(event.data),
+            },
+          }),
+        );
+      },
+    },
+  )
+  .get(
+    "/jobs/:id",
+    async ({ logger, params, db, auth }) => {
+      logger.debug({ jobId: params.id }, "Getting job");
+      const job = await JobService.getJobById(params.id, db);
+      if (!job || !canReadJob(job, auth)) {
+        return status(404);
+      }
+
+      return job;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Get job",
+        description:
+          "Retrieves a recipe ingestion job by its ID, including its status and the ID of the recipe once the job has completed. Jobs of other users answer 404 unless the API key has the `admin` scope.",
+      },
+      params: z.object({
+        id: z.coerce.number().describe("Job ID"),
+      }),
+    },
+  )
+  .get(
+    "/jobs/:id/events",
+    /**
+     * Replays the stored pipeline events of a job as SSE and keeps streaming
+     * new ones until the job finishes. Each event carries its id, so clients
+     * can reattach with `Last-Event-ID` and only receive what they missed.
+     * Contract:
+     *  - yields transcriptGenerated → recipeGenerated → recipeSaved
+     *  - pipeline failures are yielded as ProblemDetails under the error type
+     */
+    async function* streamJobEvents({
+      logger,
+      params,
+      headers,
+      db,
+      request,
+      auth,
+    }) {
+      const job = await JobService.getJobById(params.id, db);
+      if (!job || !canReadJob(job, auth)) {
+        return status(404);
+      }
+
+      let lastEventId = Number(headers["last-event-id"] ?? 0) || 0;
+      while (!request.signal.aborted) {
+        /**
+         * The job status is read before its events, since events are stored
+         * before a job is marked as finished this guarantees the last events
+         * are not missed once a finished status is observed.
+         */
+        const current = await JobService.getJobById(params.id, db);
+        const events = await JobService.getJobEvents(
+          params.id,
+          db,
+          lastEventId,
+        );
+        for (const event of events) {
+          lastEventId = event.id;
+          yield sse({ id: event.id, event: event.type, data: event.data });
+        }
+
+        if (!current || isJobFinished(current.status)) {
+          logger.debug({ jobId: params.id }, "Job event stream finished");
+          return;
+        }
+
+        await Bun.sleep(JOB_EVENTS_POLL_INTERVAL_MS);
+      }
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Stream job events",
+        description:
+          "Streams the pipeline events of a recipe ingestion job as server-sent events. Events emitted before the client connected are replayed first, use the Last-Event-ID header to resume from a known event. Jobs of other users answer 404 unless the API key has the `admin` scope.",
+      },
+      params: z.object({
+        id: z.coerce.number().describe("Job ID"),
+      }),
     },
   )
   .get(
     "/recipe",
-    async ({ logger, query, db }) => {
-      logger.debug({ query: query.q }, "Searching recipes");
-      return RecipeService.searchRecipes(query.q, db);
+    async ({ logger, query, db, auth }) => {
+      logger.debug({ query }, "Searching recipes");
+      const {
+        q,
+        limit,
+        cursor,
+        collection,
+        "max-minutes": maxMinutes,
+        "min-score": minScore,
+        "exclude-ingredients": excludeIngredients,
+        "created-after": createdAfter,
+        ...filters
+      } = query;
+      if (
+        collection !== undefined &&
+        !(await CollectionService.getCollectionById(
+          collection,
+          auth.user.id,
+          db,
+        ))
+      ) {
+        return status(404);
+      }
+
+      return RecipeService.searchRecipes(
+        q,
+        {
+          ...filters,
+          maxMinutes,
+          minScore,
+          excludeIngredients,
+          createdAfter,
+          collectionId: collection,
+        },
+        { limit, offset: cursor ?? 0 },
+        db,
+      );
     },
     {
+      scope: "read",
       detail: {
         summary: "Search recipes",
         description:
-          "Searches through processed recipes using a text query. Returns a list of recipes that match the search criteria based on recipe content, ingredients, or other metadata.",
+          "Searches through processed recipes using a text query. Returns a page of recipes that match the search criteria based on recipe content, ingredients, or other metadata, along with the total number of matches, the cursor of the next page and facet counts (tags, cuisines and main ingredients) across all matches. Results can be narrowed down by cuisine, course, difficulty, required equipment, total (prep + cook) time, tags, required and excluded ingredients, creation date, a minimum score and one of the user's collections (404 when the user has no such collection).",
+        responses: {
+          200: {
+            description: "A page of search results",
+            content: {
+              "application/json": {
+                schema: z.toJSONSchema(recipeSearchResponseSchema) as object,
+              },
+            },
+          },
+        },
       },
       query: z.object({
         q: z.string().min(1).describe("Search query"),
+        limit: searchLimit,
+        cursor: searchCursor,
+        "min-score": z.coerce
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe("Minimum finalScore of the results"),
+        cuisine: z
+          .string()
+          .trim()
+          .min(1)
+          .optional()
+          .describe("Cuisine, e.g. indian"),
+        course: z
+          .enum(Object.values(RecipeCourses))
+          .optional()
+          .describe("Course"),
+        difficulty: z
+          .enum(Object.values(RecipeDifficulties))
+          .optional()
+          .describe("Difficulty"),
+        equipment: listQuery.describe(
+          "Equipment the recipes must use, comma separated or repeated, e.g. air fryer",
+        ),
+        tags: listQuery.describe(
+          "Tags the recipes must have, comma separated or repeated",
+        ),
+        ingredients: listQuery.describe(
+          "Ingredients the recipes must use, comma separated or repeated",
+        ),
+        "exclude-ingredients": listQuery.describe(
+          "Ingredients the recipes must not use, comma separated or repeated",
+        ),
+        "created-after": z.coerce
+          .date()
+          .optional()
+          .describe("Only recipes created after this date (ISO 8601)"),
+        "max-minutes": z.coerce
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum prep + cook time in minutes"),
+        collection: z.coerce
+          .number()
+          .int()
+          .optional()
+          .describe("Only recipes in this collection of the user"),
+      }),
+    },
+  )
+  .post(
+    "/recipe/pantry",
+    async ({ logger, body, db }) => {
+      logger.debug({ body }, "Matching recipes to a pantry");
+      const { limit, cursor, q, ...pantry } = body;
+      return matchPantry(
+        { ...pantry, query: q },
+        { limit, offset: cursor ?? 0 },
+        db,
+      );
+    },
+    {
+      scope: "read",
+      detail: {
+        summary: "What can I cook?",
+        description:
+          "Ranks recipes by the share of their ingredients on hand (`coverage`), listing the `matched` and `missing` ingredients of each. Ingredient names are matched as words, singular or plural, against the ingredients stored with the recipes; `staples` are counted as on hand for every recipe, but a recipe only qualifies through at least one of the `ingredients`. `maxMissing` leaves out recipes missing more ingredients. With a free-text `q`, recipes are ranked by a blend of the coverage (60%) and the search score (40%). Paginated like the search.",
+      },
+      body: z.object({
+        ingredients: z
+          .array(z.string().trim().min(1))
+          .min(1)
+          .max(100)
+          .describe("Ingredients on hand"),
+        staples: z
+          .array(z.string().trim().min(1))
+          .max(100)
+          .default([])
+          .describe("Ingredients which are always available, e.g. salt, oil"),
+        maxMissing: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("Maximum number of missing ingredients"),
+        q: z.string().trim().min(1).optional().describe("Search query"),
+        limit: searchLimit,
+        cursor: searchCursor,
       }),
     },
   )
   .get(
     "/recipe/:recipe-id",
-    async ({ logger, params, db }) => {
+    async ({ logger, params, query, db, request, requestId }) => {
       logger.debug({ recipeId: params["recipe-id"] }, "Getting recipe");
       const recipe = await RecipeService.getRecipeById(params["recipe-id"], db);
       if (!recipe) {
         return status(404);
       }
 
-      return recipe;
+      if (!query.scale && !query.servings && !query.units) {
+        return recipe;
+      }
+
+      const scaled = scaleRecipe(recipe, query);
+      if (scaled instanceof RecipeServingsUnknown) {
+        return status(
+          422,
+          new ProblemDetails({
+            type: scaled.uri,
+            title: "Recipe servings unknown",
+            status: 422,
+            detail: scaled.message,
+            instance: request.url,
+            extensions: { requestId, recipeId: scaled.recipeId },
+          }),
+        );
+      }
+
+      return scaled;
     },
     {
+      scope: "read",
       detail: {
         summary: "Get recipe",
         description:
-          "Retrieves a complete recipe by its unique ID. Returns the full recipe data including ingredients, instructions, metadata, and any associated processing information.",
+          "Retrieves a complete recipe by its unique ID. Returns the full recipe data including ingredients, instructions, metadata, and any associated processing information. Ingredient amounts can be scaled by a factor (`scale`) or to a number of servings (`servings`) and converted to metric or US units (`units`); the response then carries a formatted `display` quantity per ingredient, the `conversionError` of amounts which could not be converted and the applied `scaling`. The estimated `nutrition` (calories, protein, fat, carbs and fiber for the whole recipe and per serving, with the share of ingredients it covers) scales along with the amounts.",
       },
       params: z.object({
         "recipe-id": z.coerce.number().describe("Recipe ID"),
       }),
+      query: z
+        .object({
+          servings: z.coerce
+            .number()
+            .int()
+            .positive()
+            .max(1000)
+            .optional()
+            .describe("Servings to scale the recipe to"),
+          scale: z.coerce
+            .number()
+            .positive()
+            .max(1000)
+            .optional()
+            .describe("Factor to scale the ingredient amounts with"),
+          units: z
+            .enum([UnitSystems.metric, UnitSystems.us])
+            .optional()
+            .describe("Unit system to convert the ingredient amounts to"),
+        })
+        .refine((query) => !(query.servings && query.scale), {
+          message: "Use either servings or scale, not both",
+          path: ["scale"],
+        }),
     },
   )
-  .listen(6969);
+  .patch(
+    "/recipe/:recipe-id",
+    async ({ logger, params, body, db, request, requestId, auth }) => {
+      const result = await RecipeService.updateRecipe(
+        params["recipe-id"],
+        body,
+        auth.user,
+        db,
+        logger,
+      );
+      if (!result) {
+        return status(404);
+      }
 
-baseLogger.info({ url: app.server?.url }, "Elysia server listening");
+      if (result instanceof RecipeEditConflict) {
+        return status(
+          409,
+          new ProblemDetails({
+            type: result.uri,
+            title: "Recipe edit conflict",
+            status: 409,
+            detail: result.message,
+            instance: request.url,
+            extensions: { requestId, recipeId: result.recipeId },
+          }),
+        );
+      }
+
+      return result;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Edit recipe",
+        description:
+          "Corrects a recipe, only the given fields change. Steps can be given as plain text, their duration, temperature and ingredients are then read from the text; ingredient quantities are parsed like on ingestion. Every edit is stored as a revision recording the user who made it and the changed fields, and the recipe embedding is regenerated when the name, steps, ingredients or tags change. Returns the edited recipe, or 409 when another edit was stored concurrently.",
+      },
+      params: z.object({
+        "recipe-id": z.coerce.number().describe("Recipe ID"),
+      }),
+      body: editRecipeSchema,
+    },
+  )
+  .delete(
+    "/recipe/:recipe-id",
+    async ({ logger, params, db, set, auth }) => {
+      const deleted = await RecipeService.deleteRecipe(
+        params["recipe-id"],
+        auth.user,
+        db,
+        logger,
+      );
+      if (!deleted) {
+        return status(404);
+      }
+
+      set.status = 204;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Delete recipe",
+        description:
+          "Soft deletes a recipe: it is no longer returned by search or by ID, while its revisions are kept with the deletion, and the user who deleted it, recorded as the last one.",
+      },
+      params: z.object({
+        "recipe-id": z.coerce.number().describe("Recipe ID"),
+      }),
+    },
+  )
+  .get(
+    "/recipe/:recipe-id/similar",
+    async ({ logger, params, query, db }) => {
+      logger.debug(
+        { recipeId: params["recipe-id"] },
+        "Getting similar recipes",
+      );
+      const {
+        limit,
+        diversity,
+        "exclude-ingredients": excludeIngredients,
+        ...filters
+      } = query;
+      const similar = await getSimilarRecipes(
+        params["recipe-id"],
+        { ...filters, excludeIngredients },
+        { limit, diversity },
+        db,
+      );
+      if (!similar) {
+        return status(404);
+      }
+
+      return similar;
+    },
+    {
+      scope: "read",
+      detail: {
+        summary: "Similar recipes",
+        description:
+          "Returns the recipes closest to the given one by their stored embeddings, without generating any embedding, excluding the recipe itself. Results can be narrowed down by tags and required or excluded ingredients. `diversity` (0 to 1) trades similarity to the recipe for variety among the results, so they are not all near-identical.",
+      },
+      params: z.object({
+        "recipe-id": z.coerce.number().describe("Recipe ID"),
+      }),
+      query: z.object({
+        limit: z.coerce
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_SIMILAR_RECIPES)
+          .default(DEFAULT_SIMILAR_RECIPES)
+          .describe("Number of similar recipes"),
+        diversity: z.coerce
+          .number()
+          .min(0)
+          .max(1)
+          .default(0)
+          .describe(
+            "0 returns the nearest neighbours, higher values favour variety",
+          ),
+        tags: listQuery.describe(
+          "Tags the recipes must have, comma separated or repeated",
+        ),
+        ingredients: listQuery.describe(
+          "Ingredients the recipes must use, comma separated or repeated",
+        ),
+        "exclude-ingredients": listQuery.describe(
+          "Ingredients the recipes must not use, comma separated or repeated",
+        ),
+      }),
+    },
+  )
+  .get(
+    "/recipe/:recipe-id/revisions",
+    async ({ logger, params, db }) => {
+      logger.debug(
+        { recipeId: params["recipe-id"] },
+        "Getting recipe revisions",
+      );
+      const revisions = await RecipeService.getRecipeRevisions(
+        params["recipe-id"],
+        db,
+      );
+      if (!revisions) {
+        return status(404);
+      }
+
+      return revisions;
+    },
+    {
+      scope: "read",
+      detail: {
+        summary: "List recipe revisions",
+        description:
+          "Lists the revisions of a recipe in order, starting with the recipe as parsed on ingestion. Each revision holds a snapshot of the editable fields, its `author` (name and `author_user_id` of the user, null for the pipeline) and `changes`: the fields which differ from the previous revision with their values before and after. Revisions of deleted recipes stay available.",
+      },
+      params: z.object({
+        "recipe-id": z.coerce.number().describe("Recipe ID"),
+      }),
+    },
+  )
+  .get(
+    "/tags",
+    async ({ query, db }) => {
+      return RecipeService.listTags(query, db);
+    },
+    {
+      scope: "read",
+      detail: {
+        summary: "List tags",
+        description:
+          "Lists the tags of the recipes with the number of recipes tagged with each, most used first. `prefix` narrows the list down to the tags starting with it, e.g. for autocompletion.",
+      },
+      query: z.object({
+        prefix: z.string().trim().min(1).optional().describe("Tag prefix"),
+        limit: z.coerce
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_TAGS)
+          .default(DEFAULT_TAGS)
+          .describe("Number of tags"),
+      }),
+    },
+  )
+  .get(
+    "/collections",
+    async ({ db, auth }) => {
+      return CollectionService.listCollections(auth.user.id, db);
+    },
+    {
+      scope: "read",
+      detail: {
+        summary: "List collections",
+        description:
+          "Lists the collections of the user with their number of recipes, favourites first and the others in the order set by the user.",
+      },
+    },
+  )
+  .post(
+    "/collections",
+    async ({ body, db, auth, request, requestId }) => {
+      const result = await CollectionService.createCollection(
+        auth.user.id,
+        body,
+        db,
+      );
+      if (result instanceof CollectionNameTaken) {
+        return status(
+          409,
+          collectionNameTakenProblem(result, request, requestId),
+        );
+      }
+
+      return status(201, result);
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Create collection",
+        description:
+          "Creates a named collection of recipes, e.g. `weeknight`, placed after the other collections of the user. Returns 409 when the user has a collection with the name.",
+      },
+      body: z.object({
+        name: z.string().trim().min(1).max(100),
+      }),
+    },
+  )
+  .put(
+    "/collections/order",
+    async ({ body, db, auth }) => {
+      const collections = await CollectionService.reorderCollections(
+        auth.user.id,
+        body.collectionIds,
+        db,
+      );
+      if (!collections) {
+        return status(404);
+      }
+
+      return collections;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Reorder collections",
+        description:
+          "Moves the given collections to the front in the given order, the other collections keep their order after them. Returns the collections in their new order, or 404 when one of them is not a collection of the user.",
+      },
+      body: z.object({
+        collectionIds: z.array(z.number().int()).min(1),
+      }),
+    },
+  )
+  .get(
+    "/collections/:collection-id",
+    async ({ params, db, auth }) => {
+      const collection = await CollectionService.getCollectionWithRecipes(
+        params["collection-id"],
+        auth.user.id,
+        db,
+      );
+      if (!collection) {
+        return status(404);
+      }
+
+      return collection;
+    },
+    {
+      scope: "read",
+      detail: {
+        summary: "Get collection",
+        description:
+          "Returns a collection of the user along with its recipes, most recently added first.",
+      },
+      params: z.object({
+        "collection-id": z.coerce.number().describe("Collection ID"),
+      }),
+    },
+  )
+  .patch(
+    "/collections/:collection-id",
+    async ({ params, body, db, auth, request, requestId }) => {
+      const result = await CollectionService.renameCollection(
+        params["collection-id"],
+        auth.user.id,
+        body,
+        db,
+      );
+      if (!result) {
+        return status(404);
+      }
+      if (result instanceof CollectionNameTaken) {
+        return status(
+          409,
+          collectionNameTakenProblem(result, request, requestId),
+        );
+      }
+
+      return result;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Rename collection",
+        description:
+          "Renames a collection of the user, favourites cannot be renamed. Returns 409 when the user has another collection with the name.",
+      },
+      params: z.object({
+        "collection-id": z.coerce.number().describe("Collection ID"),
+      }),
+      body: z.object({
+        name: z.string().trim().min(1).max(100),
+      }),
+    },
+  )
+  .delete(
+    "/collections/:collection-id",
+    async ({ params, db, auth, set }) => {
+      const deleted = await CollectionService.deleteCollection(
+        params["collection-id"],
+        auth.user.id,
+        db,
+      );
+      if (!deleted) {
+        return status(404);
+      }
+
+      set.status = 204;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Delete collection",
+        description:
+          "Deletes a collection of the user, the recipes in it are not affected. Favourites cannot be deleted.",
+      },
+      params: z.object({
+        "collection-id": z.coerce.number().describe("Collection ID"),
+      }),
+    },
+  )
+  .put(
+    "/collections/:collection-id/recipes/:recipe-id",
+    async ({ params, db, auth }) => {
+      const collection = await CollectionService.addRecipeToCollection(
+        params["collection-id"],
+        auth.user.id,
+        params["recipe-id"],
+        db,
+      );
+      if (!collection) {
+        return status(404);
+      }
+
+      return collection;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Add recipe to collection",
+        description:
+          "Adds a recipe to a collection of the user, adding it again changes nothing. Returns the collection.",
+      },
+      params: z.object({
+        "collection-id": z.coerce.number().describe("Collection ID"),
+        "recipe-id": z.coerce.number().describe("Recipe ID"),
+      }),
+    },
+  )
+  .delete(
+    "/collections/:collection-id/recipes/:recipe-id",
+    async ({ params, db, auth, set }) => {
+      const removed = await CollectionService.removeRecipeFromCollection(
+        params["collection-id"],
+        auth.user.id,
+        params["recipe-id"],
+        db,
+      );
+      if (!removed) {
+        return status(404);
+      }
+
+      set.status = 204;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Remove recipe from collection",
+        description: "Removes a recipe from a collection of the user.",
+      },
+      params: z.object({
+        "collection-id": z.coerce.number().describe("Collection ID"),
+        "recipe-id": z.coerce.number().describe("Recipe ID"),
+      }),
+    },
+  )
+  .post(
+    "/collections/:collection-id/share",
+    async ({ params, db, auth }) => {
+      const collection = await CollectionService.shareCollection(
+        params["collection-id"],
+        auth.user.id,
+        db,
+      );
+      if (!collection) {
+        return status(404);
+      }
+
+      return collection;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Share collection",
+        description:
+          "Creates the share token of a collection, anyone with it can read the collection through GET /shared/collections/:share-token. Sharing a shared collection keeps its token.",
+      },
+      params: z.object({
+        "collection-id": z.coerce.number().describe("Collection ID"),
+      }),
+    },
+  )
+  .delete(
+    "/collections/:collection-id/share",
+    async ({ params, db, auth }) => {
+      const collection = await CollectionService.unshareCollection(
+        params["collection-id"],
+        auth.user.id,
+        db,
+      );
+      if (!collection) {
+        return status(404);
+      }
+
+      return collection;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Stop sharing collection",
+        description:
+          "Revokes the share token of a collection, its link stops working. Sharing the collection again creates a new token.",
+      },
+      params: z.object({
+        "collection-id": z.coerce.number().describe("Collection ID"),
+      }),
+    },
+  )
+  .get(
+    "/shared/collections/:share-token",
+    async ({ params, db }) => {
+      const collection = await CollectionService.getSharedCollection(
+        params["share-token"],
+        db,
+      );
+      if (!collection) {
+        return status(404);
+      }
+
+      return collection;
+    },
+    {
+      detail: {
+        summary: "Get shared collection",
+        description:
+          "Returns the name and recipes of a shared collection. No API key is needed, the share token grants read-only access to this collection only.",
+        security: [],
+      },
+      params: z.object({
+        "share-token": z.string().min(1).describe("Share token"),
+      }),
+    },
+  )
+  .get(
+    "/favourites",
+    async ({ db, auth }) => {
+      return CollectionService.getFavourites(auth.user.id, db);
+    },
+    {
+      scope: "read",
+      detail: {
+        summary: "List favourites",
+        description:
+          "Returns the favourites collection of the user along with its recipes, most recently added first. Favourites are a collection like the others: they can be searched with `collection` and shared.",
+      },
+    },
+  )
+  .put(
+    "/favourites/:recipe-id",
+    async ({ params, db, auth }) => {
+      const favourites = await CollectionService.addFavourite(
+        auth.user.id,
+        params["recipe-id"],
+        db,
+      );
+      if (!favourites) {
+        return status(404);
+      }
+
+      return favourites;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Add favourite",
+        description:
+          "Marks a recipe as a favourite of the user and returns the favourites collection.",
+      },
+      params: z.object({
+        "recipe-id": z.coerce.number().describe("Recipe ID"),
+      }),
+    },
+  )
+  .delete(
+    "/favourites/:recipe-id",
+    async ({ params, db, auth, set }) => {
+      const removed = await CollectionService.removeFavourite(
+        auth.user.id,
+        params["recipe-id"],
+        db,
+      );
+      if (!removed) {
+        return status(404);
+      }
+
+      set.status = 204;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Remove favourite",
+        description: "Removes a recipe from the favourites of the user.",
+      },
+      params: z.object({
+        "recipe-id": z.coerce.number().describe("Recipe ID"),
+      }),
+    },
+  )
+  .get(
+    "/meal-plans",
+    async ({ db, auth }) => {
+      return PlannerService.listMealPlans(auth.user.id, db);
+    },
+    {
+      scope: "read",
+      detail: {
+        summary: "List meal plans",
+        description:
+          "Lists the meal plans of the user, most recent week first.",
+      },
+    },
+  )
+  .post(
+    "/meal-plans",
+    async ({ body, db, auth }) => {
+      return status(
+        201,
+        await PlannerService.createMealPlan(auth.user.id, body, db),
+      );
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Create meal plan",
+        description:
+          "Creates an empty meal plan for the week starting on `startDate`.",
+      },
+      body: z.object({
+        name: z.string().trim().min(1).max(100),
+        startDate: z.iso.date().describe("First day of the week, YYYY-MM-DD"),
+      }),
+    },
+  )
+  .get(
+    "/meal-plans/:meal-plan-id",
+    async ({ params, db, auth }) => {
+      const mealPlan = await PlannerService.getMealPlan(
+        params["meal-plan-id"],
+        auth.user.id,
+        db,
+      );
+      if (!mealPlan) {
+        return status(404);
+      }
+
+      return mealPlan;
+    },
+    {
+      scope: "read",
+      detail: {
+        summary: "Get meal plan",
+        description:
+          "Returns a meal plan of the user along with the recipes planned on each day, by date.",
+      },
+      params: z.object({
+        "meal-plan-id": z.coerce.number().describe("Meal plan ID"),
+      }),
+    },
+  )
+  .delete(
+    "/meal-plans/:meal-plan-id",
+    async ({ params, db, auth, set }) => {
+      const deleted = await PlannerService.deleteMealPlan(
+        params["meal-plan-id"],
+        auth.user.id,
+        db,
+      );
+      if (!deleted) {
+        return status(404);
+      }
+
+      set.status = 204;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Delete meal plan",
+        description:
+          "Deletes a meal plan of the user along with its planned recipes and ticked off shopping list items.",
+      },
+      params: z.object({
+        "meal-plan-id": z.coerce.number().describe("Meal plan ID"),
+      }),
+    },
+  )
+  .post(
+    "/meal-plans/:meal-plan-id/entries",
+    async ({ params, body, db, auth, request, requestId }) => {
+      const result = await PlannerService.addMealPlanEntry(
+        params["meal-plan-id"],
+        auth.user.id,
+        body,
+        db,
+      );
+      if (!result) {
+        return status(404);
+      }
+      if (result instanceof MealPlanDateOutOfRange) {
+        return status(
+          422,
+          new ProblemDetails({
+            type: result.uri,
+            title: "Meal plan date out of range",
+            status: 422,
+            detail: result.message,
+            instance: request.url,
+            extensions: { requestId, mealPlanId: result.mealPlanId },
+          }),
+        );
+      }
+
+      return status(201, result);
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Plan recipe",
+        description:
+          "Plans a recipe on a day of the meal plan, for a number of `servings` or as written when none are given. Returns the meal plan, or 422 when the date is not in the week of the plan.",
+      },
+      params: z.object({
+        "meal-plan-id": z.coerce.number().describe("Meal plan ID"),
+      }),
+      body: z.object({
+        recipeId: z.number().int(),
+        date: z.iso.date().describe("Day of the week, YYYY-MM-DD"),
+        servings: z
+          .number()
+          .int()
+          .positive()
+          .max(1000)
+          .nullable()
+          .default(null)
+          .describe("Servings to cook, the recipe as written when null"),
+      }),
+    },
+  )
+  .delete(
+    "/meal-plans/:meal-plan-id/entries/:entry-id",
+    async ({ params, db, auth, set }) => {
+      const removed = await PlannerService.removeMealPlanEntry(
+        params["meal-plan-id"],
+        auth.user.id,
+        params["entry-id"],
+        db,
+      );
+      if (!removed) {
+        return status(404);
+      }
+
+      set.status = 204;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Unplan recipe",
+        description: "Removes a planned recipe from a meal plan of the user.",
+      },
+      params: z.object({
+        "meal-plan-id": z.coerce.number().describe("Meal plan ID"),
+        "entry-id": z.coerce.number().describe("Meal plan entry ID"),
+      }),
+    },
+  )
+  .get(
+    "/meal-plans/:meal-plan-id/shopping-list",
+    async ({ params, query, db, auth, set }) => {
+      const list = await PlannerService.getShoppingList(
+        params["meal-plan-id"],
+        auth.user.id,
+        query.units,
+        db,
+      );
+      if (!list) {
+        return status(404);
+      }
+
+      if (query.format === ShoppingListFormats.text) {
+        set.headers["content-type"] = "text/plain; charset=utf-8";
+        return renderShoppingListText(list);
+      }
+      if (query.format === ShoppingListFormats.markdown) {
+        set.headers["content-type"] = "text/markdown; charset=utf-8";
+        return renderShoppingListMarkdown(list);
+      }
+
+      return list;
+    },
+    {
+      scope: "read",
+      detail: {
+        summary: "Get shopping list",
+        description:
+          "Builds the shopping list of a meal plan from the ingredients of the planned recipes, scaled to the planned servings and converted to `units`. The same ingredient is merged across recipes: weights, volumes and counts of the same unit are added up, amounts which do not add up are listed side by side and quantities without an amount (e.g. `to taste`) as notes. Items are grouped by the catalogue category of their ingredient and carry whether they were ticked off. `format` exports the list as plain text or Markdown instead of JSON.",
+      },
+      params: z.object({
+        "meal-plan-id": z.coerce.number().describe("Meal plan ID"),
+      }),
+      query: z.object({
+        units: z
+          .enum([UnitSystems.metric, UnitSystems.us])
+          .default(UnitSystems.metric)
+          .describe("Unit system of the amounts"),
+        format: z
+          .enum(Object.values(ShoppingListFormats))
+          .default(ShoppingListFormats.json)
+          .describe("Format of the list"),
+      }),
+    },
+  )
+  .put(
+    "/meal-plans/:meal-plan-id/shopping-list/checked/:item-key",
+    async ({ params, db, auth, set }) => {
+      const checked = await PlannerService.setShoppingItemChecked(
+        params["meal-plan-id"],
+        auth.user.id,
+        params["item-key"],
+        true,
+        db,
+      );
+      if (!checked) {
+        return status(404);
+      }
+
+      set.status = 204;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Tick off shopping list item",
+        description:
+          "Ticks an item of the shopping list off by its `key`. It stays ticked off when recipes are planned or the list is read in other units. Returns 404 when no planned recipe needs the item.",
+      },
+      params: z.object({
+        "meal-plan-id": z.coerce.number().describe("Meal plan ID"),
+        "item-key": z.string().min(1).describe("Shopping list item key"),
+      }),
+    },
+  )
+  .delete(
+    "/meal-plans/:meal-plan-id/shopping-list/checked/:item-key",
+    async ({ params, db, auth, set }) => {
+      const unchecked = await PlannerService.setShoppingItemChecked(
+        params["meal-plan-id"],
+        auth.user.id,
+        params["item-key"],
+        false,
+        db,
+      );
+      if (!unchecked) {
+        return status(404);
+      }
+
+      set.status = 204;
+    },
+    {
+      scope: "ingest",
+      detail: {
+        summary: "Untick shopping list item",
+        description: "Puts a ticked off item back on the shopping list.",
+      },
+      params: z.object({
+        "meal-plan-id": z.coerce.number().describe("Meal plan ID"),
+        "item-key": z.string().min(1).describe("Shopping list item key"),
+      }),
+    },
+  )
+  .get(
+    "/admin/ingredients",
+    async ({ query, db }) => {
+      return IngredientService.listCatalogueIngredients(query, db);
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "List catalogue ingredients",
+        description:
+          "Lists the ingredient catalogue with the synonyms and plurals of each ingredient, optionally only the ingredients whose name or an alias contains `query` or of a `category`.",
+      },
+      query: z.object({
+        query: z.string().trim().min(1).optional().describe("Name to look for"),
+        category: ingredientCategory.optional().describe("Category"),
+      }),
+    },
+  )
+  .post(
+    "/admin/ingredients",
+    async ({ body, db, request, requestId }) => {
+      const result = await IngredientService.createCatalogueIngredient(
+        body,
+        db,
+      );
+      if (result instanceof IngredientNameTaken) {
+        return status(
+          409,
+          ingredientNameTakenProblem(result, request, requestId),
+        );
+      }
+
+      return status(201, result);
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "Create catalogue ingredient",
+        description:
+          "Adds a canonical ingredient to the catalogue, along with its synonyms and irregular plurals. Names are unique across canonical names, synonyms and plurals. Recipes saved from now on are linked to it, run `bun run recipes:link-ingredients` to link stored recipes.",
+      },
+      body: z.object({
+        name: z.string().trim().min(1).describe("Canonical name, singular"),
+        category: ingredientCategory.nullable().default(null),
+        synonyms: z.array(z.string().trim().min(1)).default([]),
+        plurals: z
+          .array(z.string().trim().min(1))
+          .default([])
+          .describe("Plural forms which do not just add -s or -es"),
+      }),
+    },
+  )
+  .patch(
+    "/admin/ingredients/:ingredient-id",
+    async ({ params, body, db, request, requestId }) => {
+      const result = await IngredientService.updateCatalogueIngredient(
+        params["ingredient-id"],
+        body,
+        db,
+      );
+      if (!result) {
+        return status(404);
+      }
+      if (result instanceof IngredientNameTaken) {
+        return status(
+          409,
+          ingredientNameTakenProblem(result, request, requestId),
+        );
+      }
+
+      return result;
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "Edit catalogue ingredient",
+        description: "Renames a catalogue ingredient or changes its category.",
+      },
+      params: z.object({
+        "ingredient-id": z.coerce.number().describe("Ingredient ID"),
+      }),
+      body: z.object({
+        name: z.string().trim().min(1).optional(),
+        category: ingredientCategory.nullable().optional(),
+      }),
+    },
+  )
+  .post(
+    "/admin/ingredients/:ingredient-id/aliases",
+    async ({ params, body, db, request, requestId }) => {
+      const result = await IngredientService.addIngredientAlias(
+        params["ingredient-id"],
+        body,
+        db,
+      );
+      if (!result) {
+        return status(404);
+      }
+      if (result instanceof IngredientNameTaken) {
+        return status(
+          409,
+          ingredientNameTakenProblem(result, request, requestId),
+        );
+      }
+
+      return result;
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "Add synonym or plural",
+        description:
+          "Adds a synonym (e.g. `green onion` for `scallion`) or an irregular plural to a catalogue ingredient. Returns the ingredient, or 409 when the name belongs to another ingredient.",
+      },
+      params: z.object({
+        "ingredient-id": z.coerce.number().describe("Ingredient ID"),
+      }),
+      body: z.object({
+        alias: z.string().trim().min(1),
+        kind: z
+          .enum([IngredientAliasKinds.synonym, IngredientAliasKinds.plural])
+          .default(IngredientAliasKinds.synonym),
+      }),
+    },
+  )
+  .delete(
+    "/admin/ingredients/:ingredient-id/aliases/:alias",
+    async ({ params, db }) => {
+      const result = await IngredientService.removeIngredientAlias(
+        params["ingredient-id"],
+        params.alias,
+        db,
+      );
+      if (!result) {
+        return status(404);
+      }
+
+      return result;
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "Remove synonym or plural",
+        description:
+          "Removes a synonym or plural from a catalogue ingredient and returns the ingredient.",
+      },
+      params: z.object({
+        "ingredient-id": z.coerce.number().describe("Ingredient ID"),
+        alias: z.string().min(1).describe("Synonym or plural"),
+      }),
+    },
+  )
+  .get(
+    "/admin/duplicates",
+    async ({ query, db }) => {
+      return RecipeDuplicateService.listDuplicates(query.status, db);
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "List likely duplicate recipes",
+        description:
+          "Lists the recipes flagged as likely duplicates of an earlier recipe when they were saved, by embedding similarity and ingredient overlap, newest first. Pending flags are listed while neither recipe was deleted or merged.",
+      },
+      query: z.object({
+        status: z
+          .enum(Object.values(RecipeDuplicateStatuses))
+          .default(RecipeDuplicateStatuses.pending)
+          .describe("Review status"),
+      }),
+    },
+  )
+  .post(
+    "/admin/duplicates/:duplicate-id/merge",
+    async ({ logger, params, body, db, request, requestId }) => {
+      const result = await RecipeDuplicateService.mergeDuplicate(
+        params["duplicate-id"],
+        body.canonicalRecipeId,
+        db,
+        logger,
+      );
+      if (!result) {
+        return status(404);
+      }
+      if (result instanceof RecipeDuplicateResolved) {
+        return status(
+          409,
+          recipeDuplicateResolvedProblem(result, request, requestId),
+        );
+      }
+
+      return result;
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "Merge duplicate recipes",
+        description:
+          "Keeps one recipe of a flagged pair, the earlier one unless `canonicalRecipeId` names the other. The other recipe, along with the recipes merged into it before, is merged into the kept one: search only returns the kept recipe and lists the sources of all of them. Returns 404 when `canonicalRecipeId` is not one of the pair, 409 when the pair was already reviewed or a recipe was deleted or merged since.",
+      },
+      params: z.object({
+        "duplicate-id": z.coerce.number().describe("Duplicate ID"),
+      }),
+      body: z.object({
+        canonicalRecipeId: z
+          .number()
+          .int()
+          .optional()
+          .describe("Recipe to keep, one of the pair"),
+      }),
+    },
+  )
+  .post(
+    "/admin/duplicates/:duplicate-id/dismiss",
+    async ({ params, db, request, requestId }) => {
+      const result = await RecipeDuplicateService.dismissDuplicate(
+        params["duplicate-id"],
+        db,
+      );
+      if (!result) {
+        return status(404);
+      }
+      if (result instanceof RecipeDuplicateResolved) {
+        return status(
+          409,
+          recipeDuplicateResolvedProblem(result, request, requestId),
+        );
+      }
+
+      return result;
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "Dismiss duplicate flag",
+        description:
+          "Marks a flagged pair as different recipes. Returns 409 when the pair was already reviewed.",
+      },
+      params: z.object({
+        "duplicate-id": z.coerce.number().describe("Duplicate ID"),
+      }),
+    },
+  )
+  .post(
+    "/admin/users",
+    async ({ body, db, request, requestId }) => {
+      const result = await UserService.createUser(body, db);
+      if (result instanceof UserEmailTaken) {
+        return status(
+          409,
+          new ProblemDetails({
+            type: result.uri,
+            title: "User email taken",
+            status: 409,
+            detail: result.message,
+            instance: request.url,
+            extensions: { requestId, userId: result.userId },
+          }),
+        );
+      }
+
+      return status(201, result);
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "Create user",
+        description:
+          "Creates a user, who gets access through the API keys created for them. Returns 409 when the email belongs to another user.",
+      },
+      body: z.object({
+        name: z.string().trim().min(1).max(100),
+        email: z.email(),
+      }),
+    },
+  )
+  .get(
+    "/admin/users/:user-id/api-keys",
+    async ({ params, db }) => {
+      const apiKeys = await UserService.listApiKeys(params["user-id"], db);
+      if (!apiKeys) {
+        return status(404);
+      }
+
+      return apiKeys;
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "List API keys",
+        description:
+          "Lists the API keys of a user, revoked ones included. Keys are identified by their `prefix`, the keys themselves are not stored.",
+      },
+      params: z.object({
+        "user-id": z.coerce.number().describe("User ID"),
+      }),
+    },
+  )
+  .post(
+    "/admin/users/:user-id/api-keys",
+    async ({ params, body, db }) => {
+      const apiKey = await UserService.createApiKey(
+        params["user-id"],
+        body,
+        db,
+      );
+      if (!apiKey) {
+        return status(404);
+      }
+
+      return status(201, apiKey);
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "Create API key",
+        description:
+          "Creates an API key for a user, passed as `Authorization: Bearer <key>`. `read` keys search and read recipes, `ingest` keys submit, edit and delete recipes and follow their jobs, `admin` keys manage the catalogue, duplicates and users. The `key` is only returned here, store it right away.",
+      },
+      params: z.object({
+        "user-id": z.coerce.number().describe("User ID"),
+      }),
+      body: z.object({
+        name: z.string().trim().min(1).max(100).describe("What the key is for"),
+        scopes: z
+          .array(z.enum(Object.values(ApiKeyScopes)))
+          .min(1)
+          .default([ApiKeyScopes.read]),
+      }),
+    },
+  )
+  .delete(
+    "/admin/users/:user-id/api-keys/:api-key-id",
+    async ({ params, db }) => {
+      const apiKey = await UserService.revokeApiKey(
+        params["user-id"],
+        params["api-key-id"],
+        db,
+      );
+      if (!apiKey) {
+        return status(404);
+      }
+
+      return apiKey;
+    },
+    {
+      scope: "admin",
+      detail: {
+        summary: "Revoke API key",
+        description:
+          "Revokes an API key, requests made with it answer 401 from then on. Returns the revoked key.",
+      },
+      params: z.object({
+        "user-id": z.coerce.number().describe("User ID"),
+        "api-key-id": z.coerce.number().describe("API key ID"),
+      }),
+    },
+  )
+  .listen(6969);
+
+baseLogger.info({ url: app.server?.url }, "Elysia server listening");
+baseLogger.info({ provider: llmProvider.name }, "LLM provider configured");
+
+startJobWorker(dbClient, baseLogger);
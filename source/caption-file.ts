@@ -0,0 +1,98 @@
+import * as z from "zod";
+import {
+  captionsToTranscript,
+  detectCaptionFormat,
+  parseCaptions,
+} from "../caption/parser";
+import type { RecipeSourceAdapter } from "./type";
+
+export const CAPTION_FILE_SOURCE_TYPE = "caption-file";
+
+const MAX_FILE_BYTES = 1024 * 1024;
+
+/**
+ * The uploaded file is parsed while validating the request, so a malformed file
+ * is rejected with the line numbers of the offending cues. The external id is
+ * the hash of the parsed transcript, which deduplicates re-uploads of the same
+ * captions regardless of formatting.
+ */
+export const captionFileRecipeSchema = z
+  .object({
+    file: z
+      .file()
+      .min(1, "The caption file is empty")
+      .max(MAX_FILE_BYTES, "The caption file must be at most 1MB"),
+  })
+  .transform(async ({ file }, ctx) => {
+    const content = await file.text();
+    const format = detectCaptionFormat(file.name, content);
+    if (!format) {
+      ctx.issues.push({
+        code: "custom",
+        path: ["file"],
+        message: "Unsupported caption file, expected a .srt or .vtt file",
+        input: file.name,
+      });
+      return z.NEVER;
+    }
+
+    const result = parseCaptions(content, format);
+    if (!result.success) {
+      for (const error of result.errors) {
+        ctx.issues.push({
+          code: "custom",
+          path: ["file"],
+          message: `Line ${error.line}: ${error.message}`,
+          input: file.name,
+        });
+      }
+      return z.NEVER;
+    }
+
+    const transcript = captionsToTranscript(result.data);
+    return {
+      fileName: file.name,
+      format,
+      cues: result.data,
+      transcript,
+      id: new Bun.CryptoHasher("sha256").update(transcript).digest("hex"),
+    };
+  });
+
+export type CaptionFileRecipeSchema = z.infer<typeof captionFileRecipeSchema>;
+
+/**
+ * Captions of a video hosted on a platform which is not supported, uploaded as
+ * a SubRip or WebVTT file (multipart/form-data). The timed cues are stored as
+ * the transcript of the source, there is no content to load for it.
+ */
+export const captionFileAdapter: RecipeSourceAdapter<
+  CaptionFileRecipeSchema,
+  never
+> = {
+  type: CAPTION_FILE_SOURCE_TYPE,
+  description: "Caption file (.srt or .vtt) uploaded as multipart/form-data",
+  schema: captionFileRecipeSchema,
+  getExternalId(data) {
+    return data.id;
+  },
+  async checkAvailability() {
+    return null;
+  },
+  getSubmittedContent(data) {
+    return {
+      content: data.transcript,
+      input: data.format,
+      segments: data.cues,
+      metadata: { fileName: data.fileName },
+    };
+  },
+  async loadContent() {
+    throw new Error(
+      "Caption files have no content to load, the captions are stored on creation",
+    );
+  },
+  async fetchContent() {
+    throw new Error("Caption files have no content to fetch");
+  },
+};
@@ -0,0 +1,36 @@
+import { captionFileAdapter } from "./caption-file";
+import type { AnyRecipeSourceAdapter } from "./type";
+import { textAdapter } from "./text";
+import { webPageAdapter } from "./web-page";
+import { youtubeShortsAdapter, youtubeVideoAdapter } from "./youtube";
+
+/**
+ * Registered source adapters, keyed by their type. Supporting a new kind of
+ * source means implementing a RecipeSourceAdapter and listing it here, the
+ * request body schema and the pipeline pick it up from the registry.
+ */
+const adapters = new Map<string, AnyRecipeSourceAdapter>();
+
+export function registerSourceAdapter(adapter: AnyRecipeSourceAdapter) {
+  if (adapters.has(adapter.type)) {
+    throw new Error(`Source adapter '${adapter.type}' is already registered`);
+  }
+
+  adapters.set(adapter.type, adapter);
+}
+
+export function getSourceAdapter(
+  type: string,
+): AnyRecipeSourceAdapter | undefined {
+  return adapters.get(type);
+}
+
+export function getSourceAdapters(): AnyRecipeSourceAdapter[] {
+  return Array.from(adapters.values());
+}
+
+registerSourceAdapter(youtubeShortsAdapter);
+registerSourceAdapter(youtubeVideoAdapter);
+registerSourceAdapter(textAdapter);
+registerSourceAdapter(webPageAdapter);
+registerSourceAdapter(captionFileAdapter);
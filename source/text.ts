@@ -0,0 +1,60 @@
+import * as z from "zod";
+import type { RecipeSourceAdapter } from "./type";
+
+export const TEXT_SOURCE_TYPE = "text";
+
+/** Roughly the size of a long blog post, anything larger is unlikely a recipe */
+const MAX_TEXT_LENGTH = 20_000;
+
+/**
+ * The text is normalized (trimmed, whitespace collapsed) before hashing so that
+ * the same recipe pasted twice with different line breaks is deduplicated.
+ */
+export const textRecipeSchema = z
+  .object({
+    text: z
+      .string()
+      .trim()
+      .min(1, "Text must not be empty")
+      .max(
+        MAX_TEXT_LENGTH,
+        `Text must be at most ${MAX_TEXT_LENGTH} characters long`,
+      ),
+  })
+  .transform(({ text }) => {
+    const normalized = text.replace(/\s+/g, " ");
+    return {
+      text,
+      id: new Bun.CryptoHasher("sha256").update(normalized).digest("hex"),
+    };
+  });
+
+export type TextRecipeSchema = z.infer<typeof textRecipeSchema>;
+
+/**
+ * Recipe shared as plain text (a message, a caption copied from a post). The
+ * external id is the hash of the text and the text itself is fed to the LLM
+ * as is, there is no content to load for it.
+ */
+export const textAdapter: RecipeSourceAdapter<TextRecipeSchema, never> = {
+  type: TEXT_SOURCE_TYPE,
+  description: "Recipe submitted as plain text",
+  schema: textRecipeSchema,
+  getExternalId(data) {
+    return data.id;
+  },
+  async checkAvailability() {
+    return null;
+  },
+  getSubmittedContent(data) {
+    return { content: data.text, input: "text" };
+  },
+  async loadContent() {
+    throw new Error(
+      "Text sources have no content to load, the submitted text is stored on creation",
+    );
+  },
+  async fetchContent() {
+    throw new Error("Text sources have no content to fetch");
+  },
+};
@@ -0,0 +1,85 @@
+import type * as z from "zod";
+import type { CaptionCue } from "../caption/parser";
+import type { ParsedRecipeLlm } from "../llm/schema";
+import type { AppLogger } from "../logger";
+import type {
+  RecipeInputValidationFailed,
+  RecipeSource,
+  SourceUnavailable,
+  VideoTranscriptUnavailable,
+  VideoUnavailable,
+} from "../recipe/type";
+
+/** Reasons for which a source can be rejected before a job is enqueued */
+export type SourceAvailabilityError =
+  | RecipeInputValidationFailed
+  | SourceUnavailable
+  | VideoUnavailable
+  | VideoTranscriptUnavailable;
+
+/** Text extracted from a source, which the recipe is parsed from */
+export type SourceText = {
+  content: string;
+  /** What the text was extracted from, e.g. "captions" or "json-ld" */
+  input: string;
+  /** Language code of the text when the source reports it, e.g. "hi" */
+  language?: string;
+  /** Timed segments of the text, when it comes from captions */
+  segments?: CaptionCue[];
+  /** Provenance of the source (author, canonical URL, ...) */
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * A source adapter encapsulates everything which is specific to a kind of
+ * recipe source (YouTube Shorts, videos, ...). Adapters are registered in
+ * source/registry.ts under their `type`, which is the discriminator of the
+ * POST /recipe body and the `type` stored on recipe_sources.
+ *
+ * The lifecycle of a source goes through the adapter in two phases
+ * 1. While handling the request: `schema` validates `data`, `getExternalId`
+ * provides the dedup key and `checkAvailability` rejects sources which can not
+ * be processed, before anything is persisted.
+ * 2. In the background job: `loadContent` loads the adapter specific content of
+ * a persisted source (e.g. the video info), from which `fetchContent` produces
+ * the text handed over to the LLM.
+ *
+ * The text is stored in content_items along with the input it came from and
+ * the metadata is merged into recipe_sources.metadata.
+ *
+ * Sources which carry their text in the request itself implement
+ * `getSubmittedContent` instead, the text is stored as the transcript of the
+ * source when it is created and the pipeline starts from the recipe step.
+ *
+ * Sources which may provide a structured recipe (e.g. schema.org JSON-LD)
+ * implement `parseContent`, when it returns a recipe the LLM is not invoked.
+ */
+export interface RecipeSourceAdapter<TData = unknown, TContent = unknown> {
+  readonly type: string;
+  /** Used to document the request body in OpenAPI */
+  readonly description: string;
+  /** Validates (and normalizes) the `data` of the request body */
+  readonly schema: z.ZodType<TData>;
+  /**
+   * Source types sharing the same external ids, e.g. a YouTube video is the
+   * same source whether it was submitted as a Short or as a video. Defaults to
+   * the adapter's own type.
+   */
+  readonly dedupTypes?: string[];
+  getExternalId(data: TData): string;
+  checkAvailability(
+    data: TData,
+    logger: AppLogger,
+  ): Promise<SourceAvailabilityError | null>;
+  loadContent(recipeSource: RecipeSource): Promise<TContent>;
+  fetchContent(content: TContent): Promise<SourceText>;
+  getSubmittedContent?(data: TData): SourceText;
+  parseContent?(content: string): ParsedRecipeLlm | null;
+}
+
+/**
+ * Adapter of any kind of source, as the registry dispatches them by type. The
+ * data and content are opaque here, they are only ever handed back to the
+ * adapter whose schema or `loadContent` produced them.
+ */
+export type AnyRecipeSourceAdapter = RecipeSourceAdapter<unknown, unknown>;
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { baseLogger } from "../logger";
+import { SourceUnavailable } from "../recipe/type";
+import { WebPageFetchError, type WebPageFetcher } from "../web/type";
+import { createWebPageAdapter } from "./web-page";
+
+const logger = baseLogger.child({}, { level: "silent" });
+
+/** Serves https://<host>/<fixture> from the saved pages in web/fixtures */
+const fixtureFetcher: WebPageFetcher = async (url) => {
+  const name = new URL(url).pathname.slice(1);
+  const file = Bun.file(new URL(`../web/fixtures/${name}`, import.meta.url));
+  if (!(await file.exists())) throw new WebPageFetchError(`No fixture ${name}`);
+
+  return { url, html: await file.text() };
+};
+
+const adapter = createWebPageAdapter(fixtureFetcher);
+
+async function fetchFixture(name: string) {
+  return await adapter.fetchContent(
+    await adapter.loadContent({
+      id: 1,
+      type: "web-page",
+      external_id: `https://weeknight.example/${name}`,
+    }),
+  );
+}
+
+describe("createWebPageAdapter", () => {
+  test("normalizes the URL into the external id", () => {
+    const data = adapter.schema.parse({
+      url: "https://Weeknight.example/pasta/?utm_source=feed&page=2#comments",
+    });
+
+    expect(adapter.getExternalId(data)).toBe(
+      "https://weeknight.example/pasta?page=2",
+    );
+  });
+
+  test("uses the JSON-LD recipe of the page without the LLM", async () => {
+    const text = await fetchFixture("json-ld-graph.html");
+
+    expect(text.input).toBe("json-ld");
+    expect(text.metadata).toEqual({
+      url: "https://weeknight.example/json-ld-graph.html",
+      canonicalUrl: "https://weeknight.example/recipes/lemon-garlic-pasta",
+      author: "Ada Baker, Sam Cook",
+      siteName: "Weeknight Kitchen",
+      title: "Lemon Garlic Pasta | Weeknight Kitchen",
+    });
+    expect(adapter.parseContent?.(text.content)?.name).toBe(
+      "lemon garlic pasta",
+    );
+  });
+
+  test("falls back to the article text", async () => {
+    const text = await fetchFixture("article.html");
+
+    expect(text.input).toBe("article");
+    expect(text.content).toBe(
+      "Grandma's Pancakes\nWhisk 2 eggs with 250 ml milk and 120 g flour.\nFry ladlefuls in a hot pan until golden.",
+    );
+    expect(text.metadata?.author).toBe("Grandma");
+    expect(adapter.parseContent?.(text.content)).toBeNull();
+  });
+
+  test("hands incomplete JSON-LD recipes over to the LLM", async () => {
+    const text = await fetchFixture("json-ld-incomplete.html");
+
+    expect(text.input).toBe("article");
+    expect(text.content).toContain("simmer it with stock");
+  });
+
+  test("reports unavailable pages without the fetch details", async () => {
+    const data = adapter.schema.parse({
+      url: "https://weeknight.example/missing.html",
+    });
+
+    const error = await adapter.checkAvailability(data, logger);
+
+    expect(error).toBeInstanceOf(SourceUnavailable);
+    expect(error?.message).not.toContain("missing");
+    expect(
+      await adapter.checkAvailability(
+        adapter.schema.parse({
+          url: "https://weeknight.example/article.html",
+        }),
+        logger,
+      ),
+    ).toBeNull();
+  });
+});
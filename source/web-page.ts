@@ -0,0 +1,134 @@
+import * as z from "zod";
+import { SourceUnavailable } from "../recipe/type";
+import { parseHtml } from "../web/html";
+import {
+  findJsonLdRecipe,
+  getJsonLdAuthor,
+  jsonLdRecipeToParsedRecipe,
+} from "../web/recipe";
+import * as WebService from "../web/service";
+import type { WebPage, WebPageFetcher } from "../web/type";
+import type { RecipeSourceAdapter } from "./type";
+
+export const WEB_PAGE_SOURCE_TYPE = "web-page";
+
+/** Article text handed over to the LLM is capped, recipes rarely need more */
+const MAX_ARTICLE_LENGTH = 20_000;
+const TRACKING_PARAMS = /^(utm_.+|fbclid|gclid|mc_cid|mc_eid|ref)$/i;
+
+/**
+ * The normalized URL is the external id of a page, so the same page shared
+ * with different tracking parameters or fragments is deduplicated.
+ */
+function normalizePageUrl(url: URL): string {
+  const normalized = new URL(url);
+  normalized.hash = "";
+  for (const key of Array.from(normalized.searchParams.keys())) {
+    if (TRACKING_PARAMS.test(key)) normalized.searchParams.delete(key);
+  }
+  if (normalized.pathname.length > 1 && normalized.pathname.endsWith("/")) {
+    normalized.pathname = normalized.pathname.slice(0, -1);
+  }
+
+  return normalized.toString();
+}
+
+export const webPageRecipeSchema = z
+  .object({
+    url: z.url({ protocol: /^https?$/ }),
+  })
+  .transform(({ url }) => ({
+    url,
+    id: normalizePageUrl(new URL(url)),
+  }));
+
+export type WebPageRecipeSchema = z.infer<typeof webPageRecipeSchema>;
+
+function resolveUrl(url: string | null, base: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Recipe published on a web page. Pages embedding a schema.org Recipe as
+ * JSON-LD are mapped onto the recipe without the LLM, for any other page the
+ * readable text of the article is parsed by the LLM.
+ *
+ * The fetcher is injectable, e.g. to serve saved HTML fixtures offline.
+ */
+export function createWebPageAdapter(
+  fetchPage: WebPageFetcher = WebService.fetchPage,
+): RecipeSourceAdapter<WebPageRecipeSchema, WebPage> {
+  return {
+    type: WEB_PAGE_SOURCE_TYPE,
+    description: "Web page with a recipe referenced by its URL",
+    schema: webPageRecipeSchema,
+    getExternalId(data) {
+      return data.id;
+    },
+    /**
+     * Fetching the page is the only reliable way to know if it can be read,
+     * the job fetches it again since the page is not persisted. Why it could
+     * not be fetched is only logged, clients must not learn about the network
+     * the service runs in.
+     */
+    async checkAvailability(data, logger) {
+      try {
+        await fetchPage(data.id);
+        return null;
+      } catch (error) {
+        logger.warn({ error }, "Web page unavailable");
+        return new SourceUnavailable({
+          message: "The web page could not be fetched",
+        });
+      }
+    },
+    async loadContent(recipeSource) {
+      return await fetchPage(recipeSource.external_id);
+    },
+    async fetchContent(page) {
+      const parsed = parseHtml(page.html);
+      const jsonLdRecipe = findJsonLdRecipe(parsed.jsonLd);
+
+      const jsonLdUrl =
+        typeof jsonLdRecipe?.url === "string" ? jsonLdRecipe.url : null;
+      const metadata = {
+        url: page.url,
+        canonicalUrl:
+          resolveUrl(parsed.canonicalUrl ?? jsonLdUrl, page.url) ?? page.url,
+        author:
+          (jsonLdRecipe && getJsonLdAuthor(jsonLdRecipe)) ?? parsed.author,
+        siteName: parsed.siteName,
+        title: parsed.title,
+      };
+
+      if (jsonLdRecipe && jsonLdRecipeToParsedRecipe(jsonLdRecipe)) {
+        return {
+          content: JSON.stringify(jsonLdRecipe),
+          input: "json-ld",
+          metadata,
+        };
+      }
+
+      if (!parsed.text) {
+        throw new Error(`The page at '${page.url}' has no readable text`);
+      }
+
+      return {
+        content: parsed.text.slice(0, MAX_ARTICLE_LENGTH),
+        input: "article",
+        metadata,
+      };
+    },
+    parseContent(content) {
+      const jsonLdRecipe = findJsonLdRecipe([content]);
+      return jsonLdRecipe ? jsonLdRecipeToParsedRecipe(jsonLdRecipe) : null;
+    },
+  };
+}
+
+export const webPageAdapter = createWebPageAdapter();
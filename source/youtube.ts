@@ -0,0 +1,164 @@
+import * as z from "zod";
+import {
+  RecipeInputValidationFailed,
+  VideoTranscriptUnavailable,
+  VideoUnavailable,
+} from "../recipe/type";
+import * as YoutubeService from "../youtube/service";
+import type { InnertubeVideoInfo } from "../youtube/service";
+import { parseYoutubeUrl } from "../youtube/url";
+import type { RecipeSourceAdapter } from "./type";
+
+export const YoutubeSourceTypes = {
+  youtubeShorts: "youtube-shorts",
+  youtubeVideo: "youtube-video",
+} as const;
+
+/** YouTube caps Shorts at three minutes */
+const MAX_SHORTS_DURATION_SECONDS = 180;
+
+/**
+ * Accepts any common YouTube URL shape (see youtube/url.ts) and extracts the
+ * canonical video id. Issues are reported against the `url` field with a
+ * message specific to the failing part of the URL.
+ */
+export const youtubeRecipeSchema = z
+  .object({
+    url: z.url(),
+  })
+  .transform(({ url }, ctx) => {
+    const result = parseYoutubeUrl(url);
+    if (!result.success) {
+      ctx.issues.push({
+        code: "custom",
+        path: ["url"],
+        message: result.error,
+        input: url,
+      });
+      return z.NEVER;
+    }
+
+    return {
+      url,
+      id: result.data.id,
+    };
+  });
+
+export type YoutubeRecipeSchema = z.infer<typeof youtubeRecipeSchema>;
+
+function hasCaptions(videoInfo: InnertubeVideoInfo): boolean {
+  return YoutubeService.listCaptionTracks(videoInfo).length > 0;
+}
+
+/**
+ * Text used in place of the transcript for videos without captions, many
+ * cooking Shorts list the ingredients and steps in the description instead.
+ * Empty when the video has neither a title nor a description.
+ */
+function getDescriptionText(videoInfo: InnertubeVideoInfo): string {
+  const { title, short_description, tags } = videoInfo.basic_info;
+  const hashtags = (tags ?? []).map((tag) =>
+    tag.startsWith("#") ? tag : `#${tag}`,
+  );
+
+  return [title, short_description, hashtags.join(" ")]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Both YouTube source types share everything except for the length check, the
+ * video id is the external id for either of them so they are deduplicated
+ * against each other.
+ */
+function createYoutubeAdapter(params: {
+  type: string;
+  description: string;
+  maxDurationSeconds?: number;
+}): RecipeSourceAdapter<YoutubeRecipeSchema, InnertubeVideoInfo> {
+  return {
+    type: params.type,
+    description: params.description,
+    schema: youtubeRecipeSchema,
+    dedupTypes: Object.values(YoutubeSourceTypes),
+    getExternalId(data) {
+      return data.id;
+    },
+    async checkAvailability(data, logger) {
+      const videoInfo = await YoutubeService.getVideoInfo(data.id).catch(
+        (error) => {
+          logger.warn({ error }, "Video unavailable or invalid");
+          return null;
+        },
+      );
+      if (!videoInfo) {
+        return new VideoUnavailable();
+      }
+
+      const duration = videoInfo.basic_info.duration ?? 0;
+      if (
+        params.maxDurationSeconds !== undefined &&
+        duration > params.maxDurationSeconds
+      ) {
+        logger.info({ duration }, "Video is too long for the source type");
+        return new RecipeInputValidationFailed(
+          new z.ZodError([
+            {
+              code: "custom",
+              path: ["url"],
+              message: `Video is ${duration}s long, YouTube Shorts are at most ${params.maxDurationSeconds}s. Use the '${YoutubeSourceTypes.youtubeVideo}' type for regular videos`,
+              input: data.url,
+            },
+          ]),
+        );
+      }
+
+      if (!hasCaptions(videoInfo) && !getDescriptionText(videoInfo)) {
+        logger.info("Video transcript and description not available");
+        return new VideoTranscriptUnavailable();
+      }
+
+      return null;
+    },
+    async loadContent(recipeSource) {
+      return await YoutubeService.getVideoInfo(recipeSource.external_id);
+    },
+    /**
+     * Captions are read in the original language of the video, see
+     * selectCaptionTrack. Videos without captions fall back to their title, description and
+     * hashtags. Whether that text holds a recipe is left to the LLM, which
+     * rejects it otherwise.
+     */
+    async fetchContent(videoInfo) {
+      const track = YoutubeService.selectCaptionTrack(
+        YoutubeService.listCaptionTracks(videoInfo),
+      );
+      if (track) {
+        return {
+          content: await YoutubeService.getTranscript(videoInfo, track),
+          input: "captions",
+          language: track.languageCode,
+        };
+      }
+
+      const description = getDescriptionText(videoInfo);
+      if (!description) {
+        throw new Error("The video has neither captions nor a description");
+      }
+
+      return { content: description, input: "description" };
+    },
+  };
+}
+
+export const youtubeShortsAdapter = createYoutubeAdapter({
+  type: YoutubeSourceTypes.youtubeShorts,
+  description: `YouTube Short (at most ${MAX_SHORTS_DURATION_SECONDS}s) referenced by its URL`,
+  maxDurationSeconds: MAX_SHORTS_DURATION_SECONDS,
+});
+
+export const youtubeVideoAdapter = createYoutubeAdapter({
+  type: YoutubeSourceTypes.youtubeVideo,
+  description: "YouTube video of any length referenced by its URL",
+});
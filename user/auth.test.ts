@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { getBearerToken, hasScope } from "./auth";
+
+describe("getBearerToken", () => {
+  test("reads the token of a bearer authorization", () => {
+    expect(getBearerToken("Bearer tb_key")).toBe("tb_key");
+    expect(getBearerToken("  bearer   tb_key ")).toBe("tb_key");
+  });
+
+  test("ignores other schemes and missing tokens", () => {
+    expect(getBearerToken(undefined)).toBeNull();
+    expect(getBearerToken("Basic dXNlcjpwYXNz")).toBeNull();
+    expect(getBearerToken("Bearer")).toBeNull();
+  });
+});
+
+describe("hasScope", () => {
+  test("requires the scope of the route", () => {
+    expect(hasScope(["read"], "ingest")).toBe(false);
+    expect(hasScope(["ingest"], "ingest")).toBe(true);
+    expect(hasScope(["ingest"], "admin")).toBe(false);
+    expect(hasScope(["read", "admin"], "admin")).toBe(true);
+  });
+
+  test("lets any scope read", () => {
+    expect(hasScope(["read"], "read")).toBe(true);
+    expect(hasScope(["ingest"], "read")).toBe(true);
+    expect(hasScope(["admin"], "read")).toBe(true);
+    expect(hasScope([], "read")).toBe(false);
+  });
+});
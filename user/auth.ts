@@ -0,0 +1,77 @@
+/**
+ * Bearer authentication as an Elysia plugin. Routes declare the scope they
+ * need with `{ scope: "read" }`: the API key in the Authorization header is
+ * resolved to its user before the handler runs, which receives it as `auth`.
+ * Missing, unknown or revoked keys answer 401, keys without the scope 403.
+ */
+
+import { Elysia } from "elysia";
+import type { Database } from "../db";
+import { ProblemDetails } from "../utils";
+import { authenticateApiKey } from "./service";
+import {
+  AuthenticationFailed,
+  InsufficientScope,
+  ApiKeyScopes,
+  type ApiKeyScope,
+} from "./type";
+
+export function getBearerToken(
+  authorization: string | undefined,
+): string | null {
+  const [scheme, token] = authorization?.trim().split(/\s+/) ?? [];
+  return scheme?.toLowerCase() === "bearer" && token ? token : null;
+}
+
+/** Whether a key with the scopes may call a route needing the scope, any scope grants `read` */
+export function hasScope(scopes: ApiKeyScope[], scope: ApiKeyScope): boolean {
+  return scope === ApiKeyScopes.read
+    ? scopes.length > 0
+    : scopes.includes(scope);
+}
+
+export function authentication(db: Database) {
+  return new Elysia({ name: "authentication" }).macro({
+    scope: (scope: ApiKeyScope) => ({
+      async resolve({ headers, request, set, status }) {
+        /** Set by the request id hook, which runs first */
+        const requestId = set.headers["x-request-id"];
+        const token = getBearerToken(headers.authorization);
+        const auth = token ? await authenticateApiKey(token, db) : null;
+
+        if (!auth) {
+          const error = new AuthenticationFailed();
+          set.headers["www-authenticate"] = "Bearer";
+          return status(
+            401,
+            new ProblemDetails({
+              type: error.uri,
+              title: "Authentication failed",
+              status: 401,
+              detail: error.message,
+              instance: request.url,
+              extensions: { requestId },
+            }),
+          );
+        }
+
+        if (!hasScope(auth.scopes, scope)) {
+          const error = new InsufficientScope(scope);
+          return status(
+            403,
+            new ProblemDetails({
+              type: error.uri,
+              title: "Insufficient scope",
+              status: 403,
+              detail: error.message,
+              instance: request.url,
+              extensions: { requestId, scope: error.scope },
+            }),
+          );
+        }
+
+        return { auth };
+      },
+    }),
+  });
+}
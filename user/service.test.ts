@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { generateApiKey, getApiKeyPrefix, hashApiKey } from "./service";
+
+describe("API keys", () => {
+  test("are random tokens with the tb_ prefix", () => {
+    const key = generateApiKey();
+
+    expect(key).toMatch(/^tb_[\w-]{43}$/);
+    expect(generateApiKey()).not.toBe(key);
+  });
+
+  test("are stored as their SHA-256 hash", () => {
+    const key = generateApiKey();
+
+    expect(hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashApiKey(key)).toBe(hashApiKey(key));
+    expect(hashApiKey(`${key}x`)).not.toBe(hashApiKey(key));
+    expect(hashApiKey("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+  });
+
+  test("keep the start of the key to tell them apart", () => {
+    expect(getApiKeyPrefix("tb_abcdefgh123456")).toBe("tb_abcdefgh");
+    expect(getApiKeyPrefix(generateApiKey())).toHaveLength(11);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Users and their API keys. Keys are random tokens handed out once and stored
+ * as their SHA-256 hash only; a hash of a key this long cannot be brute forced,
+ * so no slow password hash is needed and a key is looked up by its hash.
+ */
+
+import { and, asc, eq, isNull, lt, or, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { api_key_schema, user_schema } from "../db/schema";
+import { ensureDefined } from "../utils";
+import {
+  UserEmailTaken,
+  type ApiKey,
+  type ApiKeyScope,
+  type Authentication,
+  type CreatedApiKey,
+  type User,
+} from "./type";
+
+const API_KEY_PREFIX = "tb_";
+const API_KEY_BYTES = 32;
+/** Characters of the key kept to tell keys apart, prefix included */
+const API_KEY_VISIBLE_LENGTH = 11;
+/** `last_used_at` is updated at most this often per key */
+const LAST_USED_RESOLUTION = "1 minute";
+
+const userColumns = {
+  id: user_schema.id,
+  name: user_schema.name,
+  email: user_schema.email,
+  created_at: user_schema.created_at,
+};
+
+const apiKeyColumns = {
+  id: api_key_schema.id,
+  user_id: api_key_schema.user_id,
+  name: api_key_schema.name,
+  prefix: api_key_schema.prefix,
+  scopes: api_key_schema.scopes,
+  created_at: api_key_schema.created_at,
+  last_used_at: api_key_schema.last_used_at,
+  revoked_at: api_key_schema.revoked_at,
+};
+
+export function hashApiKey(key: string): string {
+  return new Bun.CryptoHasher("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(API_KEY_BYTES));
+  return `${API_KEY_PREFIX}${Buffer.from(bytes).toString("base64url")}`;
+}
+
+/** Start of a key stored in clear to tell the keys of a user apart */
+export function getApiKeyPrefix(key: string): string {
+  return key.slice(0, API_KEY_VISIBLE_LENGTH);
+}
+
+export async function createUser(
+  params: { name: string; email: string },
+  db: Database,
+): Promise<User | UserEmailTaken> {
+  const email = params.email.trim().toLowerCase();
+  const [existing] = await db
+    .select({ id: user_schema.id })
+    .from(user_schema)
+    .where(eq(user_schema.email, email));
+  if (existing) return new UserEmailTaken(existing.id);
+
+  const [user] = await db
+    .insert(user_schema)
+    .values({ name: params.name, email })
+    .returning(userColumns);
+  ensureDefined(user, "Failed to persist user");
+
+  return user;
+}
+
+export async function getUserById(
+  userId: number,
+  db: Database,
+): Promise<User | null> {
+  const [user] = await db
+    .select(userColumns)
+    .from(user_schema)
+    .where(eq(user_schema.id, userId));
+
+  return user ?? null;
+}
+
+/** The key is only part of the returned value, it cannot be read later */
+export async function createApiKey(
+  userId: number,
+  params: { name: string; scopes: ApiKeyScope[] },
+  db: Database,
+): Promise<CreatedApiKey | null> {
+  const user = await getUserById(userId, db);
+  if (!user) return null;
+
+  const key = generateApiKey();
+  const [apiKey] = await db
+    .insert(api_key_schema)
+    .values({
+      user_id: userId,
+      name: params.name,
+      key_hash: hashApiKey(key),
+      prefix: getApiKeyPrefix(key),
+      scopes: Array.from(new Set(params.scopes)),
+    })
+    .returning(apiKeyColumns);
+  ensureDefined(apiKey, "Failed to persist API key");
+
+  return { ...apiKey, key };
+}
+
+/** Keys of a user, revoked ones included. Null when there is no such user */
+export async function listApiKeys(
+  userId: number,
+  db: Database,
+): Promise<ApiKey[] | null> {
+  const user = await getUserById(userId, db);
+  if (!user) return null;
+
+  return await db
+    .select(apiKeyColumns)
+    .from(api_key_schema)
+    .where(eq(api_key_schema.user_id, userId))
+    .orderBy(asc(api_key_schema.id));
+}
+
+/** Null when the user has no such key. Revoking a revoked key changes nothing */
+export async function revokeApiKey(
+  userId: number,
+  apiKeyId: number,
+  db: Database,
+): Promise<ApiKey | null> {
+  const [apiKey] = await db
+    .update(api_key_schema)
+    .set({
+      revoked_at: sql`coalesce(${api_key_schema.revoked_at}, now())`,
+    })
+    .where(
+      and(eq(api_key_schema.id, apiKeyId), eq(api_key_schema.user_id, userId)),
+    )
+    .returning(apiKeyColumns);
+
+  return apiKey ?? null;
+}
+
+/** Resolves a bearer token to its user and scopes, null for unknown or revoked keys */
+export async function authenticateApiKey(
+  key: string,
+  db: Database,
+): Promise<Authentication | null> {
+  const [found] = await db
+    .select({
+      apiKeyId: api_key_schema.id,
+      scopes: api_key_schema.scopes,
+      user: userColumns,
+    })
+    .from(api_key_schema)
+    .innerJoin(user_schema, eq(api_key_schema.user_id, user_schema.id))
+    .where(
+      and(
+        eq(api_key_schema.key_hash, hashApiKey(key)),
+        isNull(api_key_schema.revoked_at),
+      ),
+    );
+  if (!found) return null;
+
+  await db
+    .update(api_key_schema)
+    .set({ last_used_at: sql`now()` })
+    .where(
+      and(
+        eq(api_key_schema.id, found.apiKeyId),
+        or(
+          isNull(api_key_schema.last_used_at),
+          lt(
+            api_key_schema.last_used_at,
+            sql`now() - interval '${sql.raw(LAST_USED_RESOLUTION)}'`,
+          ),
+        ),
+      ),
+    );
+
+  return found;
+}
@@ -0,0 +1,88 @@
+/** `ingest` and `admin` keys can also call the `read` routes, see hasScope */
+export const ApiKeyScopes = {
+  /** Search and read recipes, tags, collections and meal plans */
+  read: "read",
+  /** Submit, edit and delete recipes, follow their jobs, change collections, favourites and meal plans */
+  ingest: "ingest",
+  /** Ingredient catalogue, duplicate review and user management */
+  admin: "admin",
+} as const;
+
+export type ApiKeyScope = (typeof ApiKeyScopes)[keyof typeof ApiKeyScopes];
+
+export type User = {
+  id: number;
+  name: string;
+  email: string;
+  created_at: Date;
+};
+
+export type ApiKey = {
+  id: number;
+  user_id: number;
+  name: string;
+  /** Start of the key, the key itself is only returned when it is created */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+};
+
+/** An API key as returned once on creation */
+export type CreatedApiKey = ApiKey & { key: string };
+
+/** The user and key a request was authenticated with */
+export type Authentication = {
+  user: User;
+  apiKeyId: number;
+  scopes: ApiKeyScope[];
+};
+
+export class AuthenticationFailed extends Error {
+  public readonly type = "authenticationFailed";
+  public readonly uri =
+    "https://tastebase.dev/http-errors/authentication-failed";
+  constructor(params?: { message?: string; options?: ErrorOptions }) {
+    super(
+      params?.message ??
+        "A valid API key is required, pass it as `Authorization: Bearer <key>`",
+      params?.options,
+    );
+    this.name = "AuthenticationFailed";
+  }
+}
+
+export class InsufficientScope extends Error {
+  public readonly type = "insufficientScope";
+  public readonly uri = "https://tastebase.dev/http-errors/insufficient-scope";
+  public readonly scope: ApiKeyScope;
+  constructor(
+    scope: ApiKeyScope,
+    params?: { message?: string; options?: ErrorOptions },
+  ) {
+    super(
+      params?.message ?? `The API key lacks the '${scope}' scope`,
+      params?.options,
+    );
+    this.scope = scope;
+    this.name = "InsufficientScope";
+  }
+}
+
+export class UserEmailTaken extends Error {
+  public readonly type = "userEmailTaken";
+  public readonly uri = "https://tastebase.dev/http-errors/user-email-taken";
+  public readonly userId: number;
+  constructor(
+    userId: number,
+    params?: { message?: string; options?: ErrorOptions },
+  ) {
+    super(
+      params?.message ?? "A user with the email already exists",
+      params?.options,
+    );
+    this.userId = userId;
+    this.name = "UserEmailTaken";
+  }
+}
@@ -0,0 +1,89 @@
+import { isIP } from "node:net";
+
+/** Ranges which are not reachable on the public internet, as [network, prefix] */
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+const PRIVATE_IPV6_RANGES: [string, number][] = [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+];
+
+/** IPv4 address as an unsigned 32-bit number */
+function ipv4ToNumber(address: string): number {
+  return (
+    address
+      .split(".")
+      .reduce((value, octet) => (value << 8) + Number(octet), 0) >>> 0
+  );
+}
+
+/** IPv6 address as its 128 bits, an embedded IPv4 tail included */
+function ipv6ToBigInt(address: string): bigint {
+  let groups = address;
+  const ipv4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(address)?.[1];
+  if (ipv4Tail) {
+    const value = ipv4ToNumber(ipv4Tail);
+    groups = `${address.slice(0, -ipv4Tail.length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head = "", tail] = groups.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  return [
+    ...headGroups,
+    ...Array<string>(tail === undefined ? 0 : missing).fill("0"),
+    ...tailGroups,
+  ].reduce((value, group) => (value << 16n) + BigInt(`0x${group}`), 0n);
+}
+
+function inIpv4Range(address: string, [network, prefix]: [string, number]) {
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  return (ipv4ToNumber(address) & mask) >>> 0 === ipv4ToNumber(network);
+}
+
+function inIpv6Range(address: string, [network, prefix]: [string, number]) {
+  const shift = BigInt(128 - prefix);
+  return ipv6ToBigInt(address) >> shift === ipv6ToBigInt(network) >> shift;
+}
+
+/**
+ * Whether an IP address is reachable on the public internet, i.e. not a
+ * loopback, private, link-local, shared, multicast or reserved address.
+ * IPv4-mapped IPv6 addresses are judged by their IPv4 address.
+ */
+export function isPublicAddress(address: string): boolean {
+  const [ip = ""] = address.split("%");
+  const version = isIP(ip);
+  if (version === 4) {
+    return !PRIVATE_IPV4_RANGES.some((range) => inIpv4Range(ip, range));
+  }
+  if (version !== 6) return false;
+
+  const value = ipv6ToBigInt(ip.toLowerCase());
+  if (value >> 32n === 0xffffn) {
+    const ipv4 = Number(value & 0xffffffffn);
+    return isPublicAddress(
+      [24, 16, 8, 0].map((shift) => (ipv4 >>> shift) & 0xff).join("."),
+    );
+  }
+
+  return !PRIVATE_IPV6_RANGES.some((range) => inIpv6Range(ip, range));
+}
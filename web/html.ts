@@ -0,0 +1,158 @@
+/**
+ * Extracts what the web-page source needs from raw HTML using Bun's built-in
+ * HTMLRewriter, no DOM is built for the page.
+ */
+
+export type ParsedHtml = {
+  /** Raw contents of every `application/ld+json` script */
+  jsonLd: string[];
+  title: string | null;
+  canonicalUrl: string | null;
+  siteName: string | null;
+  author: string | null;
+  /** Readable text of the page, preferring the `<article>` element */
+  text: string;
+};
+
+/** Elements which never hold the readable content of a page */
+const SKIPPED_ELEMENTS =
+  "head, script, style, noscript, template, svg, nav, header, footer, aside, form, iframe";
+/** Elements after which the readable text continues on a new line */
+const BLOCK_ELEMENTS =
+  "p, div, section, li, h1, h2, h3, h4, h5, h6, br, tr, blockquote, pre";
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  deg: "°",
+  frac12: "½",
+  frac14: "¼",
+  frac34: "¾",
+};
+
+export function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const codePoint =
+          entity[1] === "x" || entity[1] === "X"
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+        return Number.isNaN(codePoint)
+          ? match
+          : String.fromCodePoint(codePoint);
+      }
+
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    },
+  );
+}
+
+function normalizeText(value: string): string {
+  return value
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function parseHtml(html: string): ParsedHtml {
+  const jsonLd: string[] = [];
+  const meta: Record<string, string> = {};
+  let title = "";
+  let canonicalUrl: string | null = null;
+
+  let skipDepth = 0;
+  let articleDepth = 0;
+  let currentJsonLd = "";
+  const articleText: string[] = [];
+  const bodyText: string[] = [];
+
+  const pushText = (value: string) => {
+    if (skipDepth > 0) return;
+    bodyText.push(value);
+    if (articleDepth > 0) articleText.push(value);
+  };
+
+  new HTMLRewriter()
+    .on('script[type="application/ld+json"]', {
+      /**
+       * Script contents are a single text node, delivered in chunks. The end
+       * tag handler is already taken by the skipped elements handler.
+       */
+      text(chunk) {
+        currentJsonLd += chunk.text;
+        if (chunk.lastInTextNode) {
+          if (currentJsonLd.trim()) jsonLd.push(currentJsonLd);
+          currentJsonLd = "";
+        }
+      },
+    })
+    .on("title", {
+      text(chunk) {
+        title += chunk.text;
+      },
+    })
+    .on('link[rel="canonical"]', {
+      element(element) {
+        canonicalUrl ??= element.getAttribute("href");
+      },
+    })
+    .on("meta", {
+      element(element) {
+        const key =
+          element.getAttribute("property") ?? element.getAttribute("name");
+        const content = element.getAttribute("content");
+        if (key && content) meta[key.toLowerCase()] = content;
+      },
+    })
+    .on(SKIPPED_ELEMENTS, {
+      element(element) {
+        if (element.selfClosing) return;
+        skipDepth++;
+        element.onEndTag(() => {
+          skipDepth--;
+        });
+      },
+    })
+    .on("article", {
+      element(element) {
+        articleDepth++;
+        element.onEndTag(() => {
+          articleDepth--;
+        });
+      },
+    })
+    .on(BLOCK_ELEMENTS, {
+      element() {
+        pushText("\n");
+      },
+    })
+    .onDocument({
+      text(chunk) {
+        pushText(chunk.text);
+      },
+    })
+    .transform(html);
+
+  const text = normalizeText(
+    decodeEntities((articleText.length ? articleText : bodyText).join("")),
+  );
+
+  return {
+    jsonLd,
+    title: normalizeText(decodeEntities(title)) || meta["og:title"] || null,
+    canonicalUrl: canonicalUrl ?? meta["og:url"] ?? null,
+    siteName: meta["og:site_name"] ?? null,
+    author: meta["author"] ?? meta["article:author"] ?? null,
+    text,
+  };
+}
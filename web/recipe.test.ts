@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import { parseHtml } from "./html";
+import { findJsonLdRecipe, jsonLdRecipeToParsedRecipe } from "./recipe";
+
+async function readFixture(name: string): Promise<string> {
+  return await Bun.file(new URL(`./fixtures/${name}`, import.meta.url)).text();
+}
+
+describe("findJsonLdRecipe", () => {
+  test("finds the recipe in a @graph, by one of its types", async () => {
+    const { jsonLd } = parseHtml(await readFixture("json-ld-graph.html"));
+
+    const recipe = findJsonLdRecipe(jsonLd);
+
+    expect(recipe?.name).toBe("Lemon Garlic Pasta");
+    expect(recipe?.["@type"]).toEqual(["Recipe", "NewsArticle"]);
+  });
+
+  test("finds the recipe in an array of nodes", async () => {
+    const { jsonLd } = parseHtml(await readFixture("json-ld-incomplete.html"));
+
+    expect(findJsonLdRecipe(jsonLd)?.name).toBe("Mystery Stew");
+  });
+
+  test("skips malformed blocks and pages without a recipe", async () => {
+    const { jsonLd } = parseHtml(await readFixture("article.html"));
+
+    expect(findJsonLdRecipe(jsonLd)).toBeNull();
+    expect(findJsonLdRecipe(["{ not json", "[]", '"Recipe"'])).toBeNull();
+    expect(
+      findJsonLdRecipe(["{ not json", '{ "@type": "Recipe", "name": "Soup" }'])
+        ?.name,
+    ).toBe("Soup");
+  });
+});
+
+describe("jsonLdRecipeToParsedRecipe", () => {
+  test("maps a schema.org recipe onto a parsed recipe", async () => {
+    const { jsonLd } = parseHtml(await readFixture("json-ld-graph.html"));
+
+    const parsed = jsonLdRecipeToParsedRecipe(findJsonLdRecipe(jsonLd)!);
+
+    expect(parsed).toMatchObject({
+      name: "lemon garlic pasta",
+      language: "en",
+      servings: 4,
+      yield: null,
+      prepMinutes: 10,
+      cookMinutes: 15,
+      cuisine: "italian",
+      course: "main",
+      tags: ["italian", "main-course", "pasta", "quick-dinner"],
+      equipment: ["large pot", "zester"],
+    });
+    expect(parsed?.steps).toEqual([
+      {
+        text: "Boil the spaghetti for 10 minutes.",
+        durationMinutes: 10,
+        temperature: null,
+        ingredients: ["spaghetti"],
+      },
+      {
+        text: "Fry the garlic in the olive oil & add the lemon.",
+        durationMinutes: null,
+        temperature: null,
+        ingredients: ["garlic", "olive oil", "lemon"],
+      },
+    ]);
+    expect(
+      parsed?.ingredients.map(({ name, quantity, unit }) => ({
+        name,
+        quantity,
+        unit,
+      })),
+    ).toEqual([
+      { name: "spaghetti", quantity: "400 g", unit: "g" },
+      { name: "garlic", quantity: "3 cloves, thinly sliced", unit: "clove" },
+      { name: "olive oil", quantity: "2 tbsp", unit: "tbsp" },
+      { name: "lemon", quantity: "1", unit: null },
+      { name: "salt", quantity: "to taste", unit: null },
+    ]);
+  });
+
+  test("keeps yields which are not servings as text", () => {
+    const parsed = jsonLdRecipeToParsedRecipe({
+      "@type": "Recipe",
+      name: "Cookies",
+      recipeYield: "24 cookies",
+      recipeIngredient: ["200 g flour"],
+      recipeInstructions: "1. Mix.\n2. Bake for 12 minutes.",
+    });
+
+    expect(parsed?.servings).toBeNull();
+    expect(parsed?.yield).toBe("24 cookies");
+    expect(parsed?.steps.map((step) => step.text)).toEqual([
+      "Mix.",
+      "Bake for 12 minutes.",
+    ]);
+  });
+
+  test("returns null without instructions", async () => {
+    const { jsonLd } = parseHtml(await readFixture("json-ld-incomplete.html"));
+
+    expect(jsonLdRecipeToParsedRecipe(findJsonLdRecipe(jsonLd)!)).toBeNull();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Maps schema.org `Recipe` objects embedded as JSON-LD (https://schema.org/Recipe)
+ * onto the recipe shape produced by the LLM, most recipe blogs embed one for
+ * search engines which spares an LLM call for those pages.
+ */
+
+import { RecipeParsedSchema, type ParsedRecipeLlm } from "../llm/schema";
+import { extractStepDetails } from "../recipe/steps";
+import { RecipeCourses, type RecipeCourse } from "../recipe/type";
+import { decodeEntities } from "./html";
+
+type JsonLdNode = Record<string, unknown>;
+
+/** Leading amount of an ingredient line, e.g. "1", "1/2", "1 1/2", "½", "1-2" */
+const AMOUNT = String.raw`(?:\d*\s?[¼½¾⅓⅔⅛⅜⅝⅞]|\d+\/\d+|\d+(?:[.,]\d+)?(?:\s+\d+\/\d+)?)`;
+const UNITS = [
+  "cups?",
+  "tablespoons?",
+  "tbsps?",
+  "tbs",
+  "teaspoons?",
+  "tsps?",
+  "grams?",
+  "g",
+  "kilograms?",
+  "kg",
+  "millilit(?:er|re)s?",
+  "ml",
+  "lit(?:er|re)s?",
+  "l",
+  "ounces?",
+  "oz",
+  "pounds?",
+  "lbs?",
+  "pinch(?:es)?",
+  "dash(?:es)?",
+  "cloves?",
+  "cans?",
+  "slices?",
+  "sticks?",
+  "bunch(?:es)?",
+  "handfuls?",
+  "sprigs?",
+  "pieces?",
+];
+const INGREDIENT_LINE = new RegExp(
+  String.raw`^(${AMOUNT}(?:\s*(?:-|–|to)\s*${AMOUNT})?(?:\s*(?:${UNITS.join("|")})\.?(?![a-z]))?)\s+(?:of\s+)?(.+)$`,
+  "i",
+);
+
+const MAX_TAGS = 12;
+
+function isNode(value: unknown): value is JsonLdNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const text = decodeEntities(value).replace(/\s+/g, " ").trim();
+  return text.length ? text : null;
+}
+
+function isRecipeNode(node: JsonLdNode): boolean {
+  return asArray(node["@type"]).some((type) => type === "Recipe");
+}
+
+/**
+ * Finds the first Recipe node across the JSON-LD blocks of a page, which may
+ * hold a single node, an array of nodes or a `@graph`. Malformed blocks are
+ * ignored.
+ */
+export function findJsonLdRecipe(blocks: string[]): JsonLdNode | null {
+  for (const block of blocks) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(block);
+    } catch {
+      continue;
+    }
+
+    const pending = asArray(parsed);
+    while (pending.length) {
+      const node = pending.shift();
+      if (!isNode(node)) continue;
+      if (isRecipeNode(node)) return node;
+      pending.push(...asArray(node["@graph"]));
+    }
+  }
+
+  return null;
+}
+
+/** Author can be a name, a Person/Organization or a list of those */
+export function getJsonLdAuthor(recipe: JsonLdNode): string | null {
+  const names = asArray(recipe.author)
+    .map((author) => (isNode(author) ? asText(author.name) : asText(author)))
+    .filter((name): name is string => !!name);
+
+  return names.length ? names.join(", ") : null;
+}
+
+function parseIngredient(line: string): {
+  name: string;
+  quantity: string | null;
+} {
+  const match = INGREDIENT_LINE.exec(line);
+  let amount = match?.[1]?.trim() ?? null;
+  let rest = match?.[2] ?? line;
+
+  const toTaste = /\s+to taste$/i.exec(rest);
+  if (!amount && toTaste) {
+    amount = "to taste";
+    rest = rest.slice(0, toTaste.index);
+  }
+
+  /** "onion, finely chopped" keeps the preparation along with the quantity */
+  const [name = rest, ...preparation] = rest
+    .replace(/\([^)]*\)/g, "")
+    .split(",")
+    .map((part) => part.trim());
+  const quantity = [amount, preparation.join(", ")].filter(Boolean).join(", ");
+
+  return { name, quantity: quantity.length ? quantity : null };
+}
+
+/** Instructions can be a text, a list of texts, HowToSteps or HowToSections */
+function collectSteps(value: unknown): string[] {
+  return asArray(value).flatMap((item): string[] => {
+    if (isNode(item)) {
+      if (item.itemListElement) return collectSteps(item.itemListElement);
+      const text = asText(item.text) ?? asText(item.name);
+      return text ? [text] : [];
+    }
+
+    const text = typeof item === "string" ? decodeEntities(item) : null;
+    if (!text) return [];
+    return text
+      .split(/\n+/)
+      .map((line) => line.replace(/^\s*\d+[.)]\s*/, "").trim())
+      .filter(Boolean);
+  });
+}
+
+function collectTags(recipe: JsonLdNode): string[] {
+  const keywords = asArray(recipe.keywords).flatMap((keyword) =>
+    typeof keyword === "string" ? keyword.split(",") : [],
+  );
+
+  return [
+    ...asArray(recipe.recipeCuisine),
+    ...asArray(recipe.recipeCategory),
+    ...keywords,
+  ]
+    .map((tag) => asText(tag)?.toLowerCase().replace(/\s+/g, "-"))
+    .filter((tag): tag is string => !!tag)
+    .slice(0, MAX_TAGS);
+}
+
+/** ISO 8601 durations, e.g. "PT1H30M" or "P0DT0H20M" */
+const ISO_DURATION =
+  /^P(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+function parseDurationMinutes(value: unknown): number | null {
+  const match = typeof value === "string" ? ISO_DURATION.exec(value) : null;
+  if (!match) return null;
+
+  const [, days = 0, hours = 0, minutes = 0, seconds = 0] = match;
+  const total =
+    Number(days) * 1440 +
+    Number(hours) * 60 +
+    Number(minutes) +
+    Number(seconds) / 60;
+  return total > 0 ? Math.round(total) : null;
+}
+
+/** "4", "4 servings" and "Serves 4" are servings, "24 cookies" is a yield */
+function parseYield(recipe: JsonLdNode): {
+  servings: number | null;
+  yield: string | null;
+} {
+  const values = asArray(recipe.recipeYield).map((value) =>
+    typeof value === "number" ? String(value) : asText(value),
+  );
+
+  for (const value of values) {
+    const servings =
+      value &&
+      /^(?:serves\s+)?(\d+)(?:\s*(?:servings?|portions?|people|persons?))?$/i.exec(
+        value,
+      );
+    if (servings) return { servings: Number(servings[1]), yield: null };
+  }
+
+  return { servings: null, yield: values.find(Boolean) ?? null };
+}
+
+/** recipeCategory is free text, only categories which name a course are kept */
+const COURSE_KEYWORDS: [RegExp, RecipeCourse][] = [
+  [/breakfast|brunch/i, RecipeCourses.breakfast],
+  [/appetizer|starter|entrée/i, RecipeCourses.appetizer],
+  [/main|dinner|lunch|entree/i, RecipeCourses.main],
+  [/side/i, RecipeCourses.side],
+  [/soup|stew/i, RecipeCourses.soup],
+  [/salad/i, RecipeCourses.salad],
+  [/dessert|cake|cookie|sweet/i, RecipeCourses.dessert],
+  [/snack/i, RecipeCourses.snack],
+  [/drink|beverage|cocktail|smoothie/i, RecipeCourses.drink],
+  [/sauce|dip|dressing|condiment/i, RecipeCourses.sauce],
+  [/bread/i, RecipeCourses.bread],
+];
+
+function parseCourse(recipe: JsonLdNode): RecipeCourse | null {
+  for (const category of asArray(recipe.recipeCategory)) {
+    const text = asText(category);
+    const match =
+      text && COURSE_KEYWORDS.find(([pattern]) => pattern.test(text));
+    if (match) return match[1];
+  }
+
+  return null;
+}
+
+/** Tools can be names or HowToTool nodes */
+function collectEquipment(recipe: JsonLdNode): string[] {
+  return asArray(recipe.tool)
+    .map((tool) => (isNode(tool) ? asText(tool.name) : asText(tool)))
+    .filter((tool): tool is string => !!tool);
+}
+
+/**
+ * Maps a schema.org Recipe onto ParsedRecipeLlm. Returns null when the node
+ * lacks a name, ingredients or instructions, in which case the page is better
+ * handed over to the LLM.
+ */
+export function jsonLdRecipeToParsedRecipe(
+  recipe: JsonLdNode,
+): ParsedRecipeLlm | null {
+  const name = asText(recipe.name);
+  const ingredients = asArray(recipe.recipeIngredient ?? recipe.ingredients)
+    .map(asText)
+    .filter((line): line is string => !!line)
+    .map(parseIngredient);
+  const steps = collectSteps(recipe.recipeInstructions);
+
+  if (!name || !ingredients.length || !steps.length) return null;
+
+  const parsed = RecipeParsedSchema.safeParse({
+    name,
+    steps: steps.map((text) => ({
+      text,
+      ...extractStepDetails(
+        text,
+        ingredients.map((ingredient) => ingredient.name.toLowerCase()),
+      ),
+    })),
+    ingredients,
+    tags: collectTags(recipe),
+    language: asText(recipe.inLanguage),
+    ...parseYield(recipe),
+    prepMinutes: parseDurationMinutes(recipe.prepTime),
+    cookMinutes: parseDurationMinutes(recipe.cookTime),
+    cuisine: asArray(recipe.recipeCuisine).map(asText).find(Boolean) ?? null,
+    course: parseCourse(recipe),
+    equipment: collectEquipment(recipe),
+  });
+
+  return parsed.success ? parsed.data : null;
+}
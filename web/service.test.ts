@@ -0,0 +1,53 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { isPublicAddress } from "./address";
+import { fetchPage } from "./service";
+import { WebPageFetchError } from "./type";
+
+describe("isPublicAddress", () => {
+  test.each(["8.8.8.8", "172.32.0.1", "2606:4700::1111", "::ffff:8.8.8.8"])(
+    "accepts %s",
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    },
+  );
+
+  test.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fe80::1%eth0",
+    "fd12::1",
+    "::ffff:127.0.0.1",
+    "not an address",
+  ])("refuses %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+});
+
+describe("fetchPage", () => {
+  const server = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    fetch: () =>
+      new Response("<html></html>", {
+        headers: { "content-type": "text/html" },
+      }),
+  });
+  afterAll(() => server.stop());
+
+  test.each([
+    `http://127.0.0.1:${server.port}/`,
+    `http://localhost:${server.port}/`,
+    `http://[::ffff:7f00:1]:${server.port}/`,
+    "http://169.254.169.254/latest/meta-data",
+    "ftp://example.com/recipe",
+  ])("does not request %s", async (url) => {
+    await expect(fetchPage(url)).rejects.toBeInstanceOf(WebPageFetchError);
+  });
+});
@@ -0,0 +1,132 @@
+import { isIP } from "node:net";
+import { lookup } from "node:dns/promises";
+import { isPublicAddress } from "./address";
+import { WebPageFetchError, type WebPage } from "./type";
+
+const FETCH_TIMEOUT_MS = 10_000;
+/** Recipe pages are heavy, but anything beyond this is not worth parsing */
+const MAX_HTML_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+function parseUrl(url: string, base?: URL): URL {
+  try {
+    return new URL(url, base);
+  } catch (error) {
+    const options = error instanceof Error ? { cause: error } : undefined;
+    throw new WebPageFetchError(`Invalid URL '${url}'.`, { options });
+  }
+}
+
+/**
+ * Pages are fetched on behalf of clients, so only hosts resolving to public
+ * addresses are requested: loopback, private and link-local addresses (the
+ * database, cloud metadata endpoints, ...) are never reached.
+ */
+async function assertPublicHost(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new WebPageFetchError(`Unsupported protocol '${url.protocol}'.`);
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map(({ address }) => address);
+  } catch (error) {
+    const options = error instanceof Error ? { cause: error } : undefined;
+    throw new WebPageFetchError(`Failed to resolve '${host}'.`, { options });
+  }
+
+  if (!addresses.length || !addresses.every(isPublicAddress)) {
+    throw new WebPageFetchError(`'${host}' is not a public address.`);
+  }
+}
+
+async function request(url: URL, signal: AbortSignal): Promise<Response> {
+  try {
+    return await fetch(url, {
+      redirect: "manual",
+      signal,
+      headers: {
+        accept: "text/html,application/xhtml+xml",
+        "user-agent": "tastebase/1.0 (+https://tastebase.dev)",
+      },
+    });
+  } catch (error) {
+    const options = error instanceof Error ? { cause: error } : undefined;
+    throw new WebPageFetchError(`Failed to fetch '${url}'.`, { options });
+  }
+}
+
+/** Reads the body as it streams in, giving up once it exceeds the limit */
+async function readHtml(url: URL, response: Response): Promise<string> {
+  const contentLength = Number(response.headers.get("content-length") ?? 0);
+  if (!response.body) return "";
+  if (contentLength > MAX_HTML_BYTES) {
+    await response.body.cancel();
+    throw new WebPageFetchError(`The page at '${url}' is too large.`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > MAX_HTML_BYTES) {
+      await reader.cancel();
+      throw new WebPageFetchError(`The page at '${url}' is too large.`);
+    }
+    chunks.push(value);
+  }
+
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+/**
+ * Default fetcher for web pages, follows redirects and only accepts HTML
+ * responses. Every hop is checked to be a public host. Network and HTTP
+ * failures are raised as WebPageFetchError, whose messages are meant for the
+ * logs rather than for clients.
+ */
+export async function fetchPage(url: string): Promise<WebPage> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = parseUrl(url);
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicHost(current);
+    const response = await request(current, signal);
+
+    const location = response.headers.get("location");
+    if (REDIRECT_STATUSES.includes(response.status) && location) {
+      await response.body?.cancel();
+      if (redirects === MAX_REDIRECTS) {
+        throw new WebPageFetchError(`Too many redirects from '${url}'.`);
+      }
+      current = parseUrl(location, current);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new WebPageFetchError(
+        `Fetching '${current}' failed with status ${response.status}.`,
+        { status: response.status },
+      );
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!contentType.includes("html")) {
+      await response.body?.cancel();
+      throw new WebPageFetchError(
+        `Expected an HTML page at '${current}' but got '${contentType}'.`,
+      );
+    }
+
+    return { url: current.toString(), html: await readHtml(current, response) };
+  }
+}
@@ -0,0 +1,20 @@
+export type WebPage = {
+  /** Final URL of the page after redirects */
+  url: string;
+  html: string;
+};
+
+/** Fetches the HTML of a page, injectable so pages can be served from fixtures */
+export type WebPageFetcher = (url: string) => Promise<WebPage>;
+
+export class WebPageFetchError extends Error {
+  public readonly status?: number;
+  constructor(
+    message = "Failed to fetch the web page.",
+    params?: { status?: number; options?: ErrorOptions },
+  ) {
+    super(message, params?.options);
+    this.status = params?.status;
+    this.name = "WebPageFetchError";
+  }
+}
@@ -14,6 +14,49 @@ export async function init(): Promise<Innertube> {
   return client;
 }
 
+export type CaptionTrack = {
+  languageCode: string;
+  /** Display name, which is also the name of the transcript language */
+  name: string;
+  autoGenerated: boolean;
+};
+
+export function listCaptionTracks(
+  videoInfo: InnertubeVideoInfo,
+): CaptionTrack[] {
+  return (videoInfo.captions?.caption_tracks ?? []).map((track) => ({
+    languageCode: track.language_code,
+    name: track.name.toString(),
+    autoGenerated: track.kind === "asr",
+  }));
+}
+
+/**
+ * Picks the caption track in the original language of the video. YouTube only
+ * generates captions (ASR) for the spoken language, so a manual track in the
+ * language of the generated one is preferred, then the generated track itself.
+ * Videos without generated captions fall back to the first manual track.
+ */
+export function selectCaptionTrack(
+  tracks: CaptionTrack[],
+  preferredLanguage?: string,
+): CaptionTrack | null {
+  const language =
+    preferredLanguage ??
+    tracks.find((track) => track.autoGenerated)?.languageCode;
+  const inLanguage = tracks.filter(
+    (track) => language && track.languageCode === language,
+  );
+
+  return (
+    inLanguage.find((track) => !track.autoGenerated) ??
+    inLanguage[0] ??
+    tracks.find((track) => !track.autoGenerated) ??
+    tracks[0] ??
+    null
+  );
+}
+
 export async function getVideoInfo(
   videoId: string,
 ): Promise<InnertubeVideoInfo> {
@@ -21,7 +64,8 @@ export async function getVideoInfo(
 }
 
 /**
- * Retrieves transcript via youtubei.js. Some Shorts have no transcript panel
+ * Retrieves transcript via youtubei.js, in the language of the given caption
+ * track when the transcript is available in it. Some Shorts have no transcript panel
  * and the client may throw InnerTubeError("Transcript panel not found"). Infact
  * the library may also throw errors in case the video was not a valid one. Library
  * errors are currently not converted to any error and are a responsibility of the
@@ -35,6 +79,7 @@ export async function getVideoInfo(
  */
 export async function getTranscript(
   videoInfo: InnertubeVideoInfo,
+  track?: CaptionTrack,
 ): Promise<string> {
   /**
    * In case the `getTranscript` function does not work properly and older fallback implementation
@@ -45,7 +90,15 @@ export async function getTranscript(
    * Message: "Transcript panel not found. Video likely has no transcript."
    * Example video: https://www.youtube.com/shorts/HK6oezUtJho
    */
-  const transcript = await videoInfo.getTranscript();
+  let transcript = await videoInfo.getTranscript();
+  /** The transcript panel opens in the language YouTube deems relevant for the client */
+  if (
+    track &&
+    transcript.selectedLanguage !== track.name &&
+    transcript.languages.includes(track.name)
+  ) {
+    transcript = await transcript.selectLanguage(track.name);
+  }
 
   let text = "";
   for (const segment of transcript.transcript.content?.body?.initial_segments ||
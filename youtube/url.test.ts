@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { parseYoutubeUrl } from "./url";
+
+const VIDEO_ID = "dQw4w9WgXcQ";
+
+describe("parseYoutubeUrl", () => {
+  test.each([
+    `https://www.youtube.com/shorts/${VIDEO_ID}`,
+    `https://youtube.com/shorts/${VIDEO_ID}?feature=share`,
+    `https://m.youtube.com/watch?v=${VIDEO_ID}&t=42s`,
+    `http://www.youtube.com/embed/${VIDEO_ID}`,
+    `https://www.youtube.com/live/${VIDEO_ID}`,
+    `https://youtu.be/${VIDEO_ID}?si=abc`,
+    `HTTPS://WWW.YOUTUBE.COM/shorts/${VIDEO_ID}`,
+  ])("reads the video id of %s", (url) => {
+    expect(parseYoutubeUrl(url)).toEqual({
+      success: true,
+      data: { id: VIDEO_ID },
+    });
+  });
+
+  test("accepts URL objects", () => {
+    expect(parseYoutubeUrl(new URL(`https://youtu.be/${VIDEO_ID}`))).toEqual({
+      success: true,
+      data: { id: VIDEO_ID },
+    });
+  });
+
+  test.each([
+    ["not a url", "Invalid URL"],
+    [`ftp://youtube.com/shorts/${VIDEO_ID}`, "Unsupported protocol"],
+    [`https://vimeo.com/${VIDEO_ID}`, "Unsupported host"],
+    [`https://youtube.com/channel/${VIDEO_ID}`, "Unsupported YouTube URL path"],
+    [`https://youtube.com/shorts/${VIDEO_ID}/extra`, "Unsupported YouTube"],
+    [`https://youtu.be/${VIDEO_ID}/extra`, "Expected a short link"],
+    ["https://youtube.com/watch?list=abc", "Missing video id"],
+    ["https://youtube.com/shorts/short", "Invalid YouTube video id"],
+  ])("rejects %s", (url, error) => {
+    const result = parseYoutubeUrl(url);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain(error);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Normalizes the different shapes of YouTube URLs people paste (share sheet,
+ * browser address bar, embeds) into the canonical video id, which is what
+ * recipe sources are deduplicated on.
+ *
+ * Supported shapes, with or without `www.`/`m.` and any query string:
+ *  - youtube.com/shorts/{id}
+ *  - youtube.com/watch?v={id}
+ *  - youtube.com/embed/{id}, youtube.com/live/{id}
+ *  - youtu.be/{id}
+ */
+
+const YOUTUBE_HOSTS = new Set([
+  "youtube.com",
+  "www.youtube.com",
+  "m.youtube.com",
+]);
+const YOUTUBE_SHORT_LINK_HOSTS = new Set(["youtu.be", "www.youtu.be"]);
+const PATH_ID_PREFIXES = new Set(["shorts", "embed", "live"]);
+
+/** YouTube video ids are 11 characters from the url-safe base64 alphabet */
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+
+export type YoutubeUrl = {
+  id: string;
+};
+
+export type YoutubeUrlParseResult =
+  | { success: true; data: YoutubeUrl }
+  | { success: false; error: string };
+
+export function parseYoutubeUrl(url: string | URL): YoutubeUrlParseResult {
+  let parsed: URL;
+  try {
+    parsed = typeof url === "string" ? new URL(url) : url;
+  } catch {
+    return { success: false, error: "Invalid URL" };
+  }
+
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return {
+      success: false,
+      error: `Unsupported protocol '${parsed.protocol}', expected http or https`,
+    };
+  }
+
+  const hostname = parsed.hostname.toLowerCase();
+  const segments = parsed.pathname.split("/").filter(Boolean);
+
+  let id: string | null | undefined;
+  if (YOUTUBE_SHORT_LINK_HOSTS.has(hostname)) {
+    if (segments.length !== 1) {
+      return {
+        success: false,
+        error: "Expected a short link of the form 'https://youtu.be/{id}'",
+      };
+    }
+    id = segments[0];
+  } else if (YOUTUBE_HOSTS.has(hostname)) {
+    const [prefix, pathId, ...rest] = segments;
+    if (prefix === "watch" && segments.length === 1) {
+      id = parsed.searchParams.get("v");
+    } else if (prefix && PATH_ID_PREFIXES.has(prefix) && rest.length === 0) {
+      id = pathId;
+    } else {
+      return {
+        success: false,
+        error: `Unsupported YouTube URL path '${parsed.pathname}', expected '/shorts/{id}', '/watch?v={id}' or a 'youtu.be/{id}' link`,
+      };
+    }
+  } else {
+    return {
+      success: false,
+      error: `Unsupported host '${parsed.hostname}', expected a youtube.com or youtu.be URL`,
+    };
+  }
+
+  if (!id) {
+    return { success: false, error: "Missing video id in the YouTube URL" };
+  }
+
+  if (!VIDEO_ID_PATTERN.test(id)) {
+    return { success: false, error: `Invalid YouTube video id '${id}'` };
+  }
+
+  return { success: true, data: { id } };
+}